@@ -0,0 +1,140 @@
+import { readFileSync } from "node:fs";
+import { resolve } from "node:path";
+import { parseArgs } from "node:util";
+import { MAX_BOT_MS, autopilot, playBot } from "../src/bot.ts";
+import { endlessLevel, loadMap } from "../src/map.ts";
+import { resolveRules } from "../src/rules.ts";
+import {
+    DEFAULT_WIN,
+    WIN_SCORE,
+    createInitialState,
+    hasWon,
+} from "../src/state.ts";
+import type { GameRules, State } from "../src/types.ts";
+
+const USAGE = `Plays the autopilot headless over many seeds and reports how often it wins.
+
+Usage: npm run bot -- [options]
+
+  --map <path>         map or level to play (default assets/map.csv)
+  --endless            play endless courses, one for each seed, instead
+  --seeds <n>          number of runs (default 100)
+  --first-seed <n>     seed of the first run, the others follow (default 1)
+  --win <n>            pipes to pass to win (default: the map's own condition,
+                       ${WIN_SCORE} on endless courses, which have none)
+  --max-time <s>       time after which a run stops (default ${MAX_BOT_MS / 1000})
+  --verbose            list every run, not only the lost ones
+  --help               show this help
+`;
+
+/**
+ * Stops the program with a message.
+ *
+ * @param message what went wrong
+ * @returns never
+ */
+const fail = (message: string): never => {
+    console.error(`${message}\n\n${USAGE}`);
+    process.exit(1);
+};
+
+/**
+ * Reads a whole number option.
+ *
+ * @param name name of the option
+ * @param value text given for it
+ * @param min smallest value allowed
+ * @returns the number
+ */
+const countArg = (name: string, value: string, min: number): number => {
+    const n = Number(value);
+    return value.trim() === "" || !Number.isInteger(n) || n < min
+        ? fail(`--${name} must be a whole number of at least ${min}`)
+        : n;
+};
+
+/**
+ * Describes the end of a run.
+ *
+ * @param seed seed of the run
+ * @param s final state
+ * @returns one line of the report
+ */
+const describeRun = (seed: number, s: State): string =>
+    `seed ${seed}: ${hasWon(s) ? "won" : s.gameOver ? "lost" : "timed out"}, score ${s.score}, lives ${s.birbLives}, hits ${s.hits}, ${(s.elapsedTime / 1000).toFixed(1)}s`;
+
+// --- Main Program ---
+const { values } = parseArgs({
+    options: {
+        map: { type: "string" },
+        endless: { type: "boolean", default: false },
+        seeds: { type: "string", default: "100" },
+        "first-seed": { type: "string", default: "1" },
+        win: { type: "string" },
+        "max-time": { type: "string" },
+        verbose: { type: "boolean", default: false },
+        help: { type: "boolean", default: false },
+    },
+});
+
+if (values.help) {
+    console.log(USAGE);
+    process.exit(0);
+}
+
+const runs = countArg("seeds", values.seeds ?? "100", 1);
+const firstSeed = countArg("first-seed", values["first-seed"] ?? "1", 1);
+const maxMs =
+    values["max-time"] === undefined
+        ? MAX_BOT_MS
+        : countArg("max-time", values["max-time"], 1) * 1000;
+
+const rules: Partial<GameRules> =
+    values.win !== undefined
+        ? {
+              win: {
+                  type: "score",
+                  score: countArg("win", values.win, 1),
+              },
+          }
+        : values.endless
+          ? { win: DEFAULT_WIN }
+          : {};
+
+const mapFile = resolve(
+    values.map ?? new URL("../assets/map.csv", import.meta.url).pathname,
+);
+const contents = values.endless ? undefined : readFileSync(mapFile, "utf8");
+const level = contents === undefined ? undefined : loadMap(contents);
+if (level?.errors.length)
+    fail(
+        `${mapFile} could not be played:\n${level.errors
+            .map(e => `line ${e.line}: ${e.message}`)
+            .join("\n")}`,
+    );
+
+const seeds = Array.from({ length: runs }, (_, i) => firstSeed + i);
+const results = seeds.map(seed => {
+    // a map is the same every run, its seed only changes the bounces
+    const { pipes, info } = level ?? loadMap(endlessLevel(seed));
+    const start = createInitialState(
+        pipes,
+        seed,
+        [],
+        resolveRules(rules, info.win),
+        info.endless?.seed,
+    );
+    return { seed, end: playBot(start, autopilot, maxMs) };
+});
+
+results
+    .filter(r => values.verbose || !hasWon(r.end))
+    .forEach(r => console.log(describeRun(r.seed, r.end)));
+
+const wins = results.filter(r => hasWon(r.end)).length;
+// averages over every run
+const mean = (f: (s: State) => number): string =>
+    (results.reduce((sum, r) => sum + f(r.end), 0) / runs).toFixed(1);
+console.log(
+    `${values.endless ? "endless courses" : mapFile}: won ${wins}/${runs} (${((100 * wins) / runs).toFixed(1)}%), mean score ${mean(s => s.score)}, mean hits ${mean(s => s.hits)}`,
+);
@@ -1,56 +1,206 @@
 import { writeFileSync } from "node:fs";
+import { resolve } from "node:path";
+import { parseArgs } from "node:util";
+import {
+    Presets,
+    generateCourse,
+    type GeneratorOptions,
+    type PresetName,
+} from "../src/generate.ts";
+import { serialiseCsvMap, serialiseLevel } from "../src/map.ts";
+import { courseProblems, repairCourse } from "../src/solvable.ts";
+import { createPipe } from "../src/state.ts";
+import { Constants, type Pipe } from "../src/types.ts";
 
-// all units relative to canvas width/height
-type Pipe = Readonly<{
-    gap_y: number;
-    gap_height: number;
-    time: number;
-}>;
-
-const randRange = (min: number, max: number): number =>
-    Math.random() * (max - min) + min;
-
-const generatePipeCSV = ({
-    count,
-    startPos = 2,
-    posInterval = 2,
-    minGapY = 0.2,
-    maxGapY = 0.8,
-    // birb height = 0.075
-    minGapHeight = 0.2,
-    maxGapHeight = 0.3,
-}: {
-    count: number;
-    startPos?: number;
-    posInterval?: number;
-    duration?: number;
-    minGapY?: number;
-    maxGapY?: number;
-    minGapHeight?: number;
-    maxGapHeight?: number;
-}): string => {
-    const pipes: readonly Pipe[] = Array.from({ length: count }, (_, i) => {
-        const gap_y = randRange(minGapY, maxGapY);
-        const gap_height = randRange(minGapHeight, maxGapHeight);
-        const time = startPos + i * posInterval;
-        return { gap_y, gap_height, time };
-    });
-
-    return [
-        ["gap_y", "gap_height", "time"],
-        ...pipes.map(({ gap_y, gap_height, time }) => [
-            gap_y,
-            gap_height,
-            time,
-        ]),
-    ]
-        .map(xs => xs.join(","))
-        .join("\n");
+const USAGE = `Generates a map of pipes.
+
+Usage: npm run generate-pipes -- [options]
+
+  --preset <name>          easy, normal or hard (default normal)
+  --seed <n>               seed, a whole number of at least 0; the same seed
+                           and options give the same map
+                           (default: random, printed)
+  --count <n>              number of pipes
+  --start <s>              time of the first pipe
+  --interval <s>           time between pipes
+  --min-gap-y <f>          lowest gap centre, as a fraction of the canvas
+  --max-gap-y <f>          highest gap centre
+  --min-gap-height <f>     narrowest gap
+  --max-gap-height <f>     widest gap
+  --travel <s>             time for a pipe to cross the screen (json only)
+  --format <csv|json>      file format (default csv)
+  --output <path>          file to write (default assets/map.csv or
+                           assets/level.json)
+  --strict                 fail on impassable pipes instead of repairing them
+  --help                   show this help
+`;
+
+/** Command-line options that are numbers, by the generator option they set */
+const NUMBER_OPTIONS = {
+    count: "count",
+    start: "startPos",
+    interval: "posInterval",
+    "min-gap-y": "minGapY",
+    "max-gap-y": "maxGapY",
+    "min-gap-height": "minGapHeight",
+    "max-gap-height": "maxGapHeight",
+    travel: "travelTime",
+} as const satisfies Record<string, keyof GeneratorOptions>;
+
+/** Is this the name of a generator preset? */
+const isPreset = (name: string): name is PresetName => name in Presets;
+
+/**
+ * Stops the program with a message.
+ *
+ * @param message what went wrong
+ * @returns never
+ */
+const fail = (message: string): never => {
+    console.error(`${message}\n\n${USAGE}`);
+    process.exit(1);
+};
+
+/**
+ * Reads a number option.
+ *
+ * @param name name of the option
+ * @param value text given for it
+ * @returns the number
+ */
+const numberArg = (name: string, value: string): number => {
+    const n = Number(value);
+    return value.trim() === "" || !Number.isFinite(n)
+        ? fail(`--${name} must be a number, got "${value}"`)
+        : n;
+};
+
+/**
+ * Reads the seed option.
+ *
+ * @param value text given for it
+ * @returns the seed
+ */
+const seedArg = (value: string): number => {
+    const n = numberArg("seed", value);
+    return Number.isSafeInteger(n) && n >= 0
+        ? n
+        : fail(`--seed must be a whole number of at least 0, got "${value}"`);
+};
+
+/**
+ * Checks that options describe a map the game will load.
+ *
+ * @param o generator options
+ * @returns problems with the options
+ */
+const optionErrors = (o: GeneratorOptions): string[] => [
+    ...(!Number.isInteger(o.count) || o.count < 1
+        ? ["--count must be a whole number of at least 1"]
+        : []),
+    ...(o.startPos < 0 ? ["--start must not be negative"] : []),
+    ...(o.posInterval <= 0 ? ["--interval must be positive"] : []),
+    ...(o.travelTime <= 0 ? ["--travel must be positive"] : []),
+    ...(o.minGapY > o.maxGapY ? ["--min-gap-y is above --max-gap-y"] : []),
+    ...(o.minGapHeight > o.maxGapHeight
+        ? ["--min-gap-height is above --max-gap-height"]
+        : []),
+    ...(o.minGapY - o.maxGapHeight / 2 < 0 || o.maxGapY + o.maxGapHeight / 2 > 1
+        ? ["gaps would not fit on the canvas"]
+        : []),
+];
+
+/**
+ * Reads the command line.
+ *
+ * @returns the options given
+ */
+const readArgs = () => {
+    try {
+        return parseArgs({
+            options: {
+                preset: { type: "string", default: "normal" },
+                seed: { type: "string" },
+                format: { type: "string", default: "csv" },
+                output: { type: "string" },
+                strict: { type: "boolean", default: false },
+                help: { type: "boolean", default: false },
+                ...Object.fromEntries(
+                    Object.keys(NUMBER_OPTIONS).map(name => [
+                        name,
+                        { type: "string" as const },
+                    ]),
+                ),
+            },
+        });
+    } catch (error) {
+        return fail((error as Error).message);
+    }
 };
 
 // --- Main Program ---
-const outputFile = new URL("../assets/map.csv", import.meta.url);
+const { values } = readArgs();
+
+if (values.help) {
+    console.log(USAGE);
+    process.exit(0);
+}
+
+const preset = values.preset ?? "normal";
+if (!isPreset(preset)) fail(`unknown preset "${preset}"`);
+const format = values.format;
+if (format !== "csv" && format !== "json") fail(`unknown format "${format}"`);
+
+const options: GeneratorOptions = Object.entries(NUMBER_OPTIONS).reduce(
+    (o, [name, key]) => {
+        const value = (values as Record<string, unknown>)[name];
+        return typeof value === "string"
+            ? { ...o, [key]: numberArg(name, value) }
+            : o;
+    },
+    Presets[preset as PresetName],
+);
+const errors = optionErrors(options);
+if (errors.length) fail(errors.join("\n"));
+if (format === "csv" && options.travelTime * 1000 !== Constants.PIPE_TRAVEL_MS)
+    fail("CSV maps cannot change the pipe speed, use --format json");
+
+const seed =
+    values.seed === undefined
+        ? Math.floor(Math.random() * 0x7fffffff)
+        : seedArg(values.seed);
+
+const generated: readonly Pipe[] = generateCourse(seed, options).map(p =>
+    createPipe(p.gapY, p.gapHeight, p.time, { travelMs: p.travelMs }),
+);
+
+// every map is checked against the birb's physics before it is written
+const problems = courseProblems(generated);
+if (problems.length && values.strict)
+    fail(problems.map(p => `pipe ${p.index + 1}: ${p.message}`).join("\n"));
+const pipes = problems.length ? repairCourse(generated) : generated;
+const remaining = courseProblems(pipes);
+if (remaining.length)
+    fail(
+        `could not make the map passable:\n${remaining
+            .map(p => `pipe ${p.index + 1}: ${p.message}`)
+            .join("\n")}`,
+    );
+
+const outputFile = resolve(
+    values.output ??
+        new URL(
+            format === "csv" ? "../assets/map.csv" : "../assets/level.json",
+            import.meta.url,
+        ).pathname,
+);
 
-const csv = generatePipeCSV({ count: 20 });
-writeFileSync(outputFile, csv);
-console.log(`CSV written to ${outputFile}`);
+writeFileSync(
+    outputFile,
+    format === "csv"
+        ? serialiseCsvMap(pipes)
+        : serialiseLevel(pipes, { name: `${preset} #${seed}` }),
+);
+console.log(
+    `${format.toUpperCase()} written to ${outputFile} (preset ${preset}, seed ${seed}, ${pipes.length} pipes, ${new Set(problems.map(p => p.index)).size} repaired)`,
+);
@@ -0,0 +1,223 @@
+import { createHash, randomInt, randomUUID } from "node:crypto";
+import { createServer, type IncomingMessage } from "node:http";
+import type { Duplex } from "node:stream";
+import { parseArgs } from "node:util";
+import { EMPTY_LOBBY, leave, receive, type LobbyUpdate } from "../src/lobby.ts";
+import { RACE_PORT, isClientMessage, type ServerMessage } from "../src/race.ts";
+import {
+    CloseCode,
+    Opcode,
+    closeFrame,
+    decodeFrame,
+    encodeFrame,
+} from "./websocket.ts";
+
+const USAGE = `Relays online races between players of the game.
+
+Usage: npm run race-server -- [options]
+
+  --port <n>     port to listen on (default ${RACE_PORT})
+  --host <name>  address to listen on (default localhost; 0.0.0.0 for a LAN)
+  --help         show this help
+
+Open the game with ?players=race&server=ws://<host>:<port> on every machine.
+`;
+
+/** Appended to a client's key to accept its WebSocket handshake (RFC 6455) */
+const HANDSHAKE_GUID = "258EAFA5-E914-47DA-95CA-C5AB0DC85B11";
+
+/** Largest message taken from a client, bigger ones close the connection */
+const MAX_MESSAGE_BYTES = 1 << 20; // maps are sent when joining
+
+/**
+ * Stops the program with a message.
+ *
+ * @param message what went wrong
+ * @returns never
+ */
+const fail = (message: string): never => {
+    console.error(`${message}\n\n${USAGE}`);
+    process.exit(1);
+};
+
+// --- Main Program ---
+const { values } = parseArgs({
+    options: {
+        port: { type: "string", default: String(RACE_PORT) },
+        host: { type: "string", default: "localhost" },
+        help: { type: "boolean", default: false },
+    },
+});
+
+if (values.help) {
+    console.log(USAGE);
+    process.exit(0);
+}
+
+const port = Number(values.port);
+if (!Number.isInteger(port) || port < 1 || port > 65535)
+    fail("--port must be a whole number from 1 to 65535");
+
+/** Everyone connected, and the socket of each */
+const server = {
+    lobby: EMPTY_LOBBY,
+    sockets: new Map<string, Duplex>(),
+};
+
+/**
+ * Sends a message to a client.
+ *
+ * @param id id of the client
+ * @param message what to tell them
+ */
+const send = (id: string, message: ServerMessage): void => {
+    const socket = server.sockets.get(id);
+    if (socket && socket.writable)
+        socket.write(
+            encodeFrame(Opcode.TEXT, Buffer.from(JSON.stringify(message))),
+        );
+};
+
+/**
+ * Keeps the lobby after a message, and sends what it leads to.
+ *
+ * @param update the lobby and the messages to send
+ */
+const apply = ({ lobby, deliveries }: LobbyUpdate): void => {
+    server.lobby = lobby;
+    deliveries.forEach(({ to, message }) =>
+        to.forEach(id => send(id, message)),
+    );
+};
+
+/**
+ * Handles a message from a client. Anything that is not one of the
+ * protocol's messages is answered with an error.
+ *
+ * @param id id of the client
+ * @param text the message, JSON text
+ */
+const heard = (id: string, text: string): void => {
+    try {
+        const message: unknown = JSON.parse(text);
+        if (!isClientMessage(message)) throw new Error("not a race message");
+        if (message.type === "join")
+            console.log(`${message.name || id} joined`);
+        apply(receive(server.lobby, id, message, randomInt(1, 2 ** 31)));
+    } catch (err) {
+        send(id, { type: "error", message: `Bad message: ${err}` });
+    }
+};
+
+/**
+ * Takes a client's connection over from HTTP, once its WebSocket handshake
+ * is accepted.
+ *
+ * @param request the client's upgrade request
+ * @param socket its connection
+ * @param head bytes the client sent after the handshake, already read
+ */
+const connect = (
+    request: IncomingMessage,
+    socket: Duplex,
+    head: Buffer,
+): void => {
+    const key = request.headers["sec-websocket-key"];
+    if (request.headers.upgrade?.toLowerCase() !== "websocket" || !key) {
+        socket.end("HTTP/1.1 400 Bad Request\r\n\r\n");
+        return;
+    }
+    const accept = createHash("sha1")
+        .update(key + HANDSHAKE_GUID)
+        .digest("base64");
+    socket.write(
+        [
+            "HTTP/1.1 101 Switching Protocols",
+            "Upgrade: websocket",
+            "Connection: Upgrade",
+            `Sec-WebSocket-Accept: ${accept}`,
+            "",
+            "",
+        ].join("\r\n"),
+    );
+
+    const id = randomUUID();
+    server.sockets.set(id, socket);
+    const received: { bytes: Buffer; fragments: Buffer[]; closed: boolean } = {
+        bytes: Buffer.alloc(0),
+        fragments: [],
+        closed: false,
+    };
+
+    /**
+     * Closes the connection, reading nothing more from it.
+     *
+     * @param frame the close frame to send
+     */
+    const close = (frame: Buffer): void => {
+        received.closed = true;
+        received.bytes = Buffer.alloc(0);
+        socket.end(frame);
+    };
+
+    /**
+     * Reads every frame received in full.
+     */
+    const readFrames = (): void => {
+        const decoded = decodeFrame(received.bytes);
+        if (!decoded) return;
+        if ("error" in decoded) {
+            close(closeFrame(CloseCode.PROTOCOL_ERROR, decoded.error));
+            return;
+        }
+        received.bytes = decoded.rest;
+        const { opcode, fin, payload } = decoded.frame;
+        if (opcode === Opcode.CLOSE) {
+            close(encodeFrame(Opcode.CLOSE, Buffer.alloc(0)));
+            return;
+        }
+        if (opcode === Opcode.PING)
+            socket.write(encodeFrame(Opcode.PONG, payload));
+        if (opcode === Opcode.TEXT || opcode === Opcode.CONTINUATION) {
+            received.fragments.push(payload); // a message may come in pieces
+            if (Buffer.concat(received.fragments).length > MAX_MESSAGE_BYTES) {
+                socket.destroy();
+                return;
+            }
+            if (fin) {
+                heard(id, Buffer.concat(received.fragments).toString("utf8"));
+                received.fragments = [];
+            }
+        }
+        readFrames();
+    };
+
+    /**
+     * Takes bytes from the client, reading the frames they complete.
+     *
+     * @param chunk bytes received
+     */
+    const take = (chunk: Buffer): void => {
+        if (received.closed) return;
+        received.bytes = Buffer.concat([received.bytes, chunk]);
+        if (received.bytes.length > MAX_MESSAGE_BYTES) socket.destroy();
+        else readFrames();
+    };
+
+    socket.on("data", take);
+    socket.on("error", () => socket.destroy());
+    socket.on("close", () => {
+        server.sockets.delete(id);
+        apply(leave(server.lobby, id));
+    });
+    take(head); // frames sent along with the handshake
+};
+
+const http = createServer((_, response) => {
+    response.writeHead(426, { "Content-Type": "text/plain" });
+    response.end("Connect with a WebSocket to race\n");
+});
+http.on("upgrade", connect);
+http.listen(port, values.host, () =>
+    console.log(`Relaying races on ws://${values.host}:${port}`),
+);
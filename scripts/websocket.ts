@@ -0,0 +1,107 @@
+/**
+ * WebSocket framing for the race server (RFC 6455), just enough of it for
+ * text messages between the game and the relay: frames from the server are
+ * never masked, and frames from a client must be.
+ */
+
+import { Buffer } from "node:buffer";
+
+/** WebSocket frame opcodes */
+export const Opcode = {
+    CONTINUATION: 0x0,
+    TEXT: 0x1,
+    CLOSE: 0x8,
+    PING: 0x9,
+    PONG: 0xa,
+} as const;
+
+/** Status codes sent when closing a connection */
+export const CloseCode = {
+    PROTOCOL_ERROR: 1002,
+} as const;
+
+/** A frame read from a client */
+export type Frame = Readonly<{ opcode: number; fin: boolean; payload: Buffer }>;
+
+/** What reading the bytes received from a client gave */
+export type Decoded =
+    | Readonly<{ frame: Frame; rest: Buffer }>
+    | Readonly<{ error: string }>;
+
+/**
+ * Encodes a frame from the server, which is never masked.
+ *
+ * @param opcode kind of frame
+ * @param payload its contents
+ * @returns the bytes to send
+ */
+export const encodeFrame = (opcode: number, payload: Buffer): Buffer => {
+    const length = payload.length;
+    const header =
+        length < 126
+            ? Buffer.from([0x80 | opcode, length])
+            : length < 0x10000
+              ? Buffer.from([0x80 | opcode, 126, length >> 8, length & 0xff])
+              : Buffer.concat([
+                    Buffer.from([0x80 | opcode, 127]),
+                    (() => {
+                        const size = Buffer.alloc(8);
+                        size.writeBigUInt64BE(BigInt(length));
+                        return size;
+                    })(),
+                ]);
+    return Buffer.concat([header, payload]);
+};
+
+/**
+ * Encodes the frame that closes a connection.
+ *
+ * @param code why it is closed, one of `CloseCode`
+ * @param reason what went wrong, for people
+ * @returns the bytes to send
+ */
+export const closeFrame = (code: number, reason: string): Buffer => {
+    const status = Buffer.alloc(2);
+    status.writeUInt16BE(code);
+    return encodeFrame(
+        Opcode.CLOSE,
+        Buffer.concat([status, Buffer.from(reason)]),
+    );
+};
+
+/**
+ * Reads the first frame of the bytes received from a client. A frame that
+ * is not masked is an error, after which the connection is to be closed.
+ *
+ * @param bytes bytes received and not read yet
+ * @returns the frame and the bytes after it, or the error, undefined until
+ * it is all in
+ */
+export const decodeFrame = (bytes: Buffer): Decoded | undefined => {
+    if (bytes.length < 2) return undefined;
+    if ((bytes[1] & 0x80) === 0) return { error: "client frame is not masked" };
+    const short = bytes[1] & 0x7f;
+    const lengthBytes = short === 126 ? 2 : short === 127 ? 8 : 0;
+    const maskAt = 2 + lengthBytes;
+    if (bytes.length < maskAt + 4) return undefined;
+    const length =
+        short === 126
+            ? bytes.readUInt16BE(2)
+            : short === 127
+              ? Number(bytes.readBigUInt64BE(2))
+              : short;
+    const start = maskAt + 4;
+    if (bytes.length < start + length) return undefined;
+    const mask = bytes.subarray(maskAt, start);
+    const payload = Buffer.from(
+        bytes.subarray(start, start + length).map((b, i) => b ^ mask[i % 4]),
+    );
+    return {
+        frame: {
+            opcode: bytes[0] & 0x0f,
+            fin: (bytes[0] & 0x80) !== 0,
+            payload,
+        },
+        rest: bytes.subarray(start + length),
+    };
+};
@@ -0,0 +1,102 @@
+/**
+ * Bots: players that flap by looking at the game instead of pressing keys.
+ *
+ * A bot is a `Controller`, a function from an `Observation` of the game to
+ * whether to flap before the next tick. It sees what a player sees on screen
+ * and nothing of the simulation's insides, so any bot can be dropped in for
+ * the keyboard in the browser or played headless from Node.
+ */
+
+import { BIRB_X, NoInput, isGameEnd, step } from "./state";
+import {
+    Birb,
+    Constants,
+    type Controller,
+    type Observation,
+    type State,
+} from "./types";
+
+/** Number of pipes a bot sees ahead */
+export const PIPES_AHEAD = 3;
+
+/**
+ * What a bot sees of a state.
+ *
+ * @param s current state
+ * @param ahead most pipes to show
+ * @returns the observation
+ */
+export const observe = (
+    s: State,
+    ahead: number = PIPES_AHEAD,
+): Observation => ({
+    birbX: BIRB_X,
+    birbY: s.birbPosition,
+    birbVelocity: s.birbVelocity,
+    time: s.elapsedTime,
+    pipes: (s.pipeRead ?? s.course)
+        .filter(p => p.xpos + p.width >= BIRB_X) // the birb is not past it yet
+        .slice(0, ahead)
+        .map(({ xpos, width, gapTop, gapBottom }) => ({
+            xpos,
+            width,
+            gapTop,
+            gapBottom,
+        })),
+});
+
+/** Tuning of the autopilot, in px */
+const Autopilot = {
+    MARGIN: 8, // room kept below the birb at the bottom of a gap
+    CRUISE_Y: 200, // height to hold with no pipe in sight
+} as const;
+
+/**
+ * The built-in bot. It keeps the birb falling towards the bottom of the
+ * next gap and flaps just before it would drop below it, which leaves the
+ * most room above for the climb of the flap.
+ *
+ * @param o what the bot sees
+ * @returns true to flap
+ */
+export const autopilot: Controller = o => {
+    const [next] = o.pipes;
+    const lowest = next
+        ? next.gapBottom - Birb.HEIGHT - Autopilot.MARGIN
+        : Autopilot.CRUISE_Y;
+    const nextY = o.birbY + o.birbVelocity + Birb.GRAVITY; // where the birb will be after the tick
+    return nextY > lowest;
+};
+
+/** Longest run a bot plays headless unless told otherwise, in ms */
+export const MAX_BOT_MS = 600000;
+
+/**
+ * Plays a run headless, the bot deciding every tick.
+ *
+ * @param s state to start from
+ * @param bot the player
+ * @param maxMs time at which to stop, for runs that are never won
+ * @returns the state when the run ended or ran out of time
+ */
+export const playBot = (
+    s: State,
+    bot: Controller,
+    maxMs: number = MAX_BOT_MS,
+): State =>
+    Array.from({
+        length: Math.max(
+            Math.ceil((maxMs - s.elapsedTime) / Constants.TICK_RATE_MS),
+            0,
+        ),
+    }).reduce<State>(
+        state =>
+            isGameEnd(state)
+                ? state
+                : step(
+                      state,
+                      { ...NoInput, flap: bot(observe(state)) },
+                      Constants.TICK_RATE_MS,
+                  ),
+        s,
+    );
@@ -0,0 +1,238 @@
+/**
+ * Collision geometry: axis-aligned boxes and swept tests between them.
+ *
+ * The birb's hitbox and the two halves of every pipe are boxes. In a step the
+ * birb moves up or down while each pipe moves left at its own speed, so each
+ * pipe is tested in its own frame, where it stands still and the birb moves
+ * along a straight line. Whatever is touched first along that line is hit,
+ * however far anything moves in the step, so the birb never tunnels through
+ * a pipe. Boxes that only touch do not collide. Pickups in the gaps are
+ * boxes too, moving along with their pipe.
+ */
+
+import { Birb, Viewport, type Box, type Pipe } from "./types";
+
+/** The whole sprite of the birb collides */
+export const SPRITE_HITBOX: Box = {
+    x: 0,
+    y: 0,
+    width: Birb.WIDTH,
+    height: Birb.HEIGHT,
+};
+
+/** Only the body of the birb collides, not the tips of its beak and wings */
+export const TIGHT_HITBOX: Box = {
+    x: 4,
+    y: 3,
+    width: Birb.WIDTH - 8,
+    height: Birb.HEIGHT - 6,
+};
+
+/** Side of a box that was run into */
+export type Face = "left" | "right" | "top" | "bottom";
+
+/** Where a moving box first touches another */
+export type SweepHit = Readonly<{
+    /** fraction of the move done at contact, 0 if overlapping at the start */
+    time: number;
+    face: Face;
+}>;
+
+/** First contact of the birb with a pipe in a step */
+export type PipeContact = SweepHit &
+    Readonly<{
+        pipe: Pipe;
+        /** half of the pipe, above or below the gap */
+        half: "top" | "bottom";
+    }>;
+
+/**
+ * Moves a box.
+ *
+ * @param b the box
+ * @param dx distance to the right
+ * @param dy distance down
+ * @returns the moved box
+ */
+export const offset = (b: Box, dx: number, dy: number): Box => ({
+    ...b,
+    x: b.x + dx,
+    y: b.y + dy,
+});
+
+/**
+ * Do two boxes overlap? Boxes that only touch do not.
+ *
+ * @param a a box
+ * @param b another box
+ * @returns true if they share some area
+ */
+export const overlaps = (a: Box, b: Box): boolean =>
+    a.x < b.x + b.width &&
+    b.x < a.x + a.width &&
+    a.y < b.y + b.height &&
+    b.y < a.y + a.height;
+
+/**
+ * When a moving interval starts and stops overlapping a still one.
+ *
+ * @param aMin start of the moving interval
+ * @param aSize length of the moving interval
+ * @param bMin start of the still interval
+ * @param bSize length of the still interval
+ * @param d distance moved
+ * @returns entry and exit as fractions of the move, infinite when not moving
+ */
+const axisTimes = (
+    aMin: number,
+    aSize: number,
+    bMin: number,
+    bSize: number,
+    d: number,
+): Readonly<{ entry: number; exit: number }> => {
+    if (d === 0)
+        return aMin < bMin + bSize && bMin < aMin + aSize
+            ? { entry: -Infinity, exit: Infinity } // always overlapping
+            : { entry: Infinity, exit: -Infinity }; // never
+    const near = d > 0 ? bMin - (aMin + aSize) : bMin + bSize - aMin;
+    const far = d > 0 ? bMin + bSize - aMin : bMin - (aMin + aSize);
+    return { entry: near / d, exit: far / d };
+};
+
+/**
+ * Sweeps a box along a straight line against a still box.
+ *
+ * The boxes collide once they overlap on both axes; the axis on which they
+ * overlapped last tells which face was run into, the vertical one for an
+ * exact corner. Boxes that already overlap collide at time 0, on the face
+ * they would have come through last, going back along the line.
+ *
+ * @param a the moving box, at the start of the move
+ * @param dx distance a moves to the right
+ * @param dy distance a moves down
+ * @param b the still box
+ * @returns the first contact, undefined if the boxes do not collide
+ */
+export const sweep = (
+    a: Box,
+    dx: number,
+    dy: number,
+    b: Box,
+): SweepHit | undefined => {
+    const x = axisTimes(a.x, a.width, b.x, b.width, dx);
+    const y = axisTimes(a.y, a.height, b.y, b.height, dy);
+    const entry = Math.max(x.entry, y.entry);
+    const exit = Math.min(x.exit, y.exit);
+    if (entry >= exit || entry >= 1 || exit <= 0) return undefined;
+    const face: Face =
+        x.entry > y.entry
+            ? dx > 0
+                ? "left"
+                : "right"
+            : dy > 0 || (dy === 0 && a.y + a.height / 2 < b.y + b.height / 2)
+              ? "top"
+              : "bottom";
+    return { time: Math.max(entry, 0), face };
+};
+
+/**
+ * The boxes of a pipe above and below its gap.
+ *
+ * @param p the pipe
+ * @param x left edge of the pipe
+ * @returns box of each half, empty if the gap reaches the canvas edge
+ */
+export const pipeBoxes = (
+    p: Pick<Pipe, "width" | "gapTop" | "gapBottom">,
+    x: number,
+): Readonly<{ top: Box; bottom: Box }> => ({
+    top: { x, y: 0, width: p.width, height: p.gapTop },
+    bottom: {
+        x,
+        y: p.gapBottom,
+        width: p.width,
+        height: Viewport.CANVAS_HEIGHT - p.gapBottom,
+    },
+});
+
+/**
+ * The box of the pickup in a pipe's gap, in the middle of it.
+ *
+ * @param p the pipe
+ * @param x left edge of the pipe
+ * @param size width and height of the pickup
+ * @returns box of the pickup
+ */
+export const pickupBox = (
+    p: Pick<Pipe, "width" | "gapTop" | "gapBottom">,
+    x: number,
+    size: number,
+): Box => ({
+    x: x + (p.width - size) / 2,
+    y: (p.gapTop + p.gapBottom - size) / 2,
+    width: size,
+    height: size,
+});
+
+/**
+ * Is a box level with a pipe, whatever its height?
+ *
+ * @param b the box
+ * @param p the pipe
+ * @returns true if they overlap horizontally
+ */
+export const besidePipe = (b: Box, p: Pick<Pipe, "xpos" | "width">): boolean =>
+    b.x < p.xpos + p.width && p.xpos < b.x + b.width;
+
+/**
+ * Finds the first pipe the birb touches in a step, testing every pipe.
+ *
+ * @param birb the birb's hitbox at the start of the step
+ * @param dy distance the birb moves down in the step
+ * @param pipes pipes at the end of the step, moved from `prevXpos` to `xpos`
+ * @returns the earliest contact, the first pipe listed on a tie, undefined if none
+ */
+export const firstPipeContact = (
+    birb: Box,
+    dy: number,
+    pipes: readonly Pipe[],
+): PipeContact | undefined =>
+    pipes
+        .flatMap(pipe => {
+            const boxes = pipeBoxes(pipe, pipe.prevXpos);
+            const dx = pipe.prevXpos - pipe.xpos; // the birb moves right of a pipe moving left
+            return (["top", "bottom"] as const).flatMap(half => {
+                const hit = sweep(birb, dx, dy, boxes[half]);
+                return hit ? [{ ...hit, pipe, half }] : [];
+            });
+        })
+        .reduce<PipeContact | undefined>(
+            (first, c) => (first && first.time <= c.time ? first : c),
+            undefined,
+        );
+
+/**
+ * Finds the pipes whose pickup the birb touches in a step.
+ *
+ * @param birb the birb's hitbox at the start of the step
+ * @param dy distance the birb moves down in the step
+ * @param pipes pipes at the end of the step, moved from `prevXpos` to `xpos`
+ * @param size width and height of a pickup
+ * @returns the pipes, in the order given
+ */
+export const touchedPickups = (
+    birb: Box,
+    dy: number,
+    pipes: readonly Pipe[],
+    size: number,
+): Pipe[] =>
+    pipes.filter(
+        pipe =>
+            pipe.pickup !== undefined &&
+            sweep(
+                birb,
+                pipe.prevXpos - pipe.xpos,
+                dy,
+                pickupBox(pipe, pipe.prevXpos, size),
+            ) !== undefined,
+    );
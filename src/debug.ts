@@ -0,0 +1,95 @@
+/**
+ * What the debug overlay shows, worked out from the state.
+ *
+ * The overlay itself is drawn by `render`; this module only turns a state
+ * into the lines of its HUD and the points of the ghosts' paths, so they can
+ * be checked without a page.
+ */
+
+import { BIRB_X } from "./state";
+import { Birb, Constants, Viewport, type Ghost, type State } from "./types";
+
+/** Frames the frame rate is averaged over */
+export const FPS_WINDOW = 30;
+
+/** A point on the canvas */
+export type Point = Readonly<{ x: number; y: number }>;
+
+/**
+ * Frames drawn per second, over the given frames.
+ *
+ * @param times timestamps of the latest frames in ms, oldest first
+ * @returns frame rate, 0 until there are two frames
+ */
+export const frameRate = (times: readonly number[]): number =>
+    times.length < 2
+        ? 0
+        : ((times.length - 1) * 1000) /
+          Math.max(times[times.length - 1] - times[0], 1);
+
+/**
+ * Shows a number to two decimals at most.
+ *
+ * @param n the number
+ * @returns text of the number
+ */
+const formatNumber = (n: number): string =>
+    Number.isInteger(n) ? String(n) : n.toFixed(2);
+
+/**
+ * Shows the value of a state field, if it is short enough to.
+ *
+ * @param v value of the field
+ * @returns text of the value, the length of a list of objects, undefined for other objects
+ */
+const describeField = (v: unknown): string | undefined =>
+    typeof v === "number"
+        ? formatNumber(v)
+        : typeof v === "boolean" || typeof v === "string"
+          ? String(v)
+          : Array.isArray(v)
+            ? v.every(x => x === undefined || typeof x === "number")
+                ? `[${v.map(x => (x === undefined ? "-" : formatNumber(x))).join(", ")}]`
+                : `${v.length} items`
+            : undefined;
+
+/**
+ * Lines of the debug HUD: the frame rate, then every field of the state
+ * short enough to show, then the pipes being passed.
+ *
+ * @param s current state
+ * @param fps frames drawn per second
+ * @returns lines of text, in order
+ */
+export const debugLines = (s: State, fps: number): readonly string[] => [
+    `fps: ${Math.round(fps)}`,
+    ...Object.entries(s).flatMap(([key, v]) => {
+        const text = describeField(v);
+        return text === undefined ? [] : [`${key}: ${text}`];
+    }),
+    `passing: [${(s.pipeRendering ?? [])
+        .filter(p => p.birdPassing)
+        .map(p => p.time)
+        .join(", ")}]`,
+];
+
+/**
+ * Where a ghost has flown and will fly, as seen on the canvas now. Every birb
+ * stays at the same x and the world moves left at the pipes' speed, so a
+ * point `dt` ms away in time is `dt` times that speed away on the canvas.
+ *
+ * @param g the ghost
+ * @param now time of the run in ms
+ * @returns centres of the ghost's sprite along its path, on the canvas only
+ */
+export const ghostTrail = (g: Ghost, now: number): readonly Point[] => {
+    const speed =
+        (Viewport.CANVAS_WIDTH + Constants.PIPE_WIDTH) /
+        Constants.PIPE_TRAVEL_MS; // px per ms
+    return g.path
+        .map(p => ({
+            x: BIRB_X + Birb.WIDTH / 2 + (p.t - now) * speed,
+            y: p.y + Birb.HEIGHT / 2,
+        }))
+        .filter(p => p.x >= 0 && p.x <= Viewport.CANVAS_WIDTH);
+};
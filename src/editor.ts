@@ -0,0 +1,363 @@
+/**
+ * Editing a map's pipes in the browser.
+ *
+ * The editor shows the course as a timeline over the canvas: time runs to
+ * the right, `MS_PER_PX` ms to a pixel, and each pipe is drawn at the time
+ * it enters the screen with its gap where it is on the canvas. Pipes are
+ * added, moved, resized and deleted by `edit`, a reducer of the editor's
+ * actions, so the editor can be checked without any DOM. Edits snap to
+ * 10 ms and to gaps of whole hundredths of the canvas, which keeps the CSV
+ * tidy and every gap exactly on the canvas; they keep the birb able to fit
+ * through every gap, and `editorProblems` says what else stops the course
+ * from being played or passed.
+ */
+
+import { loadMap, serialiseCsvMap } from "./map";
+import { courseProblems } from "./solvable";
+import { createPipe } from "./state";
+import { Birb, Constants, Viewport, type Pipe } from "./types";
+
+/** A pipe as the editor keeps it: its gap, when it enters the screen and its pickup */
+export type EditorPipe = Pick<Pipe, "gapY" | "gapHeight" | "time" | "pickup">;
+
+/** What a press on the timeline took hold of */
+export type Grab = Readonly<{
+    /** moving a whole pipe, or one edge of its gap */
+    kind: "move" | "top" | "bottom";
+    /** index of the pipe */
+    index: number;
+    /** ms from the pipe's time to the pointer */
+    dt: number;
+    /** fraction of the canvas height from the gap's centre to the pointer */
+    dy: number;
+}>;
+
+/** The course being edited, and what the pointer is doing to it */
+export type Editor = Readonly<{
+    /** in time order */
+    pipes: readonly EditorPipe[];
+    /** index of the pipe selected, if any */
+    selected?: number;
+    grab?: Grab;
+    /** time in ms at the left edge of the canvas */
+    scroll: number;
+}>;
+
+/** Something the player does in the editor, at a point on the canvas */
+export type EditorAction =
+    | Readonly<{ type: "open"; pipes: readonly EditorPipe[] }>
+    | Readonly<{ type: "press" | "drag" | "add"; x: number; y: number }>
+    | Readonly<{ type: "release" | "delete" }>
+    | Readonly<{ type: "scroll"; ms: number }>;
+
+/** Something wrong with the course being edited */
+export type EditorProblem = Readonly<{
+    /** 0-based index of the pipe, undefined for the whole course */
+    index?: number;
+    message: string;
+    /** true if the map cannot be played at all, false if a pipe cannot be passed */
+    blocking: boolean;
+}>;
+
+/** ms of the course to a pixel of the timeline */
+export const MS_PER_PX = 10;
+
+/** ms that pipe times snap to */
+export const TIME_STEP = 10;
+
+/** Fraction of the canvas height that gap centres snap to */
+export const GAP_Y_STEP = 0.005;
+
+/** Fraction of the canvas height that gap heights snap to, twice `GAP_Y_STEP` so both gap edges stay on the grid */
+export const GAP_HEIGHT_STEP = 0.01;
+
+/** Smallest gap the editor makes, the first step that lets the birb through */
+export const MIN_GAP_HEIGHT =
+    (Math.floor(Birb.HEIGHT / Viewport.CANVAS_HEIGHT / GAP_HEIGHT_STEP) + 1) *
+    GAP_HEIGHT_STEP;
+
+/** Height of the gap of a new pipe */
+export const NEW_GAP_HEIGHT = 0.25;
+
+/** px above and below a gap's edge that take hold of the edge */
+const EDGE_PX = 6;
+
+/** Width of a pipe on the timeline: the time it takes to go by a point */
+export const PIPE_SPAN_PX =
+    (Constants.PIPE_WIDTH * Constants.PIPE_TRAVEL_MS) /
+    (Viewport.CANVAS_WIDTH + Constants.PIPE_WIDTH) /
+    MS_PER_PX;
+
+/** An editor with nothing in it */
+export const EMPTY_EDITOR: Editor = { pipes: [], scroll: 0 };
+
+/**
+ * Rounds a number to the nearest step, without the float noise of the
+ * division, e.g. 0.35 and not 0.35000000000000003.
+ *
+ * @param x number to round
+ * @param step size of a step
+ * @returns the nearest multiple of the step
+ */
+const snapTo = (x: number, step: number): number =>
+    Number((Math.round(x / step) * step).toFixed(3));
+
+/**
+ * Keeps a number within bounds.
+ *
+ * @param x number
+ * @param lo smallest value
+ * @param hi largest value
+ * @returns x, or the bound it is past
+ */
+const clamp = (x: number, lo: number, hi: number): number =>
+    Math.min(Math.max(x, lo), hi);
+
+/**
+ * A gap height on the editor's grid, big enough for the birb.
+ *
+ * @param gapHeight height of the gap, as a fraction of the canvas height
+ * @returns the height snapped and kept within bounds
+ */
+const fitHeight = (gapHeight: number): number =>
+    snapTo(clamp(gapHeight, MIN_GAP_HEIGHT, 1), GAP_HEIGHT_STEP);
+
+/**
+ * A pipe's gap on the editor's grid, as big as the birb needs and inside
+ * the canvas.
+ *
+ * @param gapY centre of the gap, as a fraction of the canvas height
+ * @param gapHeight height of the gap, as a fraction of the canvas height
+ * @returns the gap snapped and moved to fit
+ */
+const fitGap = (
+    gapY: number,
+    gapHeight: number,
+): Pick<EditorPipe, "gapY" | "gapHeight"> => {
+    const h = fitHeight(gapHeight);
+    return {
+        gapY: snapTo(clamp(gapY, h / 2, 1 - h / 2), GAP_Y_STEP), // both edges are on the grid, so this fits exactly
+        gapHeight: h,
+    };
+};
+
+/**
+ * x of a time on the timeline.
+ *
+ * @param e the editor, for its scroll
+ * @param time time in ms
+ * @returns x on the canvas
+ */
+export const timelineX = (e: Editor, time: number): number =>
+    (time - e.scroll) / MS_PER_PX;
+
+/**
+ * Time at an x on the timeline.
+ *
+ * @param e the editor, for its scroll
+ * @param x x on the canvas
+ * @returns time in ms
+ */
+export const timeAt = (e: Editor, x: number): number =>
+    e.scroll + x * MS_PER_PX;
+
+/**
+ * Top and bottom edge of a pipe's gap on the canvas.
+ *
+ * @param p the pipe
+ * @returns gap edges in px
+ */
+export const gapEdges = (
+    p: EditorPipe,
+): Readonly<{ gapTop: number; gapBottom: number }> => ({
+    gapTop: (p.gapY - p.gapHeight / 2) * Viewport.CANVAS_HEIGHT,
+    gapBottom: (p.gapY + p.gapHeight / 2) * Viewport.CANVAS_HEIGHT,
+});
+
+/**
+ * Starts editing a course.
+ *
+ * @param pipes pipes of the course, e.g. those of a loaded map
+ * @returns the editor at the start of the course, nothing selected
+ */
+export const startEditor = (pipes: readonly EditorPipe[]): Editor => ({
+    pipes: [...pipes]
+        .map(({ gapY, gapHeight, time, pickup }) => ({
+            gapY,
+            gapHeight,
+            time,
+            ...(pickup ? { pickup } : {}),
+        }))
+        .sort((a, b) => a.time - b.time),
+    scroll: 0,
+});
+
+/**
+ * What a press at a point takes hold of: the edge of a gap near it, or else
+ * the pipe under it. Later pipes are drawn over earlier ones, so they are
+ * taken first.
+ *
+ * @param e the editor
+ * @param x x on the canvas
+ * @param y y on the canvas
+ * @returns the grab, undefined if the point is clear of every pipe
+ */
+export const grabAt = (e: Editor, x: number, y: number): Grab | undefined => {
+    const index = e.pipes.findLastIndex(p => {
+        const left = timelineX(e, p.time);
+        return x >= left && x <= left + PIPE_SPAN_PX;
+    });
+    if (index < 0) return undefined;
+    const p = e.pipes[index];
+    const { gapTop, gapBottom } = gapEdges(p);
+    return {
+        kind:
+            Math.abs(y - gapTop) <= EDGE_PX
+                ? "top"
+                : Math.abs(y - gapBottom) <= EDGE_PX
+                  ? "bottom"
+                  : "move",
+        index,
+        dt: timeAt(e, x) - p.time,
+        dy: y / Viewport.CANVAS_HEIGHT - p.gapY,
+    };
+};
+
+/**
+ * Puts a pipe into the course in time order, selecting it and following it
+ * with the grab.
+ *
+ * @param e the editor
+ * @param p the pipe
+ * @returns the editor with the pipe in it
+ */
+const placePipe = (e: Editor, p: EditorPipe): Editor => {
+    const at = e.pipes.filter(o => o.time <= p.time).length;
+    return {
+        ...e,
+        pipes: [...e.pipes.slice(0, at), p, ...e.pipes.slice(at)],
+        selected: at,
+        grab: e.grab && { ...e.grab, index: at },
+    };
+};
+
+/**
+ * Moves the grabbed pipe, or the grabbed edge of its gap, to the pointer.
+ * The other edge stays where it is while an edge is moved.
+ *
+ * @param e the editor
+ * @param g what is held
+ * @param x x on the canvas
+ * @param y y on the canvas
+ * @returns the editor with the pipe changed
+ */
+const dragTo = (e: Editor, g: Grab, x: number, y: number): Editor => {
+    const p = e.pipes[g.index];
+    const fy = y / Viewport.CANVAS_HEIGHT;
+    const top = snapTo(p.gapY - p.gapHeight / 2, GAP_Y_STEP);
+    const bottom = snapTo(p.gapY + p.gapHeight / 2, GAP_Y_STEP);
+    const fromTop = fitHeight(bottom - fy); // the gap with its top at the pointer
+    const fromBottom = fitHeight(fy - top);
+    const gap =
+        g.kind === "move"
+            ? fitGap(fy - g.dy, p.gapHeight)
+            : g.kind === "top"
+              ? fitGap(bottom - fromTop / 2, fromTop)
+              : fitGap(top + fromBottom / 2, fromBottom);
+    const time =
+        g.kind === "move"
+            ? Math.max(snapTo(timeAt(e, x) - g.dt, TIME_STEP), 0)
+            : p.time;
+    return placePipe(
+        { ...e, pipes: e.pipes.filter((_, i) => i !== g.index) },
+        { ...p, ...gap, time },
+    );
+};
+
+/**
+ * Adds a pipe with its gap centred on a point, unless there is a pipe there.
+ *
+ * @param e the editor
+ * @param x x on the canvas
+ * @param y y on the canvas
+ * @returns the editor with the new pipe selected
+ */
+const addPipe = (e: Editor, x: number, y: number): Editor =>
+    grabAt(e, x, y)
+        ? e
+        : placePipe(e, {
+              ...fitGap(y / Viewport.CANVAS_HEIGHT, NEW_GAP_HEIGHT),
+              time: Math.max(snapTo(timeAt(e, x), TIME_STEP), 0),
+          });
+
+/**
+ * Applies an action to the editor.
+ *
+ * @param e the editor
+ * @param a what the player did
+ * @returns the editor after it
+ */
+export const edit = (e: Editor, a: EditorAction): Editor => {
+    switch (a.type) {
+        case "open":
+            return startEditor(a.pipes);
+        case "press": {
+            const grab = grabAt(e, a.x, a.y);
+            return { ...e, selected: grab?.index, grab };
+        }
+        case "drag":
+            return e.grab ? dragTo(e, e.grab, a.x, a.y) : e;
+        case "release":
+            return e.grab ? { ...e, grab: undefined } : e;
+        case "add":
+            return addPipe(e, a.x, a.y);
+        case "delete":
+            return e.selected === undefined
+                ? e
+                : {
+                      ...e,
+                      pipes: e.pipes.filter((_, i) => i !== e.selected),
+                      selected: undefined,
+                      grab: undefined,
+                  };
+        case "scroll":
+            return { ...e, scroll: Math.max(a.ms, 0) };
+    }
+};
+
+/**
+ * Where a playtest of the course starts: at the selected pipe, as it enters
+ * the screen, or else at the left edge of the timeline.
+ *
+ * @param e the editor
+ * @returns time of the course in ms
+ */
+export const playtestFrom = (e: Editor): number =>
+    e.selected === undefined ? e.scroll : e.pipes[e.selected].time;
+
+/**
+ * Everything wrong with a course: what stops it from being loaded as a map,
+ * such as two pipes at the same time, and pipes the birb cannot pass.
+ *
+ * @param pipes pipes of the course, in time order
+ * @returns problems, in pipe order with those of the whole course first
+ */
+export const editorProblems = (
+    pipes: readonly EditorPipe[],
+): readonly EditorProblem[] => {
+    const mapErrors = loadMap(serialiseCsvMap(pipes)).errors.map(
+        ({ line, message }): EditorProblem => ({
+            index: line > 1 ? line - 2 : undefined, // pipes are written one a line after the header
+            message,
+            blocking: true,
+        }),
+    );
+    const unpassable = courseProblems(
+        pipes.map(p =>
+            createPipe(p.gapY, p.gapHeight, p.time, { pickup: p.pickup }),
+        ),
+    ).map(({ index, message }) => ({ index, message, blocking: false }));
+    return [...mapErrors, ...unpassable].sort(
+        (a, b) => (a.index ?? -1) - (b.index ?? -1),
+    );
+};
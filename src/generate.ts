@@ -0,0 +1,222 @@
+/**
+ * Procedural pipe generation.
+ *
+ * The limits on gaps and spacing are shared by the map generator script and
+ * endless mode, and every random choice comes from the seed through `RNG`, so
+ * a seed always produces the same course. In endless mode the course gets
+ * harder over time: gaps narrow, pipes come closer together and travel faster,
+ * and some pipes carry a pickup.
+ */
+
+import { randomPickup } from "./pickups";
+import { Constants, type EndlessCourse, type PickupKind } from "./types";
+import { RNG, lerp } from "./util";
+
+/** Limits of generated pipes, all relative to the canvas width/height */
+export const GeneratorDefaults = {
+    START_POS: 2, // s before the first pipe
+    POS_INTERVAL: 2, // s between pipes
+    MIN_GAP_Y: 0.2,
+    MAX_GAP_Y: 0.8,
+    // birb height = 0.075
+    MIN_GAP_HEIGHT: 0.2,
+    MAX_GAP_HEIGHT: 0.3,
+} as const;
+
+/** What a generated map may be asked for, times in seconds */
+export type GeneratorOptions = Readonly<{
+    count: number;
+    startPos: number;
+    posInterval: number;
+    minGapY: number;
+    maxGapY: number;
+    minGapHeight: number;
+    maxGapHeight: number;
+    travelTime: number;
+}>;
+
+/** Difficulty profiles of generated maps */
+export type PresetName = "easy" | "normal" | "hard";
+
+/** Options of each difficulty profile */
+export const Presets: Readonly<Record<PresetName, GeneratorOptions>> = {
+    easy: {
+        count: 20,
+        startPos: GeneratorDefaults.START_POS,
+        posInterval: 2.5,
+        minGapY: 0.3,
+        maxGapY: 0.7,
+        minGapHeight: 0.25,
+        maxGapHeight: 0.35,
+        travelTime: Constants.PIPE_TRAVEL_MS / 1000,
+    },
+    normal: {
+        count: 20,
+        startPos: GeneratorDefaults.START_POS,
+        posInterval: GeneratorDefaults.POS_INTERVAL,
+        minGapY: GeneratorDefaults.MIN_GAP_Y,
+        maxGapY: GeneratorDefaults.MAX_GAP_Y,
+        minGapHeight: GeneratorDefaults.MIN_GAP_HEIGHT,
+        maxGapHeight: GeneratorDefaults.MAX_GAP_HEIGHT,
+        travelTime: Constants.PIPE_TRAVEL_MS / 1000,
+    },
+    hard: {
+        count: 30,
+        startPos: GeneratorDefaults.START_POS,
+        posInterval: 1.5,
+        minGapY: 0.15,
+        maxGapY: 0.85,
+        minGapHeight: 0.17,
+        maxGapHeight: 0.22,
+        travelTime: Constants.PIPE_TRAVEL_MS / 1000,
+    },
+};
+
+/** How the endless course ramps up to its hardest */
+export const Ramp = {
+    DURATION_MS: 120000, // time until the course is at its hardest
+    MIN_GAP_HEIGHT: 0.15,
+    MAX_GAP_HEIGHT: 0.2,
+    POS_INTERVAL: 1.2,
+    TRAVEL_MS: 2000,
+    MAX_SHIFT: 0.35, // furthest a gap centre moves from the previous one
+} as const;
+
+/** A generated pipe, before it becomes part of the state */
+export type PipeSpec = Readonly<{
+    gapY: number;
+    gapHeight: number;
+    /** time in ms at which the pipe enters the screen */
+    time: number;
+    travelMs: number;
+    pickup?: PickupKind;
+}>;
+
+/**
+ * Start of the endless course for a seed.
+ *
+ * @param seed course seed, the same seed always gives the same course
+ * @returns generator state before the first pipe
+ */
+export const startCourse = (seed: number): EndlessCourse => ({
+    seed,
+    rng: RNG.hash(seed),
+    time: GeneratorDefaults.START_POS * 1000,
+    gapY: 0.5,
+});
+
+/**
+ * How far the course has ramped up at the given time.
+ *
+ * @param time time in ms since the start of the run
+ * @returns 0 at the start, up to 1 at the hardest
+ */
+export const difficultyAt = (time: number): number =>
+    Math.min(Math.max(time / Ramp.DURATION_MS, 0), 1);
+
+/**
+ * Picks a number in a range from a random hash.
+ *
+ * @param hash output of `RNG.hash`
+ * @param min smallest result
+ * @param max largest result
+ * @returns number between min and max
+ */
+const pick = (hash: number, min: number, max: number): number =>
+    lerp(min, max, (RNG.scale(hash) + 1) / 2);
+
+/**
+ * Generates the next pipe of the course.
+ *
+ * @param c where the course has got to
+ * @returns the pipe, and the course after it
+ */
+export const nextPipe = (
+    c: EndlessCourse,
+): Readonly<{ pipe: PipeSpec; course: EndlessCourse }> => {
+    const d = difficultyAt(c.time);
+    const yHash = RNG.hash(c.rng);
+    const heightHash = RNG.hash(yHash);
+
+    const gapHeight = pick(
+        heightHash,
+        lerp(GeneratorDefaults.MIN_GAP_HEIGHT, Ramp.MIN_GAP_HEIGHT, d),
+        lerp(GeneratorDefaults.MAX_GAP_HEIGHT, Ramp.MAX_GAP_HEIGHT, d),
+    );
+    // keep the gap reachable from the previous one
+    const gapY = pick(
+        yHash,
+        Math.max(GeneratorDefaults.MIN_GAP_Y, c.gapY - Ramp.MAX_SHIFT),
+        Math.min(GeneratorDefaults.MAX_GAP_Y, c.gapY + Ramp.MAX_SHIFT),
+    );
+    const interval = lerp(GeneratorDefaults.POS_INTERVAL, Ramp.POS_INTERVAL, d);
+
+    return {
+        pipe: {
+            gapY,
+            gapHeight,
+            time: c.time,
+            travelMs: lerp(Constants.PIPE_TRAVEL_MS, Ramp.TRAVEL_MS, d),
+            pickup: randomPickup(RNG.hash(heightHash)), // rolled aside, the course is the same with or without
+        },
+        course: {
+            ...c,
+            rng: heightHash,
+            time: c.time + Math.round(interval * 1000),
+            gapY,
+        },
+    };
+};
+
+/**
+ * Generates every pipe entering the screen up to the given time.
+ *
+ * @param c where the course has got to
+ * @param until time in ms
+ * @param pipes pipes generated so far
+ * @returns the new pipes in time order, and the course after them
+ */
+export const pipesUntil = (
+    c: EndlessCourse,
+    until: number,
+    pipes: readonly PipeSpec[] = [],
+): Readonly<{ pipes: readonly PipeSpec[]; course: EndlessCourse }> => {
+    if (c.time > until) return { pipes, course: c };
+    const { pipe, course } = nextPipe(c);
+    return pipesUntil(course, until, [...pipes, pipe]);
+};
+
+/**
+ * Generates a map from a seed, every pipe at the same speed and spacing.
+ *
+ * @param seed map seed, the same seed and options always give the same map
+ * @param options limits of the map
+ * @returns the pipes in time order
+ */
+export const generateCourse = (
+    seed: number,
+    options: GeneratorOptions,
+): readonly PipeSpec[] =>
+    Array.from({ length: options.count }).reduce<{
+        hash: number;
+        pipes: readonly PipeSpec[];
+    }>(
+        ({ hash, pipes }, _, i) => {
+            const yHash = RNG.hash(hash);
+            const heightHash = RNG.hash(yHash);
+            const pipe: PipeSpec = {
+                gapY: pick(yHash, options.minGapY, options.maxGapY),
+                gapHeight: pick(
+                    heightHash,
+                    options.minGapHeight,
+                    options.maxGapHeight,
+                ),
+                time: Math.round(
+                    (options.startPos + i * options.posInterval) * 1000,
+                ),
+                travelMs: options.travelTime * 1000,
+            };
+            return { hash: heightHash, pipes: [...pipes, pipe] };
+        },
+        { hash: RNG.hash(seed), pipes: [] },
+    ).pipes;
@@ -0,0 +1,374 @@
+/**
+ * Ghost races: keeping previous runs around to race against.
+ *
+ * Every finished run becomes the "last run" ghost of its map, and replaces the
+ * "personal best" ghost when it gets further. Ghosts are saved in local
+ * storage, and can be exported to and imported from JSON files.
+ */
+
+import { startCourse } from "./generate";
+import { BIRB_X, courseTime, endlessPipesUntil, pipeXposAtAge } from "./state";
+import {
+    Constants,
+    Viewport,
+    type EndlessCourse,
+    type Ghost,
+    type PathPoint,
+    type Pipe,
+    type State,
+} from "./types";
+
+/** Version written into every ghost file, bumped when the format changes */
+export const GHOST_FILE_VERSION = 1;
+
+/** Ids of the ghosts kept automatically for every map */
+export const GhostIds = {
+    BEST: "best",
+    LAST: "last",
+} as const;
+
+/** Local storage keys */
+const StorageKeys = {
+    GHOSTS: "flappyBirb.ghosts",
+    SELECTED: "flappyBirb.selectedGhosts",
+} as const;
+
+/** The part of the Web Storage API used to persist ghosts */
+export type GhostStorage = Pick<Storage, "getItem" | "setItem">;
+
+/** How far the player is ahead of a ghost, negative when behind */
+export type GhostGap = Readonly<{ px: number; pipes: number }>;
+
+/**
+ * Time at which a ghost's run ended.
+ *
+ * @param g ghost
+ * @returns time of its last sample in ms
+ */
+const endTime = (g: Ghost): number =>
+    g.path.length ? g.path[g.path.length - 1].t : 0;
+
+/**
+ * Did run a get further than run b?
+ *
+ * @param a candidate run
+ * @param b run to beat
+ * @returns true if a passed more pipes, or as many but survived longer
+ */
+const isBetterRun = (a: Ghost, b: Ghost): boolean =>
+    a.score > b.score || (a.score === b.score && endTime(a) > endTime(b));
+
+/**
+ * Adds or replaces a ghost, identified by its id and map.
+ *
+ * @param ghosts saved ghosts
+ * @param g ghost to keep
+ * @returns saved ghosts including g
+ */
+const upsert = (ghosts: readonly Ghost[], g: Ghost): readonly Ghost[] => [
+    ...ghosts.filter(o => !(o.id === g.id && o.mapHash === g.mapHash)),
+    g,
+];
+
+/**
+ * Keeps a finished run as the last run of its map, and as the personal best
+ * if it beats the previous one.
+ *
+ * @param ghosts saved ghosts
+ * @param run the finished run
+ * @param mayBeBest false for a run that is kept only as the last one, e.g.
+ * one played in slow motion
+ * @returns updated saved ghosts
+ */
+export const recordRun = (
+    ghosts: readonly Ghost[],
+    run: Ghost,
+    mayBeBest: boolean = true,
+): readonly Ghost[] => {
+    const best = ghosts.find(
+        g => g.id === GhostIds.BEST && g.mapHash === run.mapHash,
+    );
+    const withLast = upsert(ghosts, {
+        ...run,
+        id: GhostIds.LAST,
+        label: "Last run",
+    });
+    return mayBeBest && (!best || isBetterRun(run, best))
+        ? upsert(withLast, {
+              ...run,
+              id: GhostIds.BEST,
+              label: "Personal best",
+          })
+        : withLast;
+};
+
+/**
+ * Saved ghosts that were recorded on the given map.
+ *
+ * @param ghosts saved ghosts
+ * @param mapHash hash of the map
+ * @returns ghosts of the map, best and last run first
+ */
+export const ghostsForMap = (
+    ghosts: readonly Ghost[],
+    mapHash: string,
+): readonly Ghost[] => {
+    const rank = (g: Ghost): number =>
+        g.id === GhostIds.BEST ? 0 : g.id === GhostIds.LAST ? 1 : 2;
+    return ghosts
+        .filter(g => g.mapHash === mapHash)
+        .sort((a, b) => rank(a) - rank(b));
+};
+
+/**
+ * Is this a sample of a birb's path?
+ *
+ * @param x value to check
+ * @returns true if x is a PathPoint
+ */
+export const isPathPoint = (x: unknown): x is PathPoint =>
+    typeof x === "object" &&
+    x !== null &&
+    "t" in x &&
+    Number.isFinite(x.t) &&
+    "y" in x &&
+    Number.isFinite(x.y);
+
+/**
+ * Is this a ghost?
+ *
+ * @param x value to check
+ * @returns true if x is a Ghost
+ */
+export const isGhost = (x: unknown): x is Ghost =>
+    typeof x === "object" &&
+    x !== null &&
+    "id" in x &&
+    typeof x.id === "string" &&
+    "label" in x &&
+    typeof x.label === "string" &&
+    "mapHash" in x &&
+    typeof x.mapHash === "string" &&
+    "score" in x &&
+    Number.isFinite(x.score) &&
+    "path" in x &&
+    Array.isArray(x.path) &&
+    x.path.every(isPathPoint);
+
+/**
+ * Serialises ghosts for exporting to a file.
+ *
+ * @param ghosts ghosts to export
+ * @returns JSON text of the ghost file
+ */
+export const serialiseGhosts = (ghosts: readonly Ghost[]): string =>
+    JSON.stringify({ version: GHOST_FILE_VERSION, ghosts });
+
+/**
+ * Reads a ghost file written by `serialiseGhosts`.
+ *
+ * @param json JSON text of the ghost file
+ * @returns the ghosts in the file
+ * @throws Error if the text is not a ghost file of a supported version
+ */
+export const parseGhosts = (json: string): readonly Ghost[] => {
+    const data: unknown = JSON.parse(json);
+    if (typeof data !== "object" || data === null)
+        throw new Error("Ghost file must be a JSON object");
+    if (!("version" in data) || data.version !== GHOST_FILE_VERSION)
+        throw new Error(
+            `Unsupported ghost file version: ${"version" in data ? data.version : "none"}`,
+        );
+    if (
+        !("ghosts" in data) ||
+        !Array.isArray(data.ghosts) ||
+        !data.ghosts.every(isGhost)
+    )
+        throw new Error("Ghost file has an invalid ghost");
+    return data.ghosts;
+};
+
+/**
+ * Adds imported ghosts alongside the saved ones. Imported ghosts get fresh
+ * ids, so they never replace a saved best or last run.
+ *
+ * @param ghosts saved ghosts
+ * @param imported ghosts read from a file
+ * @returns saved ghosts followed by the imported ones
+ */
+export const importGhosts = (
+    ghosts: readonly Ghost[],
+    imported: readonly Ghost[],
+): readonly Ghost[] => {
+    const taken = new Set(ghosts.map(g => g.id));
+    const fresh = (n: number): string =>
+        taken.has(`imported-${n}`) ? fresh(n + 1) : `imported-${n}`;
+    return imported.reduce((acc, g) => {
+        const id = fresh(acc.length);
+        taken.add(id);
+        return [
+            ...acc,
+            {
+                ...g,
+                id,
+                label:
+                    g.id === GhostIds.BEST ? `${g.label} (imported)` : g.label,
+            },
+        ];
+    }, ghosts);
+};
+
+/**
+ * Loads the saved ghosts. A missing or corrupt entry counts as no ghosts.
+ *
+ * @param storage where ghosts are persisted
+ * @returns saved ghosts
+ */
+export const loadGhosts = (storage: GhostStorage): readonly Ghost[] => {
+    try {
+        const saved = storage.getItem(StorageKeys.GHOSTS);
+        return saved ? parseGhosts(saved) : [];
+    } catch {
+        return [];
+    }
+};
+
+/**
+ * Saves the ghosts.
+ *
+ * @param storage where ghosts are persisted
+ * @param ghosts ghosts to save
+ */
+export const saveGhosts = (
+    storage: GhostStorage,
+    ghosts: readonly Ghost[],
+): void => storage.setItem(StorageKeys.GHOSTS, serialiseGhosts(ghosts));
+
+/**
+ * Loads the ids of the ghosts chosen to race, the last run by default.
+ *
+ * @param storage where the choice is persisted
+ * @returns ids of the chosen ghosts
+ */
+export const loadSelection = (storage: GhostStorage): readonly string[] => {
+    try {
+        const saved: unknown = JSON.parse(
+            storage.getItem(StorageKeys.SELECTED) ?? "null",
+        );
+        return Array.isArray(saved) && saved.every(id => typeof id === "string")
+            ? saved
+            : [GhostIds.LAST];
+    } catch {
+        return [GhostIds.LAST];
+    }
+};
+
+/**
+ * Saves the ids of the ghosts chosen to race.
+ *
+ * @param storage where the choice is persisted
+ * @param ids ids of the chosen ghosts
+ */
+export const saveSelection = (
+    storage: GhostStorage,
+    ids: readonly string[],
+): void => storage.setItem(StorageKeys.SELECTED, JSON.stringify(ids));
+
+/**
+ * Number of pipes a birb still flying at the given time has passed.
+ *
+ * @param course pipes of the map
+ * @param t time in ms
+ * @returns pipes passed
+ */
+const pipesPassedAt = (course: readonly Pipe[], t: number): number =>
+    course.filter(p => BIRB_X > pipeXposAtAge(p, t - p.time) + p.width).length;
+
+/** An endless course as far as it has been generated to compare ghosts on */
+export type GeneratedCourse = Readonly<{
+    seed: number;
+    pipes: readonly Pipe[];
+    course: EndlessCourse;
+}>;
+
+/**
+ * How far the player and a ghost have got along the course.
+ *
+ * @param s Current state
+ * @param g ghost raced against
+ * @returns time of the course each birb got to
+ */
+const reachOf = (
+    s: State,
+    g: Ghost,
+): Readonly<{ player: number; ghost: number }> => {
+    const player = courseTime(s, s.elapsedTime); // a slowed down run is not behind
+    return {
+        player,
+        ghost: s.gameOver
+            ? endTime(g) // the ghost keeps going after the player is out
+            : Math.min(endTime(g), player),
+    };
+};
+
+/**
+ * Generates the endless course of a run as far as the player or any of the
+ * ghosts got, carrying on from what was generated for an earlier state so
+ * that it is not generated again every frame.
+ *
+ * @param s Current state
+ * @param ghosts ghosts raced against
+ * @param known course generated before, if any
+ * @returns the course, undefined if the run is not endless
+ */
+export const generatedFor = (
+    s: State,
+    ghosts: readonly Ghost[],
+    known?: GeneratedCourse,
+): GeneratedCourse | undefined => {
+    if (!s.endless) return undefined;
+    const seed = s.endless.seed;
+    const from: GeneratedCourse =
+        known?.seed === seed
+            ? known
+            : { seed, pipes: [], course: startCourse(seed) };
+    const until = Math.max(
+        0,
+        ...ghosts.map(g => {
+            const reach = reachOf(s, g);
+            return Math.max(reach.player, reach.ghost);
+        }),
+    );
+    const more = endlessPipesUntil(from.course, until);
+    return more.pipes.length
+        ? { seed, pipes: [...from.pipes, ...more.pipes], course: more.course }
+        : from;
+};
+
+/**
+ * How far the player is ahead of a ghost. All birbs fly at the pipes' speed,
+ * so the gap is the distance flown by whichever run lasted longer.
+ *
+ * @param s Current state
+ * @param g ghost raced against
+ * @param generated an endless run's course as far as either birb got,
+ * generated again unless given
+ * @returns distance and pipes ahead, negative when behind
+ */
+export const compareToGhost = (
+    s: State,
+    g: Ghost,
+    generated: GeneratedCourse | undefined = generatedFor(s, [g]),
+): GhostGap => {
+    const speed =
+        (Viewport.CANVAS_WIDTH + Constants.PIPE_WIDTH) /
+        Constants.PIPE_TRAVEL_MS; // px per ms
+    const reach = reachOf(s, g);
+    const course = [...s.course, ...(generated?.pipes ?? [])];
+    return {
+        px: Math.round((reach.player - reach.ghost) * speed),
+        pipes:
+            pipesPassedAt(course, reach.player) -
+            pipesPassedAt(course, reach.ghost),
+    };
+};
@@ -0,0 +1,297 @@
+/**
+ * Player input: keyboard, pointer and gamepads turned into actions.
+ *
+ * Every device is read into the same few actions, so the game never sees
+ * which key or button was pressed. Keys can be rebound by the player and the
+ * bindings are saved in local storage. Held keys and buttons only count once,
+ * apart from rewind, which lasts as long as its key is held. In a two-player
+ * match the keys also tell the players apart, player 2 flapping with their
+ * own key.
+ */
+
+import {
+    Observable,
+    concatMap,
+    distinctUntilChanged,
+    filter,
+    map,
+    pairwise,
+    startWith,
+    tap,
+} from "rxjs";
+import type { Action, Control, KeyBindings, SeatAction } from "./types";
+
+/** Every action, in the order they are listed to the player */
+export const ACTIONS: readonly Action[] = ["flap", "pause", "restart", "step"];
+
+/** Everything keys can be bound to, in the order they are listed to the player */
+export const CONTROLS: readonly Control[] = [...ACTIONS, "flap2", "rewind"];
+
+/** Keys bound until the player chooses others */
+export const DEFAULT_BINDINGS: KeyBindings = {
+    flap: ["Space"],
+    flap2: ["ArrowUp"],
+    pause: ["KeyP"],
+    restart: ["KeyR"],
+    step: ["KeyN"],
+    rewind: ["KeyB"],
+};
+
+/** Buttons of a gamepad in the standard mapping bound to each action */
+export const GamepadButtons: Readonly<Record<Action, readonly number[]>> = {
+    flap: [0, 1], // A, B
+    pause: [9], // start
+    restart: [8], // back/select
+    step: [], // debugging is done at the keyboard
+};
+
+/** Local storage keys */
+const StorageKeys = {
+    BINDINGS: "flappyBirb.keyBindings",
+} as const;
+
+/** The part of the Web Storage API used to persist key bindings */
+export type BindingStorage = Pick<Storage, "getItem" | "setItem">;
+
+/** The state of a gamepad the game reads, a part of the Gamepad API's */
+export type PadState = Readonly<{
+    buttons: readonly Readonly<{ pressed: boolean }>[];
+}>;
+
+/**
+ * The action a key is bound to.
+ *
+ * @param bindings keys bound to each action
+ * @param code `KeyboardEvent.code` of the key
+ * @returns the action, undefined if the key is not bound
+ */
+export const actionOfKey = (
+    bindings: KeyBindings,
+    code: string,
+): Action | undefined =>
+    ACTIONS.find(a => bindings[a].includes(code)) ??
+    (bindings.flap2.includes(code) ? "flap" : undefined);
+
+/**
+ * The player a key belongs to in a two-player match.
+ *
+ * @param bindings keys bound to each control
+ * @param code `KeyboardEvent.code` of the key
+ * @returns 1 for player 2's flap, 0 for every other key
+ */
+export const seatOfKey = (bindings: KeyBindings, code: string): number =>
+    bindings.flap2.includes(code) ? 1 : 0;
+
+/**
+ * Binds a key to a control in place of its keys, taking it off any other.
+ * A control left without keys gets the old keys of the one rebound.
+ *
+ * @param bindings keys bound to each control
+ * @param control control to rebind
+ * @param code `KeyboardEvent.code` of the new key
+ * @returns the new bindings
+ */
+export const rebind = (
+    bindings: KeyBindings,
+    control: Control,
+    code: string,
+): KeyBindings =>
+    CONTROLS.reduce(
+        (acc, c) => ({
+            ...acc,
+            [c]:
+                c === control
+                    ? [code]
+                    : bindings[c].every(k => k === code)
+                      ? bindings[control] // swapped
+                      : bindings[c].filter(k => k !== code),
+        }),
+        bindings,
+    );
+
+/**
+ * Turns key presses into the actions of the players they belong to.
+ * Repeats of a held key are ignored, and bound keys do nothing else, e.g.
+ * Space does not scroll the page.
+ *
+ * @param key$ keydown events
+ * @param bindings current key bindings, read at every press
+ * @returns actions of the bound keys, with their player
+ */
+export const keySeatAction$ = (
+    key$: Observable<KeyboardEvent>,
+    bindings: () => KeyBindings,
+): Observable<SeatAction> =>
+    key$.pipe(
+        filter(e => !e.repeat),
+        map(e => ({ event: e, action: actionOfKey(bindings(), e.code) })),
+        filter(
+            (k): k is { event: KeyboardEvent; action: Action } =>
+                k.action !== undefined,
+        ),
+        tap(({ event }) => event.preventDefault()),
+        map(({ event, action }) => ({
+            seat: seatOfKey(bindings(), event.code),
+            action,
+        })),
+    );
+
+/**
+ * Turns key presses into actions, whichever player pressed them.
+ *
+ * @param key$ keydown events
+ * @param bindings current key bindings, read at every press
+ * @returns actions of the bound keys
+ */
+export const keyAction$ = (
+    key$: Observable<KeyboardEvent>,
+    bindings: () => KeyBindings,
+): Observable<Action> =>
+    keySeatAction$(key$, bindings).pipe(map(({ action }) => action));
+
+/**
+ * Follows whether a key of a control is held down.
+ *
+ * @param keyEvent$ keydown and keyup events
+ * @param bindings current key bindings, read at every event
+ * @param control control to follow, e.g. rewind
+ * @returns true when one of its keys goes down, false when it comes up
+ */
+export const keyHeld$ = (
+    keyEvent$: Observable<KeyboardEvent>,
+    bindings: () => KeyBindings,
+    control: Control,
+): Observable<boolean> =>
+    keyEvent$.pipe(
+        filter(e => bindings()[control].includes(e.code)),
+        tap(e => e.preventDefault()),
+        map(e => e.type === "keydown"),
+        distinctUntilChanged(),
+    );
+
+/**
+ * Turns presses of a mouse button, a finger or a pen into flaps.
+ *
+ * @param pointer$ pointerdown events, e.g. on the canvas
+ * @returns a flap for every press of the primary pointer
+ */
+export const pointerAction$ = (
+    pointer$: Observable<PointerEvent>,
+): Observable<Action> =>
+    pointer$.pipe(
+        filter(e => e.isPrimary),
+        tap(e => e.preventDefault()), // no mouse events or zooming after a touch
+        map(_ => "flap" as const),
+    );
+
+/**
+ * Actions whose buttons are held on any gamepad.
+ *
+ * @param pads connected gamepads, null for empty slots
+ * @returns held actions
+ */
+const heldActions = (pads: readonly (PadState | null)[]): readonly Action[] =>
+    ACTIONS.filter(a =>
+        pads.some(pad => GamepadButtons[a].some(b => pad?.buttons[b]?.pressed)),
+    );
+
+/**
+ * Turns gamepad buttons into actions. Gamepads have no events for buttons,
+ * so they are read at every poll and an action fires when one of its buttons
+ * goes down.
+ *
+ * @param poll$ when to read the gamepads, e.g. every animation frame
+ * @param readPads reads the connected gamepads, like `navigator.getGamepads`
+ * @returns actions of the pressed buttons
+ */
+export const gamepadAction$ = (
+    poll$: Observable<unknown>,
+    readPads: () => readonly (PadState | null)[],
+): Observable<Action> =>
+    poll$.pipe(
+        map(_ => heldActions(readPads())),
+        startWith([] as readonly Action[]),
+        pairwise(),
+        concatMap(([before, now]) => now.filter(a => !before.includes(a))),
+    );
+
+/**
+ * Are these key bindings, with at least one key for every control?
+ *
+ * @param x value to check
+ * @returns true if x is KeyBindings
+ */
+export const isKeyBindings = (x: unknown): x is KeyBindings =>
+    typeof x === "object" &&
+    x !== null &&
+    CONTROLS.every(c => {
+        const keys = (x as Record<string, unknown>)[c];
+        return (
+            Array.isArray(keys) &&
+            keys.length > 0 &&
+            keys.every(k => typeof k === "string")
+        );
+    });
+
+/**
+ * Gives the controls missing from saved bindings their default keys, taken
+ * off the controls that keep another key (e.g. the second flap key, once
+ * player 2 had a flap of their own). Keys that cannot be taken are left
+ * where they are.
+ *
+ * @param saved bindings as saved
+ * @returns bindings of every action
+ */
+const withNewActions = (
+    saved: Record<string, unknown>,
+): Record<string, unknown> =>
+    CONTROLS.filter(c => !(c in saved)).reduce((acc, c) => {
+        const defaults: readonly unknown[] = DEFAULT_BINDINGS[c];
+        const others = Object.fromEntries(
+            Object.entries(acc).map(([other, keys]) => {
+                const kept = Array.isArray(keys)
+                    ? keys.filter(k => !defaults.includes(k))
+                    : [];
+                return [other, kept.length ? kept : keys];
+            }),
+        );
+        const taken = Object.values(others).flat();
+        return {
+            ...others,
+            [c]: DEFAULT_BINDINGS[c].filter(k => !taken.includes(k)),
+        };
+    }, saved);
+
+/**
+ * Loads the player's key bindings. Missing or corrupt bindings count as the
+ * defaults, and controls added since the bindings were saved get their
+ * default keys.
+ *
+ * @param storage where the bindings are persisted
+ * @returns key bindings
+ */
+export const loadBindings = (storage: BindingStorage): KeyBindings => {
+    try {
+        const saved: unknown = JSON.parse(
+            storage.getItem(StorageKeys.BINDINGS) ?? "null",
+        );
+        const bindings =
+            typeof saved === "object" && saved !== null
+                ? withNewActions(saved as Record<string, unknown>)
+                : saved;
+        return isKeyBindings(bindings) ? bindings : DEFAULT_BINDINGS;
+    } catch {
+        return DEFAULT_BINDINGS;
+    }
+};
+
+/**
+ * Saves the player's key bindings.
+ *
+ * @param storage where the bindings are persisted
+ * @param bindings key bindings to save
+ */
+export const saveBindings = (
+    storage: BindingStorage,
+    bindings: KeyBindings,
+): void => storage.setItem(StorageKeys.BINDINGS, JSON.stringify(bindings));
@@ -0,0 +1,267 @@
+/**
+ * The relay server's lobby: who is connected, who is ready, and the race
+ * being flown.
+ *
+ * The server itself (`scripts/race_server.ts`) only moves messages over
+ * sockets; what it does with each of them is worked out here, as a new lobby
+ * and the messages to send, so it can be checked without any network. Once
+ * everyone in the lobby (at least two) is ready, a race starts on the map of
+ * the first player to have joined, with a seed the server picks. Flaps and
+ * reports of a racer go to the other racers, and once every racer has
+ * finished (or left) they are all sent the results.
+ */
+
+import type {
+    ClientMessage,
+    LobbyEntry,
+    RaceResult,
+    ServerMessage,
+} from "./race";
+import type { RunStats } from "./types";
+
+/** Players it takes to race */
+export const MIN_RACERS = 2;
+
+/** A connected player who has joined the lobby */
+export type LobbyPlayer = LobbyEntry &
+    Readonly<{ /** contents of their map */ map: string }>;
+
+/** A race being flown */
+export type RaceInProgress = Readonly<{
+    /** ids of the racers, in the order they joined */
+    racers: readonly string[];
+    /** how the run of each racer who has finished went */
+    results: Readonly<Record<string, RunStats>>;
+}>;
+
+/** Everyone connected to the server */
+export type Lobby = Readonly<{
+    players: readonly LobbyPlayer[];
+    race?: RaceInProgress;
+}>;
+
+/** A message for some of the clients */
+export type Delivery = Readonly<{
+    to: readonly string[];
+    message: ServerMessage;
+}>;
+
+/** What a message to the server leads to */
+export type LobbyUpdate = Readonly<{
+    lobby: Lobby;
+    deliveries: readonly Delivery[];
+}>;
+
+/** The lobby before anyone has joined */
+export const EMPTY_LOBBY: Lobby = { players: [] };
+
+/**
+ * Tells everyone who is in the lobby.
+ *
+ * @param lobby the lobby
+ * @returns a lobby message for every player
+ */
+const lobbyNews = (lobby: Lobby): Delivery => ({
+    to: lobby.players.map(p => p.id),
+    message: {
+        type: "lobby",
+        players: lobby.players.map(({ id, name, ready }) => ({
+            id,
+            name,
+            ready,
+        })),
+        racing: lobby.race !== undefined,
+    },
+});
+
+/**
+ * Ends the race once every racer still connected has finished, sending them
+ * the results.
+ *
+ * @param lobby the lobby
+ * @returns the lobby, with the race over if it is
+ */
+const settleRace = (lobby: Lobby): LobbyUpdate => {
+    const race = lobby.race;
+    if (!race || race.racers.some(id => !(id in race.results)))
+        return { lobby, deliveries: [] };
+    const results: readonly RaceResult[] = race.racers.flatMap(id => {
+        const p = lobby.players.find(p => p.id === id);
+        return p ? [{ id, name: p.name, stats: race.results[id] }] : [];
+    });
+    const over = { players: lobby.players };
+    return {
+        lobby: over,
+        deliveries: [
+            { to: race.racers, message: { type: "results", results } },
+            lobbyNews(over),
+        ],
+    };
+};
+
+/**
+ * Starts a race if everyone in the lobby is ready.
+ *
+ * @param lobby the lobby
+ * @param seed seed to race with
+ * @returns the lobby, racing if everyone was ready
+ */
+const startIfReady = (lobby: Lobby, seed: number): LobbyUpdate => {
+    if (
+        lobby.race ||
+        lobby.players.length < MIN_RACERS ||
+        lobby.players.some(p => !p.ready)
+    )
+        return { lobby, deliveries: [lobbyNews(lobby)] };
+    const racers = lobby.players.map(p => p.id);
+    const racing: Lobby = {
+        players: lobby.players.map(p => ({ ...p, ready: false })),
+        race: { racers, results: {} },
+    };
+    return {
+        lobby: racing,
+        deliveries: [
+            {
+                to: racers,
+                message: {
+                    type: "start",
+                    seed,
+                    map: lobby.players[0].map,
+                    racers: lobby.players.map(({ id, name }) => ({ id, name })),
+                },
+            },
+            lobbyNews(racing),
+        ],
+    };
+};
+
+/**
+ * Handles a message from a client.
+ *
+ * @param lobby the lobby
+ * @param from id of the client
+ * @param message what the client sent
+ * @param seed seed for a race, should this message start one
+ * @returns the lobby after the message, and what to send
+ */
+export const receive = (
+    lobby: Lobby,
+    from: string,
+    message: ClientMessage,
+    seed: number,
+): LobbyUpdate => {
+    const player = lobby.players.find(p => p.id === from);
+    if (message.type === "join") {
+        const joined: Lobby = {
+            ...lobby,
+            players: player
+                ? lobby.players.map(p =>
+                      p.id === from
+                          ? { ...p, name: message.name, map: message.map }
+                          : p,
+                  )
+                : [
+                      ...lobby.players,
+                      {
+                          id: from,
+                          name: message.name,
+                          map: message.map,
+                          ready: false,
+                      },
+                  ],
+        };
+        return {
+            lobby: joined,
+            deliveries: [
+                { to: [from], message: { type: "welcome", id: from } },
+                lobbyNews(joined),
+            ],
+        };
+    }
+    if (!player)
+        return {
+            lobby,
+            deliveries: [
+                {
+                    to: [from],
+                    message: { type: "error", message: "Join the lobby first" },
+                },
+            ],
+        };
+    const race = lobby.race;
+    const racing = race?.racers.includes(from) ?? false;
+    switch (message.type) {
+        case "ready":
+            return race
+                ? {
+                      lobby,
+                      deliveries: [
+                          {
+                              to: [from],
+                              message: {
+                                  type: "error",
+                                  message: "Wait for the race to finish",
+                              },
+                          },
+                      ],
+                  }
+                : startIfReady(
+                      {
+                          ...lobby,
+                          players: lobby.players.map(p =>
+                              p.id === from
+                                  ? { ...p, ready: message.ready }
+                                  : p,
+                          ),
+                      },
+                      seed,
+                  );
+        case "input":
+        case "report":
+            return {
+                lobby,
+                deliveries:
+                    race && racing && !(from in race.results)
+                        ? [
+                              {
+                                  to: race.racers.filter(id => id !== from),
+                                  message: { ...message, from },
+                              },
+                          ]
+                        : [],
+            };
+        case "finished":
+            return race && racing && !(from in race.results)
+                ? settleRace({
+                      ...lobby,
+                      race: {
+                          ...race,
+                          results: { ...race.results, [from]: message.stats },
+                      },
+                  })
+                : { lobby, deliveries: [] };
+    }
+};
+
+/**
+ * Handles a client disconnecting. A racer who leaves is dropped from the
+ * race, which may then be over.
+ *
+ * @param lobby the lobby
+ * @param id id of the client
+ * @returns the lobby without them, and what to send
+ */
+export const leave = (lobby: Lobby, id: string): LobbyUpdate => {
+    if (!lobby.players.some(p => p.id === id)) return { lobby, deliveries: [] };
+    const players = lobby.players.filter(p => p.id !== id);
+    const race = lobby.race && {
+        ...lobby.race,
+        racers: lobby.race.racers.filter(r => r !== id),
+    };
+    const left: Lobby =
+        race && race.racers.length ? { players, race } : { players };
+    const settled = settleRace(left);
+    return settled.lobby.race === undefined && settled.deliveries.length
+        ? settled
+        : { lobby: settled.lobby, deliveries: [lobbyNews(settled.lobby)] };
+};
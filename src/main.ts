@@ -18,9 +18,13 @@ import "./style.css";
 import {
     Observable,
     catchError,
+    combineLatest,
+    concatMap,
+    distinctUntilChanged,
+    exhaustMap,
     filter,
     fromEvent,
-    interval,
+    ignoreElements,
     map,
     scan,
     switchMap,
@@ -30,674 +34,1546 @@ import {
     takeWhile,
     tap,
     finalize,
+    from,
+    of,
     EMPTY,
+    asapScheduler,
+    observeOn,
+    share,
+    shareReplay,
+    withLatestFrom,
 } from "rxjs";
 import { fromFetch } from "rxjs/fetch";
+import { webSocket } from "rxjs/webSocket";
+import {
+    GhostIds,
+    ghostsForMap,
+    importGhosts,
+    loadGhosts,
+    loadSelection,
+    parseGhosts,
+    recordRun,
+    saveGhosts,
+    saveSelection,
+    serialiseGhosts,
+} from "./ghosts";
+import { autopilot, observe } from "./bot";
+import {
+    CONTROLS,
+    DEFAULT_BINDINGS,
+    gamepadAction$,
+    keyAction$,
+    keySeatAction$,
+    keyHeld$,
+    loadBindings,
+    pointerAction$,
+    rebind,
+    saveBindings,
+} from "./input";
+import {
+    EMPTY_EDITOR,
+    MS_PER_PX,
+    edit,
+    playtestFrom,
+    type Editor,
+    type EditorAction,
+} from "./editor";
+import { endlessLevel, loadMap, serialiseCsvMap } from "./map";
+import {
+    match$,
+    sceneOf,
+    startHotSeat,
+    takeTurn,
+    type HotSeat,
+    type Match,
+} from "./match";
+import { frameClock$, gameEvent$, tick$ } from "./observable";
+import {
+    isPractice,
+    practiceFromParams,
+    practiceRules,
+    practiceStart,
+} from "./practice";
+import {
+    DEFAULT_RACE_SERVER,
+    isServerMessage,
+    lobbyStatus,
+    raceMessage$,
+    raceView$,
+    startOfRace,
+    withRivals,
+    type ClientMessage,
+    type LobbyEntry,
+    type RaceStart,
+    type ServerMessage,
+} from "./race";
+import {
+    createReplay,
+    parseReplay,
+    replaySignal$,
+    serialiseReplay,
+} from "./replay";
+import { hasDefaultRules, resolveRules, rulesFromParams } from "./rules";
+import {
+    applySettings,
+    loadSoundSettings,
+    playSounds,
+    saveSoundSettings,
+    soundEvent$,
+    webAudioBackend,
+    type SoundSettings,
+} from "./sound";
+import {
+    DEFAULT_NAME,
+    importScores,
+    loadName,
+    loadScores,
+    parseScores,
+    recordScore,
+    saveName,
+    saveScores,
+    scoresFor,
+    serialiseScores,
+} from "./scores";
+import { ASSET_URLS, STILL, animate, loadImage, preload$ } from "./sprites";
+import {
+    TITLE,
+    countdown$,
+    nextScreen,
+    statsOf,
+    type Screen,
+    type ScreenEvent,
+} from "./screens";
+import { courseTime, createInitialState, isGameEnd, startAt } from "./state";
+import {
+    REWIND_FRAMES,
+    advance,
+    firstFrame,
+    rewindTo,
+    startTimeline,
+    stateAt,
+} from "./timeline";
+import {
+    Constants,
+    type Action,
+    type Control,
+    type GameOptions,
+    type Ghost,
+    type InputRecord,
+    type KeyBindings,
+    type LiveSignal,
+    type Mode,
+    type PathPoint,
+    type Pipe,
+    type Recording,
+    type Replay,
+    type RunStats,
+    type ScoreEntry,
+    type State,
+    type Timeline,
+} from "./types";
+import { hashString } from "./util";
+import {
+    render,
+    renderEditor,
+    renderImportError,
+    renderLevelInfo,
+    renderMapErrors,
+    renderScores,
+    renderLobby,
+    renderPlayers,
+    renderScreen,
+} from "./view";
 
-/** Constants */
-
-const Viewport = {
-    CANVAS_WIDTH: 600,
-    CANVAS_HEIGHT: 400,
-} as const;
-
-const Birb = {
-    WIDTH: 42,
-    HEIGHT: 30,
-    GRAVITY: 0.6,
-} as const;
-
-const Constants = {
-    PIPE_WIDTH: 50,
-    TICK_RATE_MS: 16, // Might need to change this!
-    PIPE_TRAVEL_MS: 3000,
-} as const;
-
-const Bounce = {
-    SPREAD: 4,
-    MEAN: 8, //mean to spread from
-    SEED: 1234,
-};
-
-// User input
-
-type Key = "Space" | "KeyR" | "KeyP";
-
-// State processing
-type Pipe = Readonly<{
-    gapY: number;
-    gapHeight: number;
-    time: number;
-    age: number;
-    xpos: number;
-    prevXpos: number;
-    birdPassing: boolean;
-    prevPassing: boolean;
-    passed: boolean;
-    gapTop: number;
-    gapBottom: number;
-}>;
-
-type State = Readonly<{
-    birbPosition: number;
-    birbVelocity: number;
-    birbLives: number;
-    elapsedTime: number;
-    score: number;
-    gameOver: boolean;
-    pipeRead?: Pipe[];
-    pipeRendering?: Pipe[];
-    pipeHistory?: Pipe[];
-    pipePassing?: Pipe;
-    rngSeed: number;
-    invinciblePipeTime?: number;
-    ghostBirbPos?: number;
-    paused: boolean;
-}>;
-
-const initialState: State = {
-    birbPosition: 200,
-    birbVelocity: 0,
-    birbLives: 3,
-    elapsedTime: 0,
-    score: 0,
-    gameOver: false,
-    rngSeed: performance.now(),
-    paused: false,
+/**
+ * Offers text to the user as a file download.
+ *
+ * @param filename suggested name of the file
+ * @param text contents of the file
+ * @param type media type of the file
+ */
+const downloadText = (
+    filename: string,
+    text: string,
+    type: string = "application/json",
+): void => {
+    const link = document.createElement("a");
+    link.href = URL.createObjectURL(new Blob([text], { type }));
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(link.href);
 };
 
 /**
- * Updates the state by proceeding with one time step.
+ * Runs the game in the browser: turns the player's actions and the tick timer
+ * into calls to the simulation core's `step`.
  *
- * @param s Current state
- * @returns Updated state
+ * Live runs are recorded, and a recorded run can be played back in place of
+ * live input to reproduce the exact same sequence of states.
+ *
+ * @param csvContents contents of the map file
+ * @param options input source and replay handling
+ * @returns stream of game states, starting again on every restart
  */
-const tick = (s: State) => s;
+export const state$ = (
+    csvContents: string,
+    options: GameOptions = {},
+): Observable<State> => {
+    /** User input */
 
-// Rendering (side effects)
+    const { replay, onRecorded } = options;
 
-/**
- * Brings an SVG element to the foreground.
- * @param elem SVG element to bring to the foreground
- */
-const bringToForeground = (elem: SVGElement): void => {
-    elem.parentNode?.appendChild(elem);
-};
+    const prevRunRef: {
+        //reference to previous run, raced as a ghost unless other ghosts are chosen
+        value: Ghost | undefined;
+    } = { value: undefined };
 
-/**
- * Displays a SVG element on the canvas. Brings to foreground.
- * @param elem SVG element to display
- */
-const show = (elem: SVGElement): void => {
-    elem.setAttribute("visibility", "visible");
-    bringToForeground(elem);
-};
+    /**
+     * Ghosts to race in a new run
+     *
+     * @returns ghosts, in the order they are listed
+     */
+    const ghostsToRace = (): readonly Ghost[] =>
+        replay
+            ? replay.ghosts
+            : options.ghosts
+              ? options.ghosts()
+              : prevRunRef.value
+                ? [prevRunRef.value]
+                : [];
+
+    const level = loadMap(csvContents);
+    const pipeProperties: readonly Pipe[] = level.pipes; // only valid rows, check the errors before playing
+    const rules =
+        replay?.rules ??
+        resolveRules(
+            {
+                ...options.rules,
+                ...(options.practice ? practiceRules(options.practice) : {}),
+            },
+            level.info.win,
+        ); // a replay keeps the rules it was played by
+    const endlessSeed = level.info.endless?.seed; // pipes are generated instead
+    const mode: Mode = endlessSeed === undefined ? "map" : "endless";
+    const mapHash = hashString(csvContents);
+
+    const seed = replay?.seed ?? options.seed ?? performance.now(); // every restart replays the same bounces
+
+    /** The game clock */
+    const clock$ = options.clock$ ?? frameClock$();
+
+    const action$ =
+        options.action$ ??
+        keyAction$(
+            fromEvent<KeyboardEvent>(document, "keydown"),
+            () => DEFAULT_BINDINGS,
+        ); //stream of the player's actions
 
-/**
- * Hides a SVG element on the canvas.
- * @param elem SVG element to hide
- */
-const hide = (elem: SVGElement): void => {
-    elem.setAttribute("visibility", "hidden");
-};
+    /**
+     * Filters the player's actions
+     *
+     * @param action what action to filter
+     * @returns Observable of that action
+     */
+    const fromAction = (action: Action): Observable<Action> =>
+        action$.pipe(filter(a => a === action));
 
-abstract class RNG {
-    private static m = 0x80000000; // 2^31
-    private static a = 1103515245;
-    private static c = 12345;
+    /** Flaps, pauses and single steps asked for by the player */
+    const flap$ = fromAction("flap");
+    const pause$ = fromAction("pause");
+    const frameStep$ = fromAction("step");
 
-    public static hash = (seed: number): number =>
-        (RNG.a * seed + RNG.c) % RNG.m;
+    /**
+     * Does the bot, if one is playing, flap before the next tick?
+     *
+     * @param s latest state of the run
+     * @returns true to flap
+     */
+    const botFlaps = (s: State): boolean => {
+        const bot = options.bot?.();
+        return !!bot && !s.paused && !isGameEnd(s) && bot(observe(s));
+    };
 
-    public static scale = (hash: number): number =>
-        (2 * hash) / (RNG.m - 1) - 1; // in [-1, 1]
-}
+    /**
+     * Player's signals merged with the rate of time steps, the bot's flaps
+     * coming right before the tick they were decided for. While rewind is
+     * held, every tick goes back in time instead.
+     *
+     * @param run latest state of the run for the bot to look at, whether it has flapped and whether the clock was slowed
+     * @returns signals of a live run
+     */
+    const liveSignal$ = (run: {
+        latest: State;
+        botPlayed: boolean;
+        slowed: boolean;
+    }): Observable<LiveSignal> =>
+        merge(
+            flap$,
+            pause$,
+            frameStep$,
+            tick$(clock$).pipe(
+                //updates state every step
+                concatMap((t): LiveSignal[] => {
+                    run.slowed ||= (options.clockRate?.() ?? 1) !== 1;
+                    if (options.rewinding?.()) return ["Rewind"];
+                    const flapped = botFlaps(run.latest);
+                    run.botPlayed ||= flapped;
+                    return flapped ? ["flap", t] : [t];
+                }),
+            ),
+        );
 
-/**
- * Creates an SVG element with the given properties.
- *
- * See https://developer.mozilla.org/en-US/docs/Web/SVG/Element for valid
- * element names and properties.
- *
- * @param namespace Namespace of the SVG element
- * @param name SVGElement name
- * @param props Properties to set on the SVG element
- * @returns SVG element
- */
-const createSvgElement = (
-    namespace: string | null,
-    name: string,
-    props: Record<string, string> = {},
-): SVGElement => {
-    const elem = document.createElementNS(namespace, name) as SVGElement;
-    Object.entries(props).forEach(([k, v]) => elem.setAttribute(k, v));
-    return elem;
+    /** Restarts asked for by the player */
+    const restart$ = fromAction("restart");
+
+    return restart$.pipe(
+        startWith(null), // start on load, so before the first restart it acts as the first signal to start game
+        switchMap(() => {
+            const ghosts = ghostsToRace();
+            const fresh = createInitialState(
+                pipeProperties,
+                seed,
+                ghosts,
+                rules,
+                endlessSeed,
+            );
+            const start = replay
+                ? replay.startAt
+                : options.practice
+                  ? practiceStart(fresh, options.practice.fromPipe)
+                  : options.startAt; // time of the course the run starts at
+            const initialState =
+                start === undefined ? fresh : startAt(fresh, start);
+            const practice = isPractice(rules, start);
+            const run: {
+                latest: State;
+                botPlayed: boolean;
+                rewound: boolean;
+                slowed: boolean;
+                stepped: boolean;
+                timeline: Timeline;
+            } = {
+                latest: initialState,
+                botPlayed: false,
+                rewound: false,
+                slowed: false,
+                stepped: false,
+                timeline: startTimeline(initialState),
+            }; //latest state of this run, seen by the bot, and its recent past
+
+            const signal$: Observable<LiveSignal> = replay
+                ? replaySignal$(replay, clock$)
+                : liveSignal$(run);
+
+            const currentPath: PathPoint[] = []; //to store path in current game to be used for next game
+            const currentInputs: InputRecord[] = []; //actions of this run, for its replay
+            const clock: {
+                ticks: number;
+                finished: boolean;
+                stats: RunStats;
+            } = {
+                ticks: 0,
+                finished: false,
+                stats: { score: 0, lives: 0, time: 0, flaps: 0, hits: 0 },
+            }; //game clock of this run, counts paused ticks too
+
+            /**
+             * Goes back in time, forgetting the inputs and path of the frames
+             * gone back over, so the recording is of the run as it carries on.
+             * The events of the frame gone back to already happened.
+             *
+             * @param t the run's timeline
+             * @returns the timeline a few frames earlier
+             */
+            const rewind = (t: Timeline): Timeline => {
+                const rewound = rewindTo(t, t.frame - REWIND_FRAMES);
+                const back = {
+                    ...rewound,
+                    state: { ...rewound.state, events: [] },
+                };
+                run.rewound ||= back.frame < t.frame;
+                clock.ticks = back.frame;
+                const dropFrom = (log: { t: number }[], t: number): void => {
+                    const i = log.findIndex(x => x.t >= t);
+                    if (i >= 0) log.splice(i);
+                };
+                dropFrom(currentInputs, back.frame * Constants.TICK_RATE_MS); // those after the frame's tick
+                dropFrom(
+                    currentPath,
+                    courseTime(back.state, back.state.elapsedTime),
+                ); // the frame's own point is sampled again
+                return back;
+            };
+
+            //** signals applied in turn to the timeline, the engine ignores flaps and ticks while paused */
+            const runState$ = signal$.pipe(
+                tap(signal => {
+                    run.stepped ||= signal === "step" && run.latest.paused; // a step only goes forward while paused
+                }),
+                tap(signal =>
+                    signal === "Tick"
+                        ? (clock.ticks += 1)
+                        : signal !== "Rewind" &&
+                          currentInputs.push({
+                              t: clock.ticks * Constants.TICK_RATE_MS,
+                              action: signal,
+                          }),
+                ),
+                scan(
+                    (t, signal) =>
+                        signal === "Rewind" ? rewind(t) : advance(t, signal),
+                    startTimeline(initialState), // reset state to initial state
+                ),
+                tap(t => (run.timeline = t)),
+                map(t => t.state),
+                takeWhile(s => !isGameEnd(s), true),
+                // sample position vs the time of the course
+                // tap observes stream's elapsedTime and birdPosition and pushes the values to the currentPath array
+                tap(s => {
+                    run.latest = s;
+                    currentPath.push({
+                        t: courseTime(s, s.elapsedTime),
+                        y: s.birbPosition,
+                    });
+                    clock.finished = isGameEnd(s);
+                    clock.stats = statsOf(s);
+                }),
+                // exactly the same as source observable (everything above) and calls a function to update ghost when the source terminates
+                finalize(() => {
+                    if (replay || !currentPath.length) return; // playback is not recorded
+                    const ghost: Ghost = {
+                        id: GhostIds.LAST,
+                        label: "Last run",
+                        mapHash,
+                        score: clock.stats.score,
+                        path: currentPath,
+                    };
+                    if (!practice) prevRunRef.value = ghost; //update ghost for next game
+                    onRecorded?.({
+                        replay: createReplay(
+                            seed,
+                            csvContents,
+                            ghosts,
+                            clock.finished // a run cut short was restarted
+                                ? currentInputs
+                                : [
+                                      ...currentInputs,
+                                      {
+                                          t:
+                                              clock.ticks *
+                                              Constants.TICK_RATE_MS,
+                                          action: "restart",
+                                      },
+                                  ],
+                            rules,
+                            start,
+                        ),
+                        ghost,
+                        mode,
+                        finished: clock.finished,
+                        botPlayed: run.botPlayed,
+                        rewound: run.rewound,
+                        slowed: run.slowed,
+                        stepped: run.stepped,
+                        practice,
+                        customRules: !hasDefaultRules(rules, level.info.win),
+                        stats: clock.stats,
+                        timeline: run.timeline,
+                    });
+                }),
+            );
+
+            return runState$;
+        }),
+    );
 };
 
-/**
- * renders the game according to state given after going through reducers
- *
- * @param s State of game
- */
-const render = (): ((s: State) => void) => {
-    // Canvas elements
-    const gameOver = document.querySelector("#gameOver") as SVGElement;
-    const container = document.querySelector("#main") as HTMLElement;
+// The following simply runs your main function on window load.  Make sure to leave it in place.
+// You should not need to change this, beware if you are.
+if (typeof window !== "undefined") {
+    const { protocol, hostname, port } = new URL(import.meta.url);
+    const baseUrl = `${protocol}//${hostname}${port ? `:${port}` : ""}`;
+    const params = new URLSearchParams(window.location.search);
+    // ?map=level.json plays another file from the assets folder
+    const mapName = params.get("map") ?? "map.csv";
+    const csvUrl = `${baseUrl}/assets/${encodeURIComponent(mapName)}`;
+    // e.g. ?lives=5&win=none for a demo, see rulesFromParams
+    const rules = rulesFromParams(params);
+    // ?mode=endless&seed=42 plays the endless course of that seed instead
+    const endless = params.get("mode") === "endless";
+    const endlessSeed =
+        Math.max(Math.floor(Number(params.get("seed") ?? 1)), 1) || 1; // NaN for a bad seed
+    // ?players=2 flies two birbs at once, ?players=hotseat takes turns
+    const players = params.get("players") ?? "1";
+    // ?players=race&server=ws://localhost:8787 races online through a relay server
+    const raceServer = params.get("server") || DEFAULT_RACE_SERVER;
+    // ?practice=18&speed=0.5 practises from the 18th pipe at half speed
+    const practice = practiceFromParams(params);
+
+    const modeForm = document.querySelector("#mode") as HTMLFormElement;
+    (modeForm.elements.namedItem("mode") as HTMLSelectElement).value = endless
+        ? "endless"
+        : "map";
+    (modeForm.elements.namedItem("seed") as HTMLInputElement).value =
+        String(endlessSeed);
+    const mapSelect = modeForm.elements.namedItem("map") as HTMLSelectElement;
+    if (!Array.from(mapSelect.options).some(o => o.value === mapName))
+        mapSelect.add(new Option(mapName, mapName)); // e.g. a map made elsewhere
+    mapSelect.value = mapName;
+    (modeForm.elements.namedItem("players") as HTMLSelectElement).value =
+        players;
+    (modeForm.elements.namedItem("server") as HTMLInputElement).value =
+        raceServer;
+    (modeForm.elements.namedItem("practice") as HTMLInputElement).value =
+        practice ? String(practice.fromPipe + 1) : "";
+    (modeForm.elements.namedItem("speed") as HTMLSelectElement).value = String(
+        practice?.speed ?? 1,
+    );
 
-    // Text fields
-    const livesText = document.querySelector("#livesText") as HTMLElement;
-    const scoreText = document.querySelector("#scoreText") as HTMLElement;
+    /**
+     * Is the title's choice of mode, map, seed, players and practice the one
+     * already loaded?
+     *
+     * @returns true if playing it needs no reload
+     */
+    const isLoadedChoice = (): boolean => {
+        const chosen = new FormData(modeForm);
+        const chosenPractice = practiceFromParams(
+            new URLSearchParams({
+                practice: String(chosen.get("practice") ?? ""),
+                speed: String(chosen.get("speed") ?? ""),
+            }),
+        );
+        return (
+            chosen.get("players") === players &&
+            chosenPractice?.fromPipe === practice?.fromPipe &&
+            chosenPractice?.speed === practice?.speed &&
+            (players !== "race" || chosen.get("server") === raceServer) &&
+            (chosen.get("mode") === "endless"
+                ? endless && Number(chosen.get("seed")) === endlessSeed
+                : !endless && chosen.get("map") === mapName)
+        );
+    };
 
-    const svg = document.querySelector("#svgCanvas") as SVGSVGElement;
+    /** Turns taken so far in hot-seat */
+    const hotSeatRef: { value: HotSeat | undefined } = {
+        value: players === "hotseat" ? startHotSeat() : undefined,
+    };
+
+    /** Every player's run in a match of two birbs at once */
+    const matchRef: { value: Match | undefined } = { value: undefined };
 
-    svg.setAttribute(
-        "viewBox",
-        `0 0 ${Viewport.CANVAS_WIDTH} ${Viewport.CANVAS_HEIGHT}`,
+    /**
+     * Shows whose turn it is in hot-seat, and who won a round
+     */
+    const showHotSeat = (): void => {
+        const h = hotSeatRef.value;
+        if (h)
+            renderPlayers(
+                h.results.map((stats, seat) => ({
+                    stats,
+                    note: seat === h.turn ? "to play" : "",
+                })),
+                h.turn,
+            );
+    };
+    showHotSeat();
+
+    // Get the file from URL, only maps without errors are played
+    const csv$ = (
+        endless
+            ? of(endlessLevel(endlessSeed))
+            : fromFetch(csvUrl).pipe(
+                  switchMap(response => {
+                      if (response.ok) {
+                          return response.text();
+                      } else {
+                          throw new Error(`Fetch error: ${response.status}`);
+                      }
+                  }),
+              )
+    ).pipe(
+        map(contents => ({ contents, ...loadMap(contents) })),
+        tap(({ errors, info }) => {
+            renderMapErrors(errors);
+            renderLevelInfo(info);
+        }),
+        filter(({ errors }) => errors.length === 0),
+        map(({ contents }) => contents),
+        catchError(err => {
+            renderMapErrors([
+                { line: 0, message: `could not load the map: ${err}` },
+            ]);
+            return EMPTY;
+        }),
+        shareReplay(1), // played, and started by ?play
     );
 
+    const debugOverlay = document.querySelector(
+        "#debugOverlay",
+    ) as HTMLInputElement;
+    const gameSpeed = document.querySelector("#gameSpeed") as HTMLSelectElement;
+    const stepFrame = document.querySelector("#stepFrame") as HTMLButtonElement;
+    // ?debug starts with the overlay on
+    debugOverlay.checked = params.has("debug");
+
+    /** Which images loaded, known before the game starts */
+    const asset$ = preload$(ASSET_URLS, loadImage).pipe(shareReplay(1));
+
+    const saveReplay = document.querySelector(
+        "#saveReplay",
+    ) as HTMLButtonElement;
+    const loadReplay = document.querySelector(
+        "#loadReplay",
+    ) as HTMLInputElement;
+
+    const ghostPicker = document.querySelector("#ghostPicker") as HTMLElement;
+    const exportGhostsButton = document.querySelector(
+        "#exportGhosts",
+    ) as HTMLButtonElement;
+    const importGhostsInput = document.querySelector(
+        "#importGhosts",
+    ) as HTMLInputElement;
+
+    /** Recording of the last finished live run */
+    const lastReplayRef: { value: Replay | undefined } = { value: undefined };
+
+    /** Saved ghosts of every map, and the ids of those chosen to race */
+    const ghostsRef: { value: readonly Ghost[] } = {
+        value: loadGhosts(localStorage),
+    };
+    const selectedRef: { value: readonly string[] } = {
+        value: loadSelection(localStorage),
+    };
+    const mapHashRef: { value: string } = { value: "" };
+    const modeRef: { value: Mode } = { value: "map" };
+
+    const playerName = document.querySelector(
+        "#playerName",
+    ) as HTMLInputElement;
+    const exportScoresButton = document.querySelector(
+        "#exportScores",
+    ) as HTMLButtonElement;
+    const importScoresInput = document.querySelector(
+        "#importScores",
+    ) as HTMLInputElement;
+
+    /** Saved high scores of every map and mode */
+    const scoresRef: { value: readonly ScoreEntry[] } = {
+        value: loadScores(localStorage),
+    };
+    playerName.value = loadName(localStorage);
+
+    /**
+     * Replaces the saved high scores and shows the current table
+     *
+     * @param entries scores to keep
+     * @param latest rank of the run just finished, if it made the table
+     */
+    const keepScores = (
+        entries: readonly ScoreEntry[],
+        latest?: number,
+    ): void => {
+        scoresRef.value = entries;
+        saveScores(localStorage, entries);
+        renderScores(
+            scoresFor(entries, mapHashRef.value, modeRef.value),
+            latest,
+        );
+    };
+
+    /**
+     * Lists the saved ghosts of the current map with a checkbox each
+     */
+    const showGhostPicker = (): void =>
+        ghostPicker.replaceChildren(
+            ...ghostsForMap(ghostsRef.value, mapHashRef.value).map(g => {
+                const option = document.createElement("label");
+                const box = document.createElement("input");
+                box.type = "checkbox";
+                box.checked = selectedRef.value.includes(g.id);
+                box.addEventListener("change", () => {
+                    selectedRef.value = box.checked
+                        ? [...selectedRef.value, g.id]
+                        : selectedRef.value.filter(id => id !== g.id);
+                    saveSelection(localStorage, selectedRef.value);
+                });
+                option.append(box, ` ${g.label} (${g.score})`);
+                return option;
+            }),
+        );
+
     /**
-     * Renders the current state to the canvas.
+     * Replaces the saved ghosts
      *
-     * In MVC terms, this updates the View using the Model.
+     * @param ghosts ghosts to keep
+     */
+    const keepGhosts = (ghosts: readonly Ghost[]): void => {
+        ghostsRef.value = ghosts;
+        saveGhosts(localStorage, ghosts);
+        showGhostPicker();
+    };
+
+    /**
+     * Ghosts of the current map chosen to race, read at the start of each run
      *
-     * @param s Current state
+     * @returns ghosts to race
      */
+    const chosenGhosts = (): readonly Ghost[] =>
+        ghostsForMap(ghostsRef.value, mapHashRef.value).filter(g =>
+            selectedRef.value.includes(g.id),
+        );
 
-    return (s: State) => {
-        const gameEnd: boolean = s.gameOver || s.score === 20;
-
-        const prev: NodeListOf<SVGImageElement> = svg.querySelectorAll("image"); //remove sprites from previous state
-        prev.forEach((n: SVGImageElement) => n.remove());
-        const prevPipes: NodeListOf<SVGRectElement> =
-            svg.querySelectorAll("rect");
-        prevPipes.forEach((n: SVGRectElement) => n.remove());
-
-        // Draw moving pipe
-        const pipesOnCanvas: Pipe[] | undefined = s.pipeRendering;
-
-        if (pipesOnCanvas) pipesOnCanvas.forEach(createWholePipe);
-
-        function createWholePipe(p: Pipe): void {
-            const pipeConvertedGap = p.gapY * Viewport.CANVAS_HEIGHT;
-            const pipeConvertedHeight = p.gapHeight * Viewport.CANVAS_HEIGHT;
-
-            const topH = pipeConvertedGap - pipeConvertedHeight / 2;
-            const bottomY = pipeConvertedGap + pipeConvertedHeight / 2;
-            const bottomH = Viewport.CANVAS_HEIGHT - bottomY;
-
-            // Top pipe
-            const pipeTop = createSvgElement(svg.namespaceURI, "rect", {
-                x: `${p.xpos}`,
-                y: "0",
-                width: `${Constants.PIPE_WIDTH}`,
-                height: `${topH}`,
-                fill: "green",
-            });
-
-            // Bottom pipe
-            const pipeBottom = createSvgElement(svg.namespaceURI, "rect", {
-                x: `${p.xpos}`,
-                y: `${bottomY}`,
-                width: `${Constants.PIPE_WIDTH}`,
-                height: `${bottomH}`,
-                fill: "green",
-            });
-
-            svg.appendChild(pipeTop);
-            svg.appendChild(pipeBottom);
-        }
+    const review = document.querySelector("#review") as HTMLElement;
+    const scrubber = document.querySelector("#scrubber") as HTMLInputElement;
+    const scrubTime = document.querySelector("#scrubTime") as HTMLElement;
 
-        if (s.ghostBirbPos !== undefined) {
-            const ghostImg = createSvgElement(svg.namespaceURI, "image", {
-                href: "assets/birb.png", // or a greyed asset if you have one
-                x: `${Viewport.CANVAS_WIDTH * 0.3 - Birb.WIDTH / 2}`,
-                y: `${s.ghostBirbPos}`,
-                width: `${Birb.WIDTH}`,
-                height: `${Birb.HEIGHT}`,
-                opacity: "0.3", // same properties as birb but decrease opacity
-            });
-            svg.appendChild(ghostImg);
-        }
+    /** Timeline of the finished run under review, and the frame of it shown */
+    const reviewRef: {
+        timeline: Timeline | undefined;
+        shown: State | undefined;
+    } = { timeline: undefined, shown: undefined };
 
-        // Add birb to the main grid canvas
-        const birdImg = createSvgElement(svg.namespaceURI, "image", {
-            href: "assets/birb.png",
-            x: `${Viewport.CANVAS_WIDTH * 0.3 - Birb.WIDTH / 2}`,
-            y: `${s.birbPosition}`,
-            width: `${Birb.WIDTH}`,
-            height: `${Birb.HEIGHT}`,
-        });
-        svg.appendChild(birdImg);
-
-        scoreText.textContent = String(s.score);
-        livesText.textContent = String(s.birbLives);
-
-        /**
-         * render the message texts
-         *
-         * @param msg the SVGTextElement, the message board
-         * @param msgText what should the message say
-         */
-        const msgUpdate = (msg: SVGTextElement, msgText: string): void => {
-            const line1 = document.createElementNS(svg.namespaceURI, "tspan");
-            line1.setAttribute("x", msg.getAttribute("x")!); // align with parent <text> x
-            line1.setAttribute("dy", "0"); // first line, no vertical offset
-            line1.textContent = msgText;
-
-            const line2 = document.createElementNS(svg.namespaceURI, "tspan");
-            line2.setAttribute("x", msg.getAttribute("x")!);
-            line2.setAttribute("dy", "1.2em"); // 1.2em below the first line
-            line2.textContent = "Press R to Play Again";
-
-            msg.appendChild(line1);
-            msg.appendChild(line2);
-        };
-
-        if (gameEnd) {
-            show(gameOver);
-            const msg = gameOver.querySelector("text");
-
-            if (msg) {
-                msg.textContent = ""; //clear previous msg
-                if (s.score === 20) msgUpdate(msg, "You Won!");
-                else msgUpdate(msg, "Game Over!");
-            }
-        } else hide(gameOver);
+    /**
+     * Shows a frame of the run under review, the end of the run if undefined
+     *
+     * @param s state of the frame
+     */
+    const showFrame = (s: State | undefined): void => {
+        reviewRef.shown = s;
+        const t = s ?? reviewRef.timeline?.state;
+        scrubTime.textContent = t
+            ? `${(t.elapsedTime / 1000).toFixed(2)}s, score ${t.score}, lives ${t.birbLives}`
+            : "";
     };
-};
-
-export const state$ = (csvContents: string): Observable<State> => {
-    /** User input */
 
-    const prevPathRef: {
-        //reference to previous birb flap path
-        value: { t: number; y: number }[] | undefined;
-    } = { value: undefined };
+    /**
+     * Offers a timeline scrubber over a finished run, ending on its last frame
+     *
+     * @param timeline the run's recent past
+     */
+    const showReview = (timeline: Timeline): void => {
+        reviewRef.timeline = timeline;
+        scrubber.min = String(firstFrame(timeline));
+        scrubber.max = String(timeline.frame);
+        scrubber.value = scrubber.max;
+        showFrame(undefined);
+        review.hidden = false;
+    };
 
-    const pipeProperties: Pipe[] = csvContents // read csv file for pipes, and map them into an array as Pipe objects
-        .split("\n")
-        .slice(1)
-        .map(e => {
-            const rows = e.split(",");
-            const gapYf = Number(rows[0]); // fraction
-            const gapHf = Number(rows[1]); // fraction
-            const gy = gapYf * Viewport.CANVAS_HEIGHT; // convert fraction to fit the canvas
-            const gh = gapHf * Viewport.CANVAS_HEIGHT;
-            const gapTop = gy - gh / 2;
-            const gapBottom = gy + gh / 2 - Birb.HEIGHT;
-            const startX = Viewport.CANVAS_WIDTH;
-            return {
-                gapY: Number(rows[0]),
-                gapHeight: Number(rows[1]),
-                time: Number(rows[2]) * 1000,
-                age: 0,
-                xpos: Viewport.CANVAS_WIDTH,
-                prevXpos: startX,
-                birdPassing: false,
-                prevPassing: false,
-                passed: false,
-                gapTop,
-                gapBottom,
-            };
-        });
+    /**
+     * Puts the scrubber away, once another run has started
+     */
+    const hideReview = (): void => {
+        reviewRef.timeline = undefined;
+        showFrame(undefined);
+        review.hidden = true;
+    };
 
-    /** Observable of KeyboardEvents */
-    const key$ = fromEvent<KeyboardEvent>(document, "keypress"); //stream of keypress observables
+    fromEvent(scrubber, "input").subscribe(() => {
+        const timeline = reviewRef.timeline;
+        if (timeline)
+            showFrame(
+                Number(scrubber.value) === timeline.frame
+                    ? undefined
+                    : stateAt(timeline, Number(scrubber.value)),
+            );
+    });
 
     /**
-     * Filters key press on keyboard
+     * Keeps what a finished run leaves behind: its replay, and its ghost
      *
-     * @param keycode what key to filter
-     * @returns Observable of filtered KeyboardEvents
+     * @param r recording of the run
      */
-    const fromKey: (keyCode: Key) => Observable<KeyboardEvent> = (
-        keyCode: Key,
-    ) => key$.pipe(filter(e => e.code === keyCode));
-
-    /** Determines whether to change the birbVelocity(gravity) to flap  */
-    const flap$: Observable<(s: State) => State> = fromKey("Space").pipe(
-        // change birbVelocity (gravity logic) if a space keypress is registered
-        map(
-            _ => (s: State) =>
-                s.gameOver || s.score === 20
-                    ? s
-                    : {
-                          ...s,
-                          birbVelocity: -7,
-                      },
-        ),
+    const keepRecording = (r: Recording): void => {
+        lastReplayRef.value = r.replay;
+        saveReplay.disabled = false;
+        if (r.finished) showReview(r.timeline);
+        if (r.practice) return; // practice is kept out of the ghosts, turns and high scores
+        keepGhosts(
+            recordRun(ghostsRef.value, r.ghost, !r.slowed && !r.stepped),
+        ); // a run slowed down or stepped is only the last run
+        if (r.finished && hotSeatRef.value) {
+            hotSeatRef.value = takeTurn(hotSeatRef.value, r.stats);
+            showHotSeat();
+        }
+        if (
+            !r.finished ||
+            r.botPlayed ||
+            r.rewound ||
+            r.slowed ||
+            r.stepped ||
+            r.customRules
+        )
+            return; // only finished runs of the player, played straight at full speed by the level's rules, make the high scores
+        const { entries, rank } = recordScore(scoresRef.value, {
+            ...r.stats,
+            mapHash: r.ghost.mapHash,
+            mode: r.mode,
+            name: playerName.value.trim() || DEFAULT_NAME,
+            date: Date.now(),
+        });
+        keepScores(entries, rank);
+    };
+
+    fromEvent(playerName, "change").subscribe(() =>
+        saveName(localStorage, playerName.value),
     );
 
-    /** Determines the rate of time steps */
-    const tick$: Observable<(s: State) => State> = interval(
-        //updates state every tick
-        Constants.TICK_RATE_MS,
-    ).pipe(
-        map(_ => (s: State) => {
-            if (s.gameOver || s.score === 20 || s.paused) return s; //stop state update if game end conditions are met
+    fromEvent(exportScoresButton, "click").subscribe(() =>
+        downloadText("birb-scores.json", serialiseScores(scoresRef.value)),
+    );
 
-            // update the properties regarding bird in state
-            const updatedBirbVelocity = s.birbVelocity + Birb.GRAVITY;
-            const newBirbPositionUnbound = s.birbPosition + updatedBirbVelocity;
-            const floor = Viewport.CANVAS_HEIGHT - Birb.HEIGHT;
+    // Scores imported from a file, invalid files are reported under it and ignored
+    fromEvent(importScoresInput, "change")
+        .pipe(
+            switchMap(() => {
+                const file = importScoresInput.files?.[0];
+                importScoresInput.value = ""; // allow importing the same file again
+                return file
+                    ? from(file.text()).pipe(
+                          map(parseScores),
+                          tap(() => renderImportError("scoresError")),
+                          catchError(err => {
+                              renderImportError(
+                                  "scoresError",
+                                  `could not import the scores: ${err}`,
+                              );
+                              return EMPTY;
+                          }),
+                      )
+                    : EMPTY;
+            }),
+        )
+        .subscribe(imported =>
+            keepScores(importScores(scoresRef.value, imported)),
+        );
+
+    fromEvent(exportGhostsButton, "click").subscribe(() =>
+        downloadText(
+            "birb-ghosts.json",
+            serialiseGhosts(ghostsForMap(ghostsRef.value, mapHashRef.value)),
+        ),
+    );
 
-            const pipeQueue: Pipe[] = s.pipeRead ?? pipeProperties; //read the csv content at the start, otherwise continue from previous state
+    // Ghosts imported from a file, invalid files are reported under it and ignored
+    fromEvent(importGhostsInput, "change")
+        .pipe(
+            switchMap(() => {
+                const file = importGhostsInput.files?.[0];
+                importGhostsInput.value = ""; // allow importing the same file again
+                return file
+                    ? from(file.text()).pipe(
+                          map(parseGhosts),
+                          tap(() => renderImportError("ghostsError")),
+                          catchError(err => {
+                              renderImportError(
+                                  "ghostsError",
+                                  `could not import the ghosts: ${err}`,
+                              );
+                              return EMPTY;
+                          }),
+                      )
+                    : EMPTY;
+            }),
+        )
+        .subscribe(imported =>
+            keepGhosts(importGhosts(ghostsRef.value, imported)),
+        );
+
+    fromEvent(saveReplay, "click").subscribe(() => {
+        if (lastReplayRef.value)
+            downloadText(
+                "birb-replay.json",
+                serialiseReplay(lastReplayRef.value),
+            );
+    });
 
-            const currentTime = s.elapsedTime + Constants.TICK_RATE_MS;
+    // Replays loaded from a file, invalid files are reported under it and ignored
+    const replay$ = fromEvent(loadReplay, "change").pipe(
+        switchMap(() => {
+            const file = loadReplay.files?.[0];
+            loadReplay.value = ""; // allow loading the same file again
+            return file
+                ? from(file.text()).pipe(
+                      map(parseReplay),
+                      tap(() => renderImportError("replayError")),
+                      catchError(err => {
+                          renderImportError(
+                              "replayError",
+                              `could not load the replay: ${err}`,
+                          );
+                          return EMPTY;
+                      }),
+                  )
+                : EMPTY;
+        }),
+    );
 
-            const travel = Constants.PIPE_TRAVEL_MS; // ms
-            const distance = Viewport.CANVAS_WIDTH + Constants.PIPE_WIDTH; // px
-            const BIRB_X = Viewport.CANVAS_WIDTH * 0.3 - Birb.WIDTH / 2;
-            const BIRB_REAR = BIRB_X + Birb.WIDTH;
+    /**
+     * How fast the game runs, as chosen
+     *
+     * @returns fraction of real time
+     */
+    const clockRate = (): number => Number(gameSpeed.value);
+
+    /** The game clock, shared by the simulation and the renderer, slowed down as chosen */
+    const clock$ = frameClock$(clockRate).pipe(share());
+
+    const svgCanvas = document.querySelector("#svgCanvas") as SVGSVGElement;
+    const autopilotBox = document.querySelector(
+        "#autopilot",
+    ) as HTMLInputElement;
+    const bindingList = document.querySelector("#bindings") as HTMLElement;
+    const resetBindings = document.querySelector(
+        "#resetBindings",
+    ) as HTMLButtonElement;
+
+    /** Keys bound to each control, and the control waiting for a new key */
+    const bindingsRef: { value: KeyBindings } = {
+        value: loadBindings(localStorage),
+    };
+    const rebindingRef: { value: Control | undefined } = { value: undefined };
 
-            //all helper functions listed here
-            /**
-             * clamp a ratio into [0,1]
-             *
-             * @param x number
-             * @returns number between 0 to 1
-             */
-            const clampRatio = (x: number): number =>
-                x <= 0 ? 0 : x >= 1 ? 1 : x;
+    /**
+     * Lists the controls with their keys, each a button to rebind it
+     */
+    const showBindings = (): void =>
+        bindingList.replaceChildren(
+            ...CONTROLS.map(a => {
+                const button = document.createElement("button");
+                button.textContent =
+                    rebindingRef.value === a
+                        ? `${a}: press a key (Esc to cancel)`
+                        : `${a}: ${bindingsRef.value[a].join(", ")}`;
+                button.addEventListener("click", () => {
+                    rebindingRef.value = a;
+                    showBindings();
+                });
+                return button;
+            }),
+        );
 
-            /**
-             * pipe xpos at given age
-             *
-             * @param age pipe's age
-             * @returns pipe's xpos
-             */
-            const pipeXposAtAge = (age: number): number => {
-                const prog = clampRatio(age / travel);
-                return Viewport.CANVAS_WIDTH - distance * prog;
-            };
+    /**
+     * Replaces the key bindings
+     *
+     * @param bindings keys to bind
+     */
+    const keepBindings = (bindings: KeyBindings): void => {
+        bindingsRef.value = bindings;
+        rebindingRef.value = undefined;
+        saveBindings(localStorage, bindings);
+        showBindings();
+    };
+    showBindings();
 
-            /**
-             * Clamp a y into the pipe’s gap
-             *
-             * @param p Passing pipe
-             * @param y Birb y position
-             * @returns updated birb y position
-             */
-            const clampToPipeGap = (p: Pipe, y: number): number =>
-                y <= p.gapTop ? p.gapTop : y >= p.gapBottom ? p.gapBottom : y;
+    fromEvent(resetBindings, "click").subscribe(() =>
+        keepBindings(DEFAULT_BINDINGS),
+    );
 
-            /**
-             * Birb outside the pipe's gap vertically?
-             *
-             * @param p Passing pipe
-             * @param y Birb y position
-             * @returns boolean, true if outside of gap
-             */
-            const outsideGapY = (p: Pipe, y: number): boolean =>
-                y <= p.gapTop || y >= p.gapBottom;
+    // while a control is being rebound, the next key is its new key and not game input
+    fromEvent<KeyboardEvent>(window, "keydown", { capture: true })
+        .pipe(filter(_ => rebindingRef.value !== undefined))
+        .subscribe(e => {
+            e.preventDefault();
+            e.stopPropagation();
+            (document.activeElement as HTMLElement | null)?.blur(); // a focused button would be clicked again
+            const control = rebindingRef.value as Control;
+            keepBindings(
+                e.code === "Escape"
+                    ? bindingsRef.value
+                    : rebind(bindingsRef.value, control, e.code),
+            );
+        });
 
-            /**
-             * Which side is hit?
-             *
-             * @param p Passing pipe
-             * @param y Birb y position
-             * @returns boolean, true if it is top false otherwise
-             */
-            const hitTopSide = (p: Pipe, y: number): boolean => y <= p.gapTop;
-
-            const ghostPath = prevPathRef.value; //take the path of previous game's birb
-            //get ghost birb position through running calculations on the array
-            const ghostBirbPos =
-                ghostPath && ghostPath.length //if it is not undefined
-                    ? currentTime <= ghostPath[ghostPath.length - 1].t // has ghost birb died yet?
-                        ? ghostPath[
-                              ghostPath.reduce(
-                                  //reduce to get the best fitting birb path for the current time
-                                  (best, pt, i) =>
-                                      pt.t <= currentTime ? i : best,
-                                  0,
-                              )
-                          ].y
-                        : undefined
-                    : s.ghostBirbPos; //doesnt update
-
-            const pipeQueueUpdated: Pipe[] = pipeQueue.map(p => {
-                //we are updating the pipes' property in the queue
-                const age = currentTime - p.time; // can be < 0 before spawn, so it will not just spawn at s.time >= p.time
-                const newX = pipeXposAtAge(age); // current frame xpos
-                const prevXpos = p.xpos; // remember last frame's xpos
-                const xpos = newX; //update xpos to the latest calculated xpos
-                const prevPassing = p.birdPassing; //take the previous birdPassing truth value
-                const birdPassing =
-                    xpos <= BIRB_REAR && xpos + Constants.PIPE_WIDTH >= BIRB_X
-                        ? true
-                        : false;
-                const passed =
-                    BIRB_X > xpos + Constants.PIPE_WIDTH ? true : p.passed;
-                return {
-                    ...p,
-                    age,
-                    prevXpos,
-                    xpos,
-                    prevPassing,
-                    passed,
-                    birdPassing,
-                };
-            });
+    /**
+     * Is a key being typed into a text box, e.g. the player's name?
+     *
+     * @param e key press
+     * @returns true if the key is not meant for the game
+     */
+    const isTyping = (e: KeyboardEvent): boolean =>
+        e.target instanceof HTMLTextAreaElement ||
+        (e.target instanceof HTMLInputElement &&
+            ["text", "number", "search"].includes(e.target.type));
 
-            const pipeQueuePass: Pipe[] = pipeQueueUpdated // pipeQueuePass is used to store all pipes that has been rendered, not considering if it is currently rendering
-                .filter(p => p.time <= currentTime);
+    const resumeButton = document.querySelector("#resume") as HTMLButtonElement;
+    const restartRun = document.querySelector("#restartRun") as HTMLElement;
+    const quitRun = document.querySelector("#quitRun") as HTMLElement;
+    const playAgain = document.querySelector("#playAgain") as HTMLElement;
+    const quitResults = document.querySelector("#quitResults") as HTMLElement;
 
-            const nextPipe: Pipe[] = pipeQueuePass.filter(
-                //Array of all pipes currently rendering
-                p => p.age >= 0 && p.age <= travel,
-            ); // only pipes on screen
+    /**
+     * Actions from the keyboard, the canvas, any gamepad and the buttons,
+     * all of them player 1's but the flaps of player 2's key
+     */
+    const seatAction$ = merge(
+        keySeatAction$(
+            fromEvent<KeyboardEvent>(document, "keydown").pipe(
+                filter(e => !isTyping(e)),
+            ),
+            () => bindingsRef.value,
+        ),
+        merge(
+            pointerAction$(fromEvent<PointerEvent>(svgCanvas, "pointerdown")),
+            gamepadAction$(clock$, () => navigator.getGamepads?.() ?? []),
+            fromEvent(stepFrame, "click").pipe(map(_ => "step" as const)),
+            fromEvent(resumeButton, "click").pipe(map(_ => "pause" as const)), // unpauses
+            merge(
+                fromEvent(restartRun, "click"),
+                fromEvent(playAgain, "click"),
+            ).pipe(map(_ => "restart" as const)),
+        ).pipe(map(action => ({ seat: 0, action }))),
+    ).pipe(share());
+
+    /** The same actions, whoever they came from */
+    const playerAction$ = seatAction$.pipe(
+        map(({ action }) => action),
+        share(),
+    );
 
-            //get the pipe that the bird is currently passing through
-            const currentPipePassing: Pipe | undefined = pipeQueuePass.find(
-                p => p.birdPassing === true,
-            );
+    /** Connection to the relay server, in an online race */
+    const raceSocket =
+        players === "race" ? webSocket<unknown>(raceServer) : undefined;
 
-            // clamp birb position into canvas
-            const updatedBirbPosition: number =
-                newBirbPositionUnbound <= 0
-                    ? 0
-                    : newBirbPositionUnbound >= floor
-                      ? floor
-                      : newBirbPositionUnbound;
-
-            //check if birb hit canvas this frame
-            const hitCanvas: boolean =
-                updatedBirbPosition === floor
-                    ? true
-                    : updatedBirbPosition === 0
-                      ? true
-                      : false;
-
-            const overlapping = currentPipePassing;
-
-            // first contact with this pipe this frame, we use the time in the csv as an id
-            const firstHitThisPipe: boolean = !!(
-                overlapping && // ensure the bird is currently overlapping with the pipe's x position
-                outsideGapY(overlapping, updatedBirbPosition) && //bird is not within the gap
-                s.invinciblePipeTime !== overlapping.time //check if we hit this pipe before
-            );
+    /** The player's id on the relay server, who is in its lobby, and the race last set off */
+    const raceRef: {
+        self: string;
+        lobby: readonly LobbyEntry[];
+        start: RaceStart | undefined;
+    } = { self: "", lobby: [], start: undefined };
 
-            // still overlapping the same phased pipe from a previous frame?
-            const keepPhasing: boolean = !!(
-                overlapping &&
-                s.invinciblePipeTime !== undefined && //so that bird is not invincible in the case it hasn't hit any pipe yet
-                s.invinciblePipeTime === overlapping.time //keep phasing if we already hit this pipe before
+    /**
+     * Sends a message to the relay server, if racing online
+     *
+     * @param message what to tell it
+     */
+    const sendRace = (message: ClientMessage): void =>
+        raceSocket?.next(message);
+
+    /** Messages from the relay server, none unless racing online */
+    const received$: Observable<unknown> = raceSocket ?? EMPTY;
+    const heard$: Observable<ServerMessage> = received$.pipe(
+        filter(isServerMessage),
+        catchError(() => {
+            renderLobby(
+                [],
+                "",
+                `Could not reach the race server at ${raceServer}`,
             );
+            return EMPTY;
+        }),
+        share(),
+    );
 
-            const isSideEntry: boolean =
-                // we always use !! if the variables could be null to get false for null
-                !!(overlapping && firstHitThisPipe) && //is this the first time hitting
-                !overlapping.prevPassing && //if the previous state of the pipe's birdPassing property is false
-                overlapping.birdPassing; // if current state is true, side entry defined by the moment birdPassing changes from false to trues
+    heard$.subscribe(message => {
+        switch (message.type) {
+            case "welcome":
+                raceRef.self = message.id;
+                return;
+            case "lobby":
+                raceRef.lobby = message.players;
+                renderLobby(
+                    message.players,
+                    raceRef.self,
+                    lobbyStatus(message.players, raceRef.self, message.racing),
+                );
+                return;
+            case "start":
+                raceRef.start = message;
+                return;
+            case "results":
+                renderPlayers(
+                    message.results.map(r => ({
+                        stats: r.stats,
+                        note: r.id === raceRef.self ? "you" : "",
+                        name: r.name,
+                    })),
+                );
+                return;
+            case "error":
+                renderLobby(raceRef.lobby, raceRef.self, message.message);
+                return;
+        }
+    });
+
+    // join the lobby with the map loaded, and again under a new name
+    if (raceSocket)
+        csv$.pipe(
+            take(1),
+            switchMap(contents =>
+                fromEvent(playerName, "change").pipe(
+                    startWith(null),
+                    map(_ => contents),
+                ),
+            ),
+        ).subscribe(contents =>
+            sendRace({
+                type: "join",
+                name: playerName.value.trim() || DEFAULT_NAME,
+                map: contents,
+            }),
+        );
+
+    /** The screen over the canvas */
+    const screenRef: { value: Screen } = { value: TITLE };
+
+    /** The title's Play button or a flap on the title */
+    const askedToPlay$ = merge(
+        fromEvent<SubmitEvent>(modeForm, "submit").pipe(
+            filter(_ => isLoadedChoice()), // others reload the page with their choice
+            tap(e => e.preventDefault()),
+        ),
+        playerAction$.pipe(
+            filter(a => a === "flap" && screenRef.value.kind === "title"),
+        ),
+    );
 
-            const shouldClamp = !!(
-                //should we clamp? No if the bird did not hit the side of the pipe
-                (firstHitThisPipe && overlapping && !isSideEntry)
-            );
+    // in an online race, playing is only being ready; the server sets the race off
+    if (raceSocket)
+        merge(askedToPlay$, fromEvent(playAgain, "click")).subscribe(() =>
+            sendRace({ type: "ready", ready: true }),
+        );
+
+    const editMap = document.querySelector("#editMap") as HTMLButtonElement;
+    const closeEditor = document.querySelector(
+        "#closeEditor",
+    ) as HTMLButtonElement;
+    const playtestButton = document.querySelector(
+        "#playtest",
+    ) as HTMLButtonElement;
+    const deletePipe = document.querySelector(
+        "#deletePipe",
+    ) as HTMLButtonElement;
+    const exportMap = document.querySelector("#exportMap") as HTMLButtonElement;
+    const importMap = document.querySelector("#importMap") as HTMLInputElement;
+    const editorScroll = document.querySelector(
+        "#editorScroll",
+    ) as HTMLInputElement;
+
+    /** The course in the map editor, kept when it is closed */
+    const editorRef: { value: Editor } = { value: EMPTY_EDITOR };
+
+    /** The map and start of the playtest being played, undefined for any other run */
+    const playtestRef: {
+        value: Readonly<{ map: string; startAt: number }> | undefined;
+    } = { value: undefined };
 
-            const newBirbPosition: number = shouldClamp //update the bird position again accordingly to pipe's hitbox logic
-                ? clampToPipeGap(overlapping, updatedBirbPosition)
-                : updatedBirbPosition;
+    /**
+     * Is the map editor open?
+     *
+     * @returns true while editing
+     */
+    const isEditing = (): boolean => screenRef.value.kind === "editing";
 
-            // check if it hit top or bottom, true if hit top
-            const hitPipeTop: boolean = !!(
-                firstHitThisPipe &&
-                overlapping &&
-                hitTopSide(overlapping, updatedBirbPosition)
-            );
+    /**
+     * Where a pointer is on the canvas, in the canvas's own units whatever
+     * size it is shown at.
+     *
+     * @param e pointer or mouse event on the canvas
+     * @returns x and y on the canvas
+     */
+    const canvasPoint = (e: MouseEvent): { x: number; y: number } => {
+        const { x, y } = new DOMPoint(e.clientX, e.clientY).matrixTransform(
+            svgCanvas.getScreenCTM()?.inverse(),
+        );
+        return { x, y };
+    };
 
-            const hitCanvasTop: boolean = updatedBirbPosition === 0;
-
-            const collideFrame: boolean = firstHitThisPipe || hitCanvas; //hit anything this frame?
-
-            // randomizer, seed is updated so we can randomize in future states
-            const seed1 = collideFrame ? RNG.hash(s.rngSeed) : s.rngSeed;
-            const r = collideFrame ? RNG.scale(seed1) : 0; // [-1,1]
-            const bounce = collideFrame ? Bounce.MEAN + Bounce.SPREAD * r : 0;
-
-            //birb velocity is updated to the calculated value if no collide, otherwise updated to the randomized velocity
-            const newBirbVelocity: number = !collideFrame
-                ? updatedBirbVelocity
-                : hitCanvasTop || hitPipeTop
-                  ? bounce
-                  : -bounce;
-
-            //check if we need to reduce live
-            const newBirbLives: number =
-                firstHitThisPipe || hitCanvas
-                    ? s.birbLives - 1 <= 0
-                        ? 0
-                        : s.birbLives - 1
-                    : s.birbLives;
-
-            //update pipe ID checker (according to csv file's time property for pipes)
-            const invinciblePipeTime2: number | undefined =
-                firstHitThisPipe && overlapping
-                    ? overlapping.time
-                    : keepPhasing
-                      ? s.invinciblePipeTime
-                      : undefined;
-
-            // update the score according to how many pipes passed
-            const scoreUpdate: number = pipeQueuePass.filter(
-                (p: Pipe) => p.passed === true,
-            ).length;
-
-            const newGameOver: boolean = newBirbLives === 0 ? true : false; //false if game is still ongoing, true if lost
-
-            const rngSeed2: number = collideFrame ? seed1 : s.rngSeed; //update seed
-
-            return {
-                ...s,
-                birbPosition: newBirbPosition,
-                birbVelocity: newBirbVelocity,
-                birbLives: newBirbLives,
-                elapsedTime: currentTime,
-                score: scoreUpdate,
-                gameOver: newGameOver,
-                pipeRead: pipeQueueUpdated,
-                pipeRendering: nextPipe,
-                rngSeed: rngSeed2,
-                invinciblePipeTime: invinciblePipeTime2,
-                ghostBirbPos,
-            };
+    // Maps imported into the editor, keeping the pipes of every valid row
+    const importedMap$ = fromEvent(importMap, "change").pipe(
+        switchMap(() => {
+            const file = importMap.files?.[0];
+            importMap.value = ""; // allow importing the same file again
+            return file
+                ? from(file.text()).pipe(
+                      map(loadMap),
+                      tap(({ errors }) => renderMapErrors(errors)),
+                      catchError(err => {
+                          renderMapErrors([
+                              {
+                                  line: 0,
+                                  message: `could not import the map: ${err}`,
+                              },
+                          ]);
+                          return EMPTY;
+                      }),
+                  )
+                : EMPTY;
         }),
     );
 
-    /** check if pause is toggled */
-    const pause$ = fromKey("KeyP").pipe(
-        // flip a boolean each time P is pressed
-        scan((acc, _) => !acc, false),
-        startWith(false),
+    /** What the player does in the editor, on the canvas and with its tools */
+    const editorAction$: Observable<EditorAction> = merge(
+        merge(csv$.pipe(take(1), map(loadMap)), importedMap$).pipe(
+            map(({ pipes }) => ({ type: "open", pipes }) as const),
+        ),
+        merge(
+            fromEvent<PointerEvent>(svgCanvas, "pointerdown").pipe(
+                filter(_ => isEditing()),
+                tap(e => svgCanvas.setPointerCapture(e.pointerId)), // keep dragging off the canvas
+                map(e => ({ type: "press", ...canvasPoint(e) }) as const),
+            ),
+            fromEvent<PointerEvent>(svgCanvas, "pointermove").pipe(
+                map(e => ({ type: "drag", ...canvasPoint(e) }) as const),
+            ),
+            merge(
+                fromEvent(svgCanvas, "pointerup"),
+                fromEvent(svgCanvas, "pointercancel"),
+            ).pipe(map(_ => ({ type: "release" }) as const)),
+            fromEvent<MouseEvent>(svgCanvas, "dblclick").pipe(
+                map(e => ({ type: "add", ...canvasPoint(e) }) as const),
+            ),
+            fromEvent<WheelEvent>(svgCanvas, "wheel", { passive: false }).pipe(
+                filter(_ => isEditing()),
+                tap(e => e.preventDefault()), // scrolls the timeline, not the page
+                map(
+                    e =>
+                        ({
+                            type: "scroll",
+                            ms:
+                                editorRef.value.scroll +
+                                (e.deltaX + e.deltaY) * MS_PER_PX,
+                        }) as const,
+                ),
+            ),
+            fromEvent<KeyboardEvent>(document, "keydown").pipe(
+                filter(
+                    e =>
+                        !isTyping(e) &&
+                        (e.code === "Delete" || e.code === "Backspace"),
+                ),
+                map(_ => ({ type: "delete" }) as const),
+            ),
+        ).pipe(filter(_ => isEditing())),
+        fromEvent(deletePipe, "click").pipe(
+            map(_ => ({ type: "delete" }) as const),
+        ),
+        fromEvent(editorScroll, "input").pipe(
+            map(
+                _ =>
+                    ({
+                        type: "scroll",
+                        ms: Number(editorScroll.value),
+                    }) as const,
+            ),
+        ),
+    );
+
+    /** The course in the editor after every edit */
+    const editor$ = editorAction$.pipe(
+        scan(edit, EMPTY_EDITOR),
+        startWith(EMPTY_EDITOR),
+        tap(e => (editorRef.value = e)),
+        shareReplay(1),
     );
 
-    /** reducer to change the state's paused according to the pause$ observable */
-    const pauseState$ = pause$.pipe(
-        map(paused => (s: State) => ({
-            ...s,
-            paused, //the pause$ emits booleans, just change the state's paused property according to that
+    fromEvent(exportMap, "click").subscribe(() =>
+        downloadText(
+            "map.csv",
+            serialiseCsvMap(editorRef.value.pipes),
+            "text/csv",
+        ),
+    );
+
+    /** Playtests asked for in the editor, of its course from the time chosen */
+    const playtest$ = fromEvent(playtestButton, "click").pipe(
+        map(_ => ({
+            map: serialiseCsvMap(editorRef.value.pipes),
+            startAt: playtestFrom(editorRef.value),
         })),
     );
 
-    /** Filter R press for restart */
-    const restart$ = fromKey("KeyR");
+    /** Runs asked for: on the title or ?play once the map is in, or set off by the relay server */
+    const asked$: Observable<unknown> = raceSocket
+        ? heard$.pipe(filter(message => message.type === "start"))
+        : merge(askedToPlay$, params.has("play") ? csv$.pipe(take(1)) : EMPTY);
 
-    return restart$.pipe(
-        startWith(null), // start on load, so at the start before first R key it acts as the first signal to start game
-        switchMap(() => {
-            //** game foundation is ran on flap$ and tick$ reducers, we merge inside here, resets both reducer on p press */
-            const gatedGame$ = pause$.pipe(
-                switchMap(paused => (paused ? EMPTY : merge(flap$, tick$))), //if paused, no reducers is applied on state so it stops updating
-            );
+    /** Every run asked for, a playtest of the editor's course or not */
+    const play$ = merge(asked$.pipe(map(_ => undefined)), playtest$).pipe(
+        tap(playtest => (playtestRef.value = playtest)),
+    );
 
-            //** all reducers that apply change to game state */
-            const reducers$: Observable<(s: State) => State> = merge(
-                pauseState$, //not included in gateGame$ since it would not update the paused property in state if we did
-                gatedGame$,
-            );
+    /** ms left before a run asked for starts, counted down afresh for each */
+    const countdownMs$ = play$.pipe(
+        switchMap(() => countdown$(clock$)),
+        share(),
+    );
 
-            const currentPath: { t: number; y: number }[] = []; //to store path in current game to be used for next game
+    /** Runs given up, back to the title */
+    const quit$ = merge(
+        fromEvent(quitRun, "click"),
+        fromEvent(quitResults, "click"),
+    );
 
-            //** cohesion of all the reducers to run the game together */
-            const runState$ = reducers$.pipe(
-                //observables that return a function that updates state
-                scan((state, reducerFn) => reducerFn(state), {
-                    ...initialState, // reset state to initial state
-                }),
-                takeWhile(s => !(s.gameOver || s.score === 20), true),
-                // sample position vs elapsed time
-                // tap observes stream's elapsedTime and birdPosition and pushes the values to the currentPath array
-                tap(s =>
-                    (currentPath as { t: number; y: number }[]).push({
-                        t: s.elapsedTime,
-                        y: s.birbPosition,
-                    }),
+    /** Is the player holding rewind? Let go when the page loses focus */
+    const rewindingRef: { value: boolean } = { value: false };
+    merge(
+        keyHeld$(
+            merge(
+                fromEvent<KeyboardEvent>(document, "keydown"),
+                fromEvent<KeyboardEvent>(document, "keyup"),
+            ).pipe(filter(e => !isTyping(e))),
+            () => bindingsRef.value,
+            "rewind",
+        ),
+        fromEvent(window, "blur").pipe(map(_ => false)),
+    ).subscribe(held => (rewindingRef.value = held));
+
+    /**
+     * A match of two birbs at once, shown from the lead's run
+     *
+     * @param contents contents of the map file
+     * @returns the lead's states
+     */
+    const matchGame$ = (contents: string): Observable<State> =>
+        match$(contents, { action$: seatAction$, clock$, rules }).pipe(
+            tap(m => {
+                matchRef.value = m;
+                renderPlayers(
+                    m.map(p => ({
+                        stats: statsOf(p),
+                        note: isGameEnd(p) ? "out" : "",
+                    })),
+                );
+            }),
+            map(sceneOf),
+            finalize(() => (matchRef.value = undefined)),
+        );
+
+    /**
+     * An online race, the other racers flying as ghosts. Quitting it counts
+     * as being out. Races are not recorded: they leave no replay, ghost or
+     * high score.
+     *
+     * @param start the race, as the relay server set it off
+     * @returns the player's states, with the other racers in them
+     */
+    const raceGame$ = (start: RaceStart): Observable<State> => {
+        const latest: { value: State } = { value: startOfRace(start) }; // for what to report on quitting
+        const run$ = state$(start.map, {
+            action$: playerAction$.pipe(filter(a => a === "flap")), // a race cannot be paused or restarted
+            clock$,
+            seed: start.seed,
+            ghosts: () => [],
+        }).pipe(
+            tap(s => (latest.value = s)),
+            share(),
+        );
+        const you = start.racers.find(r => r.id === raceRef.self);
+        return merge(
+            raceMessage$(run$).pipe(tap(sendRace), ignoreElements()),
+            raceView$(run$, heard$, start, raceRef.self).pipe(
+                tap(({ state, rivals }) =>
+                    renderPlayers(
+                        [
+                            { name: you?.name, run: state },
+                            ...rivals.map(r => ({
+                                name: r.racer.name,
+                                run: r.state,
+                            })),
+                        ].map(({ name, run }) => ({
+                            stats: isGameEnd(run) ? statsOf(run) : undefined,
+                            note: isGameEnd(run) ? "out" : "racing",
+                            name,
+                        })),
+                    ),
                 ),
-                // exactly the same as source observable (everything above) and calls a function to update ghost when the source terminates
-                finalize(() => {
-                    if (currentPath.length) {
-                        prevPathRef.value = currentPath; //change the reference to previous path's value property to the current path, update ghost for next game
-                    }
-                }),
-            );
+                map(({ state, rivals }) => withRivals(state, rivals)),
+            ),
+        ).pipe(
+            finalize(() => {
+                if (!isGameEnd(latest.value))
+                    sendRace({
+                        type: "finished",
+                        stats: statsOf(latest.value),
+                    });
+            }),
+        );
+    };
 
-            return runState$;
-        }),
+    /**
+     * A playtest of the editor's course, from the time chosen in it. Unless
+     * the page's URL says otherwise it is won by passing every pipe.
+     *
+     * @param playtest the course as a map, and where to start it
+     * @returns states of the run
+     */
+    const playtestGame$ = (
+        playtest: Readonly<{ map: string; startAt: number }>,
+    ): Observable<State> =>
+        state$(playtest.map, {
+            action$: playerAction$,
+            clock$,
+            ghosts: () => [],
+            rules: { win: { type: "allPipes" }, ...rules },
+            bot: () => (autopilotBox.checked ? autopilot : undefined),
+            rewinding: () => rewindingRef.value,
+            startAt: playtest.startAt,
+        });
+
+    /** Runs counted down and ready to start */
+    const started$ = asset$.pipe(
+        switchMap(() => countdownMs$.pipe(filter(ms => ms === 0))),
     );
-};
 
-// The following simply runs your main function on window load.  Make sure to leave it in place.
-// You should not need to change this, beware if you are.
-if (typeof window !== "undefined") {
-    const { protocol, hostname, port } = new URL(import.meta.url);
-    const baseUrl = `${protocol}//${hostname}${port ? `:${port}` : ""}`;
-    const csvUrl = `${baseUrl}/assets/map.csv`;
-
-    // Get the file from URL
-    const csv$ = fromFetch(csvUrl).pipe(
-        switchMap(response => {
-            if (response.ok) {
-                return response.text();
-            } else {
-                throw new Error(`Fetch error: ${response.status}`);
-            }
+    const game$ = merge(
+        csv$.pipe(
+            tap(contents => {
+                mapHashRef.value = hashString(contents);
+                modeRef.value = loadMap(contents).info.endless
+                    ? "endless"
+                    : "map";
+                showGhostPicker();
+                keepScores(scoresRef.value);
+            }),
+            switchMap(contents =>
+                // once the images are in, start the game when counted down
+                started$.pipe(
+                    filter(_ => !playtestRef.value),
+                    map(() =>
+                        players === "2"
+                            ? matchGame$(contents)
+                            : raceRef.start
+                              ? raceGame$(raceRef.start)
+                              : state$(contents, {
+                                    action$: playerAction$,
+                                    clock$,
+                                    clockRate,
+                                    ghosts: chosenGhosts,
+                                    onRecorded: keepRecording,
+                                    rules,
+                                    practice,
+                                    bot: () =>
+                                        autopilotBox.checked
+                                            ? autopilot
+                                            : undefined,
+                                    rewinding: () => rewindingRef.value,
+                                }),
+                    ),
+                ),
+            ),
+        ),
+        // a playtest plays the editor's course, whatever map is loaded
+        started$.pipe(
+            map(_ => playtestRef.value),
+            filter(playtest => playtest !== undefined),
+            map(playtestGame$),
+        ),
+        // a loaded replay takes over from the live game
+        replay$.pipe(
+            map(r =>
+                state$(r.map, { action$: playerAction$, clock$, replay: r }),
+            ),
+        ),
+        quit$.pipe(map(_ => EMPTY)),
+    ).pipe(
+        switchMap(g$ => g$),
+        tap(s => {
+            if (!isGameEnd(s) && reviewRef.timeline) hideReview(); // a new run
         }),
-        catchError(err => {
-            console.error("Error fetching the CSV file:", err);
-            throw err;
+        share(), // drawn and heard
+    );
+
+    // the screens follow the countdown, the states of the game, quitting and
+    // the editor, which a playtest goes back to
+    const screen$ = merge(
+        countdownMs$.pipe(map(ms => ({ type: "countdown", ms }) as const)),
+        game$.pipe(map(state => ({ type: "state", state }) as const)),
+        quit$.pipe(
+            map(
+                (_): ScreenEvent => ({
+                    type: playtestRef.value ? "edit" : "quit",
+                }),
+            ),
+        ),
+        fromEvent(editMap, "click").pipe(map(_ => ({ type: "edit" }) as const)),
+        fromEvent(closeEditor, "click").pipe(
+            map(_ => ({ type: "quit" }) as const),
+        ),
+    ).pipe(
+        scan(nextScreen, TITLE),
+        startWith(TITLE),
+        distinctUntilChanged(),
+        shareReplay(1),
+    );
+    screen$.subscribe(screen => {
+        screenRef.value = screen;
+        renderScreen(screen);
+    });
+
+    // the editor is drawn over the game while it is open
+    const drawEditor = renderEditor();
+    combineLatest([editor$, screen$]).subscribe(([e, screen]) =>
+        drawEditor(screen.kind === "editing" ? e : undefined),
+    );
+
+    const volumeSlider = document.querySelector("#volume") as HTMLInputElement;
+    const muteBox = document.querySelector("#mute") as HTMLInputElement;
+    const musicBox = document.querySelector("#music") as HTMLInputElement;
+
+    /** How loud the game is, as the player last chose */
+    const soundRef: { value: SoundSettings } = {
+        value: loadSoundSettings(localStorage),
+    };
+    const audio = new AudioContext();
+    const backend = webAudioBackend(audio);
+
+    /**
+     * Replaces the sound settings and shows them
+     *
+     * @param settings settings to keep
+     */
+    const keepSound = (settings: SoundSettings): void => {
+        soundRef.value = settings;
+        saveSoundSettings(localStorage, settings);
+        applySettings(backend, settings);
+        volumeSlider.value = String(Math.round(settings.volume * 100));
+        muteBox.checked = settings.muted;
+        musicBox.checked = settings.music;
+    };
+    keepSound(soundRef.value);
+
+    merge(
+        fromEvent(volumeSlider, "input"),
+        fromEvent(muteBox, "change"),
+        fromEvent(musicBox, "change"),
+    ).subscribe(() =>
+        keepSound({
+            volume: Number(volumeSlider.value) / 100,
+            muted: muteBox.checked,
+            music: musicBox.checked,
         }),
     );
 
-    // Observable: wait for first user click
-    const click$ = fromEvent(document.body, "mousedown").pipe(take(1));
+    // browsers only start audio after the player has clicked or pressed a key,
+    // every gesture tries again until it is running
+    merge(fromEvent(document, "pointerdown"), fromEvent(document, "keydown"))
+        .pipe(
+            takeWhile(_ => audio.state === "suspended"),
+            exhaustMap(() =>
+                from(audio.resume()).pipe(catchError(() => EMPTY)),
+            ),
+        )
+        .subscribe();
+
+    playSounds(soundEvent$(game$), backend, () => soundRef.value);
+
+    /** The latest flap and bounce, for the birb's wing and the screen shake */
+    const anim$ = gameEvent$(game$).pipe(
+        scan(animate, STILL),
+        startWith(STILL),
+    );
 
-    const draw = render(); //save instance
+    /** Draws a state, made once the images have loaded */
+    const draw$ = asset$.pipe(
+        map(loaded => render(() => debugOverlay.checked, loaded)),
+    );
 
-    csv$.pipe(
-        switchMap(contents =>
-            // On click - start the game
-            click$.pipe(switchMap(() => state$(contents))),
-        ),
-    ).subscribe(s => draw(s));
+    // Draw once per animation frame, after the frame's steps have been taken
+    clock$
+        .pipe(observeOn(asapScheduler), withLatestFrom(draw$, game$, anim$))
+        .subscribe(([frame, draw, s, anim]) =>
+            draw(reviewRef.shown ?? s, frame.alpha, anim, matchRef.value),
+        );
 }
@@ -0,0 +1,597 @@
+/**
+ * Loading map files.
+ *
+ * A map is a CSV file with a header row naming its columns, in any order:
+ * `gap_y` and `gap_height` as fractions of the canvas height, `time` in
+ * seconds, and optionally `pickup`, the kind of collectible in the gap (left
+ * empty for none). Blank lines and lines starting with `#` are skipped, fields may be
+ * quoted, and both LF and CRLF line endings are accepted. Every problem found
+ * is reported with its line number, instead of turning into an impossible pipe.
+ *
+ * A map may also be a JSON level, which can describe each pipe further
+ * (speed, width, colour, a moving gap, a pickup) and carries a name, author and win
+ * condition. Problems in a level are reported with the pipe they are in.
+ * Instead of listing pipes, a level can be endless, with its pipes generated
+ * from a seed.
+ */
+
+import { PICKUP_KINDS, isPickupKind } from "./pickups";
+import { createPipe, type PipeOptions } from "./state";
+import {
+    Birb,
+    Constants,
+    Viewport,
+    type LevelInfo,
+    type MapError,
+    type Pipe,
+    type PickupKind,
+    type WinCondition,
+} from "./types";
+
+/** Columns every map must have */
+const REQUIRED_COLUMNS = ["gap_y", "gap_height", "time"] as const;
+
+/** Column of a map naming the pickup of each pipe, if it has one */
+const PICKUP_COLUMN = "pickup";
+
+/**
+ * Reads the pickup of a pipe.
+ *
+ * @param v the pickup as written in the map, undefined or empty for none
+ * @returns the pickup, or a problem with it
+ */
+const readPickup = (v: unknown): PickupKind | undefined | string =>
+    v === undefined || v === ""
+        ? undefined
+        : isPickupKind(v)
+          ? v
+          : `pickup ${String(v)} is not one of ${PICKUP_KINDS.join(", ")}`;
+
+/**
+ * Is this a problem found while reading a pickup?
+ *
+ * @param r what reading a pickup gave
+ * @returns true if r is a problem, not a pickup
+ */
+const isProblem = (r: PickupKind | undefined | string): r is string =>
+    r !== undefined && !isPickupKind(r);
+
+/** Version of the JSON level format written by this build */
+export const LEVEL_VERSION = 1;
+
+/** The pipes of a map, and what was wrong with the file */
+export type MapResult = Readonly<{
+    /** pipes of every valid row, in file order */
+    pipes: readonly Pipe[];
+    /** name, author and win condition; empty for CSV maps */
+    info: LevelInfo;
+    /** problems found, in line order; the map is playable only if empty */
+    errors: readonly MapError[];
+}>;
+
+/** A row of the file that holds data, with its 1-based line number */
+type Row = Readonly<{ line: number; fields: readonly string[] }>;
+
+/**
+ * Splits a CSV line into fields. Fields may be quoted with `"`, with `""`
+ * standing for a quote inside a quoted field.
+ *
+ * @param line one line of the file
+ * @returns the fields, or undefined if a quote is left open
+ */
+export const splitCsvLine = (line: string): string[] | undefined => {
+    const step = (
+        i: number,
+        field: string,
+        quoted: boolean,
+        fields: readonly string[],
+    ): string[] | undefined => {
+        if (i >= line.length)
+            return quoted ? undefined : [...fields, field.trim()];
+        const c = line[i];
+        return quoted
+            ? c === '"' && line[i + 1] === '"'
+                ? step(i + 2, field + '"', true, fields)
+                : c === '"'
+                  ? step(i + 1, field, false, fields)
+                  : step(i + 1, field + c, true, fields)
+            : c === '"' && field.trim() === ""
+              ? step(i + 1, "", true, fields)
+              : c === ","
+                ? step(i + 1, "", false, [...fields, field.trim()])
+                : step(i + 1, field + c, false, fields);
+    };
+    return step(0, "", false, []);
+};
+
+/**
+ * Checks that a pipe's gap fits on the canvas and lets the birb through.
+ *
+ * @param line line number of the pipe
+ * @param gapY centre of the gap, as a fraction of the canvas height
+ * @param gapHeight height of the gap, as a fraction of the canvas height
+ * @returns problems with the gap
+ */
+const gapErrors = (
+    line: number,
+    gapY: number,
+    gapHeight: number,
+): MapError[] => {
+    const minGap = Birb.HEIGHT / Viewport.CANVAS_HEIGHT;
+    return [
+        ...(gapY < 0 || gapY > 1
+            ? [{ line, message: `gap_y ${gapY} is not between 0 and 1` }]
+            : []),
+        ...(gapHeight <= minGap || gapHeight > 1
+            ? [
+                  {
+                      line,
+                      message: `gap_height ${gapHeight} must be more than ${minGap} (the birb's height) and at most 1`,
+                  },
+              ]
+            : []),
+        ...(gapY - gapHeight / 2 < 0 || gapY + gapHeight / 2 > 1
+            ? [{ line, message: "gap does not fit on the canvas" }]
+            : []),
+    ];
+};
+
+/**
+ * Reads a CSV map.
+ *
+ * @param text contents of the map file
+ * @returns the pipes of the map and any problems found
+ */
+const loadCsvMap = (text: string): MapResult => {
+    const split = text
+        .split(/\r?\n/)
+        .map((raw, i) => ({ raw, line: i + 1 }))
+        .filter(({ raw }) => raw.trim() !== "" && !raw.trim().startsWith("#")) // blank lines and comments
+        .map(({ raw, line }) => ({ line, fields: splitCsvLine(raw) }));
+    const unclosed: MapError[] = split
+        .filter(r => r.fields === undefined)
+        .map(({ line }) => ({ line, message: "unclosed quote" }));
+    const rows: Row[] = split.flatMap(({ line, fields }) =>
+        fields ? [{ line, fields }] : [],
+    );
+
+    const [header, ...data] = rows;
+    if (!header)
+        return {
+            pipes: [],
+            info: {},
+            errors: [{ line: 1, message: "map is empty" }],
+        };
+
+    const columns = header.fields.map(f => f.toLowerCase());
+    const missing = REQUIRED_COLUMNS.filter(c => !columns.includes(c));
+    if (missing.length)
+        return {
+            pipes: [],
+            info: {},
+            errors: [
+                {
+                    line: header.line,
+                    message: `header is missing ${missing.join(", ")}`,
+                },
+            ],
+        };
+
+    /**
+     * Reads a number from a row by column name.
+     *
+     * @param row row of the file
+     * @param column name of the column
+     * @returns the number, NaN if missing or not a number
+     */
+    const numberAt = (row: Row, column: string): number => {
+        const field = row.fields[columns.indexOf(column)];
+        return field === undefined || field === "" ? NaN : Number(field);
+    };
+
+    const parsed = data.map(row => {
+        const gapY = numberAt(row, "gap_y");
+        const gapHeight = numberAt(row, "gap_height");
+        const time = numberAt(row, "time");
+        const pickup = readPickup(
+            columns.includes(PICKUP_COLUMN)
+                ? row.fields[columns.indexOf(PICKUP_COLUMN)]?.toLowerCase()
+                : undefined,
+        );
+        const notNumbers: MapError[] = REQUIRED_COLUMNS.filter(c =>
+            Number.isNaN(numberAt(row, c)),
+        ).map(c => ({
+            line: row.line,
+            message: `${c} is not a number`,
+        }));
+        const errors: MapError[] = notNumbers.length
+            ? notNumbers
+            : [
+                  ...gapErrors(row.line, gapY, gapHeight),
+                  ...(time < 0
+                      ? [{ line: row.line, message: "time is negative" }]
+                      : []),
+                  ...(isProblem(pickup)
+                      ? [{ line: row.line, message: pickup }]
+                      : []),
+              ];
+        return {
+            line: row.line,
+            gapY,
+            gapHeight,
+            time,
+            pickup: isProblem(pickup) ? undefined : pickup,
+            errors,
+        };
+    });
+
+    const valid = parsed.filter(p => !p.errors.length);
+
+    // pipes are identified by their time, so times must strictly increase
+    const unordered: MapError[] = valid
+        .filter((p, i) => i > 0 && p.time <= valid[i - 1].time)
+        .map(p => ({
+            line: p.line,
+            message: `time ${p.time} is not after the previous pipe's`,
+        }));
+
+    const noPipes: MapError[] =
+        data.length === 0
+            ? [{ line: header.line, message: "map has no pipes" }]
+            : [];
+
+    return {
+        pipes: valid.map(p =>
+            createPipe(p.gapY, p.gapHeight, p.time * 1000, {
+                pickup: p.pickup,
+            }),
+        ),
+        info: {},
+        errors: [
+            ...unclosed,
+            ...parsed.flatMap(p => p.errors),
+            ...unordered,
+            ...noPipes,
+        ].sort((a, b) => a.line - b.line),
+    };
+};
+
+/**
+ * Is the value a plain JSON object?
+ *
+ * @param v value read from JSON
+ * @returns true if v is an object and not an array
+ */
+const isObject = (v: unknown): v is Record<string, unknown> =>
+    typeof v === "object" && v !== null && !Array.isArray(v);
+
+/**
+ * Is the value a finite number?
+ *
+ * @param v value read from JSON
+ * @returns true if v is a number other than NaN or infinity
+ */
+const isNumber = (v: unknown): v is number =>
+    typeof v === "number" && Number.isFinite(v);
+
+/**
+ * Reads the win condition of a level.
+ *
+ * @param v the level's `win` field
+ * @returns the condition, or a problem with it
+ */
+const readWin = (v: unknown): WinCondition | string =>
+    !isObject(v)
+        ? "win must be an object"
+        : v.type === "allPipes" || v.type === "none"
+          ? { type: v.type }
+          : v.type !== "score"
+            ? `unknown win type ${String(v.type)}`
+            : isNumber(v.score) && v.score > 0 && Number.isInteger(v.score)
+              ? { type: "score", score: v.score }
+              : "win score must be a positive whole number";
+
+/** A pipe of a level that passed its checks */
+type LevelPipe = Readonly<{
+    gapY: number;
+    gapHeight: number;
+    time: number;
+    options: PipeOptions;
+}>;
+
+/**
+ * Reads one pipe of a level, with its optional fields.
+ *
+ * @param v the pipe as read from JSON
+ * @returns the pipe, or the problems with it
+ */
+const readLevelPipe = (v: unknown): LevelPipe | string[] => {
+    if (!isObject(v)) return ["is not an object"];
+    const {
+        gapY,
+        gapHeight,
+        time,
+        travelTime,
+        width,
+        color,
+        oscillation,
+        pickup,
+    } = v;
+    const notNumbers = (
+        [
+            ["gapY", gapY],
+            ["gapHeight", gapHeight],
+            ["time", time],
+        ] as const
+    )
+        .filter(([, value]) => !isNumber(value))
+        .map(([name]) => `${name} is not a number`);
+    if (notNumbers.length) return notNumbers;
+    const [y, h, t] = [gapY, gapHeight, time] as number[];
+
+    const swing = isObject(oscillation) ? oscillation : undefined;
+    const kind = readPickup(pickup);
+    const amplitude = swing?.amplitude;
+    const period = swing?.period;
+    const errors: string[] = [
+        ...gapErrors(0, y, h).map(e => e.message),
+        ...(t < 0 ? ["time is negative"] : []),
+        ...(travelTime !== undefined &&
+        !(isNumber(travelTime) && travelTime > 0)
+            ? ["travelTime must be a positive number"]
+            : []),
+        ...(width !== undefined && !(isNumber(width) && width > 0)
+            ? ["width must be a positive number"]
+            : []),
+        ...(color !== undefined && (typeof color !== "string" || color === "")
+            ? ["color must be a non-empty string"]
+            : []),
+        ...(oscillation !== undefined && !swing
+            ? ["oscillation must be an object"]
+            : []),
+        ...(swing && !(isNumber(amplitude) && amplitude >= 0)
+            ? ["oscillation amplitude must be a number of at least 0"]
+            : []),
+        ...(swing && !(isNumber(period) && period > 0)
+            ? ["oscillation period must be a positive number"]
+            : []),
+        ...(isNumber(amplitude) &&
+        (y - amplitude - h / 2 < 0 || y + amplitude + h / 2 > 1)
+            ? ["moving gap leaves the canvas"]
+            : []),
+        ...(isProblem(kind) ? [kind] : []),
+    ];
+    return errors.length
+        ? errors
+        : {
+              gapY: y,
+              gapHeight: h,
+              time: t,
+              options: {
+                  travelMs: isNumber(travelTime)
+                      ? travelTime * 1000
+                      : undefined,
+                  width: isNumber(width) ? width : undefined,
+                  color: typeof color === "string" ? color : undefined,
+                  oscillation:
+                      isNumber(amplitude) && isNumber(period)
+                          ? { amplitude, periodMs: period * 1000 }
+                          : undefined,
+                  pickup: isProblem(kind) ? undefined : kind,
+              },
+          };
+};
+
+/**
+ * Checks the name and author of a level.
+ *
+ * @param level the level as read from JSON
+ * @returns problems with them
+ */
+const nameErrors = (level: Record<string, unknown>): string[] => [
+    ...(level.name !== undefined && typeof level.name !== "string"
+        ? ["name must be a string"]
+        : []),
+    ...(level.author !== undefined && typeof level.author !== "string"
+        ? ["author must be a string"]
+        : []),
+];
+
+/**
+ * Reads the name and author of a level.
+ *
+ * @param level the level as read from JSON
+ * @returns those given as strings
+ */
+const namesOf = (
+    level: Record<string, unknown>,
+): Pick<LevelInfo, "name" | "author"> => ({
+    name: typeof level.name === "string" ? level.name : undefined,
+    author: typeof level.author === "string" ? level.author : undefined,
+});
+
+/**
+ * Reads an endless level, whose pipes are generated from its seed.
+ *
+ * @param level the level as read from JSON
+ * @param seed course seed
+ * @returns the description of the level and any problems found
+ */
+const loadEndlessLevel = (
+    level: Record<string, unknown>,
+    seed: number,
+): MapResult => {
+    const win = level.win === undefined ? undefined : readWin(level.win);
+    const errors: string[] = [
+        ...(typeof win === "string" ? [win] : []),
+        ...(typeof win === "object" && win.type === "allPipes"
+            ? ["an endless level has no last pipe to pass"]
+            : []),
+        ...nameErrors(level),
+    ];
+    return {
+        pipes: [],
+        info: {
+            ...namesOf(level),
+            win: typeof win === "object" ? win : { type: "none" },
+            endless: { seed },
+        },
+        errors: errors.map(message => ({ line: 0, message })),
+    };
+};
+
+/**
+ * The level of an endless run, for the game to load like any other map.
+ *
+ * @param seed course seed
+ * @returns contents of the level file
+ */
+export const endlessLevel = (seed: number): string =>
+    JSON.stringify({
+        version: LEVEL_VERSION,
+        name: `Endless #${seed}`,
+        win: { type: "none" },
+        endless: { seed },
+    });
+
+/**
+ * Reads a JSON level. Times are in seconds, like in CSV maps.
+ *
+ * @param text contents of the level file
+ * @returns the pipes and description of the level and any problems found
+ */
+const loadJsonLevel = (text: string): MapResult => {
+    const fail = (message: string): MapResult => ({
+        pipes: [],
+        info: {},
+        errors: [{ line: 0, message }],
+    });
+    const level: unknown = (() => {
+        try {
+            return JSON.parse(text);
+        } catch {
+            return undefined;
+        }
+    })();
+    if (!isObject(level)) return fail("level is not a JSON object");
+    if (level.version !== LEVEL_VERSION)
+        return fail(`unsupported level version ${String(level.version)}`);
+    const endless = level.endless;
+    if (endless !== undefined)
+        return !isObject(endless) ||
+            !isNumber(endless.seed) ||
+            !Number.isInteger(endless.seed) ||
+            endless.seed < 0
+            ? fail("endless seed must be a whole number of at least 0")
+            : level.pipes !== undefined
+              ? fail("an endless level cannot list pipes")
+              : loadEndlessLevel(level, endless.seed);
+    if (!Array.isArray(level.pipes)) return fail("level has no pipes list");
+
+    const win = level.win === undefined ? undefined : readWin(level.win);
+    const infoErrors: string[] = [
+        ...(typeof win === "string" ? [win] : []),
+        ...nameErrors(level),
+        ...(level.pipes.length === 0 ? ["level has no pipes"] : []),
+    ];
+
+    const read = level.pipes.map(readLevelPipe);
+    const pipeErrors: string[] = read.flatMap((r, i) =>
+        Array.isArray(r) ? r.map(m => `pipe ${i + 1}: ${m}`) : [],
+    );
+    const valid = read.flatMap((r, i) =>
+        Array.isArray(r) ? [] : [{ ...r, index: i }],
+    );
+    const unordered: string[] = valid
+        .filter((p, i) => i > 0 && p.time <= valid[i - 1].time)
+        .map(
+            p =>
+                `pipe ${p.index + 1}: time ${p.time} is not after the previous pipe's`,
+        );
+
+    return {
+        pipes: valid.map(p =>
+            createPipe(p.gapY, p.gapHeight, p.time * 1000, p.options),
+        ),
+        info: {
+            ...namesOf(level),
+            win: typeof win === "object" ? win : undefined,
+        },
+        errors: [...infoErrors, ...pipeErrors, ...unordered].map(message => ({
+            line: 0,
+            message,
+        })),
+    };
+};
+
+/**
+ * Reads a map file, either a CSV map or a JSON level.
+ *
+ * @param text contents of the map file
+ * @returns the pipes of the map and any problems found
+ */
+export const loadMap = (text: string): MapResult =>
+    text.trimStart().startsWith("{") ? loadJsonLevel(text) : loadCsvMap(text);
+
+/**
+ * Writes pipes as a CSV map. Only the gap, time and pickup of each pipe are
+ * kept, the pickup column only if some pipe has one.
+ *
+ * @param pipes pipes of the map
+ * @returns contents of the map file
+ */
+export const serialiseCsvMap = (
+    pipes: readonly Pick<Pipe, "gapY" | "gapHeight" | "time" | "pickup">[],
+): string => {
+    const pickups = pipes.some(p => p.pickup !== undefined);
+    return [
+        [...REQUIRED_COLUMNS, ...(pickups ? [PICKUP_COLUMN] : [])].join(","),
+        ...pipes.map(p =>
+            [
+                p.gapY,
+                p.gapHeight,
+                p.time / 1000,
+                ...(pickups ? [p.pickup ?? ""] : []),
+            ].join(","),
+        ),
+    ].join("\n");
+};
+
+/**
+ * Writes pipes as a JSON level, leaving out options that are the default.
+ *
+ * @param pipes pipes of the level
+ * @param info name, author and win condition of the level
+ * @returns contents of the level file
+ */
+export const serialiseLevel = (
+    pipes: readonly Pipe[],
+    info: LevelInfo = {},
+): string =>
+    JSON.stringify(
+        {
+            version: LEVEL_VERSION,
+            ...info,
+            pipes: pipes.map(p => ({
+                gapY: p.gapY,
+                gapHeight: p.gapHeight,
+                time: p.time / 1000,
+                ...(p.travelMs !== Constants.PIPE_TRAVEL_MS
+                    ? { travelTime: p.travelMs / 1000 }
+                    : {}),
+                ...(p.width !== Constants.PIPE_WIDTH ? { width: p.width } : {}),
+                ...(p.color !== Constants.PIPE_COLOR ? { color: p.color } : {}),
+                ...(p.oscillation
+                    ? {
+                          oscillation: {
+                              amplitude: p.oscillation.amplitude,
+                              period: p.oscillation.periodMs / 1000,
+                          },
+                      }
+                    : {}),
+                ...(p.pickup ? { pickup: p.pickup } : {}),
+            })),
+        },
+        null,
+        4,
+    );
@@ -0,0 +1,248 @@
+/**
+ * Local multiplayer: two birbs at once on the same course, or players taking
+ * turns at the same seed.
+ *
+ * In a match every player has a `State` of their own, all of them created
+ * alike and stepped together, so they fly through the same pipes while lives,
+ * scores and collisions stay apart. Flaps go to the player whose key was
+ * pressed; pausing and restarting go to everyone. A player whose run is over
+ * waits for the others, and the match ends once all of them are out.
+ *
+ * Hot-seat is single-player runs taken in turn: the seed does not change on
+ * a restart, so every player gets the same course and bounces, and the
+ * result of each turn is kept until everyone has played.
+ */
+
+import {
+    Observable,
+    filter,
+    merge,
+    scan,
+    startWith,
+    switchMap,
+    takeWhile,
+} from "rxjs";
+import { loadMap } from "./map";
+import { tick$ } from "./observable";
+import { resolveRules } from "./rules";
+import { applySignal, createInitialState, isGameEnd } from "./state";
+import type {
+    FrameSteps,
+    GameRules,
+    RunStats,
+    SeatAction,
+    State,
+} from "./types";
+
+/** Players of a local game */
+export const PLAYERS = 2;
+
+/** Every player's run, player 1 first */
+export type Match = readonly State[];
+
+/** What drives a match: a player's action or a tick of the game clock */
+export type MatchSignal = SeatAction | "Tick";
+
+/** Turns taken at the same seed, and how each went */
+export type HotSeat = Readonly<{
+    /** seat of the player whose turn it is */
+    turn: number;
+    /** result of each player's latest turn this round, player 1 first */
+    results: readonly (RunStats | undefined)[];
+}>;
+
+/** What starts a match */
+export type MatchOptions = Readonly<{
+    action$: Observable<SeatAction>;
+    clock$: Observable<FrameSteps>;
+    /** rules asked for, those of the map by default */
+    rules?: Partial<GameRules>;
+    seed?: number;
+    players?: number;
+}>;
+
+/**
+ * Name of a player.
+ *
+ * @param seat the player's seat
+ * @returns e.g. "P1"
+ */
+export const playerLabel = (seat: number): string => `P${seat + 1}`;
+
+/**
+ * A match with every player at the start.
+ *
+ * @param s state at the start of a run
+ * @param players number of players
+ * @returns the match
+ */
+export const startMatch = (s: State, players: number = PLAYERS): Match =>
+    Array.from({ length: players }, _ => s);
+
+/**
+ * A player's run for a step that left it alone, without the events of
+ * the step before.
+ *
+ * @param s the player's state
+ * @returns the state with no events
+ */
+const untouched = (s: State): State =>
+    s.events.length ? { ...s, events: [] } : s;
+
+/**
+ * Applies a signal to a match. Runs that are over are left as they are
+ * until the match is restarted.
+ *
+ * @param match every player's run
+ * @param signal tick, or a player's action
+ * @returns the runs after the signal
+ */
+export const applyMatchSignal = (match: Match, signal: MatchSignal): Match =>
+    match.map((s, seat) =>
+        signal !== "Tick" && signal.action === "restart"
+            ? applySignal(s, "restart")
+            : isGameEnd(s) ||
+                (signal !== "Tick" &&
+                    signal.action === "flap" &&
+                    signal.seat !== seat)
+              ? untouched(s)
+              : applySignal(s, signal === "Tick" ? "Tick" : signal.action),
+    );
+
+/**
+ * Is every player's run over?
+ *
+ * @param match every player's run
+ * @returns true once the match has ended
+ */
+export const isMatchOver = (match: Match): boolean => match.every(isGameEnd);
+
+/**
+ * The state the course, the HUD and the screens are shown from: the run of
+ * the first player still flying, or of player 1 once all are out. It carries
+ * the events of every player, so each one's flaps and hits are heard.
+ *
+ * @param match every player's run
+ * @returns state to show
+ */
+export const sceneOf = (match: Match): State => {
+    const lead = match.find(s => !isGameEnd(s)) ?? match[0];
+    return { ...lead, events: match.flatMap(s => s.events) };
+};
+
+/**
+ * Which player did best: the highest score, then the most lives left, then
+ * the longest time survived.
+ *
+ * @param results each player's run
+ * @returns seat of the winner, undefined for a draw
+ */
+export const matchWinner = (
+    results: readonly RunStats[],
+): number | undefined => {
+    const ranked = results
+        .map((r, seat) => ({ r, seat }))
+        .sort(
+            (a, b) =>
+                b.r.score - a.r.score ||
+                b.r.lives - a.r.lives ||
+                b.r.time - a.r.time,
+        );
+    const [best, next] = ranked;
+    return next &&
+        best.r.score === next.r.score &&
+        best.r.lives === next.r.lives &&
+        best.r.time === next.r.time
+        ? undefined
+        : best?.seat;
+};
+
+/**
+ * What the players are told once everyone has played.
+ *
+ * @param results each player's run, undefined for those yet to play
+ * @param label name of a player from their seat
+ * @returns e.g. "P2 wins!", empty until every player has played
+ */
+export const matchResult = (
+    results: readonly (RunStats | undefined)[],
+    label: (seat: number) => string = playerLabel,
+): string => {
+    if (results.some(r => r === undefined)) return "";
+    const winner = matchWinner(results as readonly RunStats[]);
+    return winner === undefined ? "Draw!" : `${label(winner)} wins!`;
+};
+
+/**
+ * Hot-seat before anyone has played.
+ *
+ * @param players number of players
+ * @returns player 1's turn
+ */
+export const startHotSeat = (players: number = PLAYERS): HotSeat => ({
+    turn: 0,
+    results: Array.from({ length: players }, _ => undefined),
+});
+
+/**
+ * Keeps the result of a finished turn and hands over to the next player.
+ * The first turn of a round clears the results of the one before.
+ *
+ * @param h turns so far
+ * @param stats how the turn went
+ * @returns the next player's turn
+ */
+export const takeTurn = (h: HotSeat, stats: RunStats): HotSeat => {
+    const previous = h.turn === 0 ? startHotSeat(h.results.length) : h;
+    return {
+        turn: (h.turn + 1) % h.results.length,
+        results: previous.results.map((r, seat) =>
+            seat === h.turn ? stats : r,
+        ),
+    };
+};
+
+/**
+ * Runs a local match in lockstep with the game clock.
+ *
+ * Matches are not recorded: they leave no replay, ghost or high score.
+ *
+ * @param csvContents contents of the map file
+ * @param options the players' actions, the clock and the rules
+ * @returns every player's run, starting again on every restart
+ */
+export const match$ = (
+    csvContents: string,
+    options: MatchOptions,
+): Observable<Match> => {
+    const level = loadMap(csvContents);
+    const rules = resolveRules(options.rules, level.info.win);
+    const seed = options.seed ?? performance.now(); // every restart is the same match
+    const start = startMatch(
+        createInitialState(
+            level.pipes,
+            seed,
+            [],
+            rules,
+            level.info.endless?.seed,
+        ),
+        options.players,
+    );
+    const restart$ = options.action$.pipe(
+        filter(({ action }) => action === "restart"),
+    );
+    const signal$: Observable<MatchSignal> = merge(
+        options.action$.pipe(filter(({ action }) => action !== "restart")),
+        tick$(options.clock$),
+    );
+
+    return restart$.pipe(
+        startWith(null), // the first match starts straight away
+        switchMap(() =>
+            signal$.pipe(
+                scan(applyMatchSignal, start),
+                takeWhile(m => !isMatchOver(m), true),
+            ),
+        ),
+    );
+};
@@ -0,0 +1,128 @@
+/**
+ * Functions to create the Observable streams that drive the game.
+ */
+
+import {
+    Observable,
+    animationFrameScheduler,
+    concatMap,
+    interval,
+    map,
+    scan,
+} from "rxjs";
+import {
+    Constants,
+    type FrameSteps,
+    type GameEvent,
+    type State,
+} from "./types";
+
+/**
+ * Turns frame timestamps into fixed-size simulation steps.
+ *
+ * Real time is collected in an accumulator and spent in whole steps of
+ * `stepMs`, so the simulation advances at the same rate whatever the frame
+ * rate. What is left over is reported as `alpha`, the fraction of a step to
+ * interpolate by when drawing. A gap longer than `maxFrameMs`, e.g. after the
+ * tab was in the background, only counts as `maxFrameMs`.
+ *
+ * @param time$ timestamps of frames in ms
+ * @param stepMs length of a simulation step in ms
+ * @param maxFrameMs longest frame that is simulated in full
+ * @returns steps to take and interpolation fraction, once per frame
+ */
+export const fixedSteps = (
+    time$: Observable<number>,
+    stepMs: number = Constants.TICK_RATE_MS,
+    maxFrameMs: number = Constants.MAX_FRAME_MS,
+): Observable<FrameSteps> =>
+    time$.pipe(
+        scan(
+            (acc, now) => {
+                const elapsed =
+                    acc.last === undefined
+                        ? 0
+                        : Math.min(Math.max(now - acc.last, 0), maxFrameMs);
+                const total = acc.leftover + elapsed;
+                const steps = Math.floor(total / stepMs);
+                const leftover = total - steps * stepMs;
+                return {
+                    last: now,
+                    leftover,
+                    frame: { steps, alpha: leftover / stepMs },
+                };
+            },
+            {
+                last: undefined as number | undefined,
+                leftover: 0,
+                frame: { steps: 0, alpha: 0 } as FrameSteps,
+            },
+        ),
+        map(acc => acc.frame),
+    );
+
+/**
+ * Slows down or speeds up frame timestamps. Each frame adds the real time
+ * since the previous one, times the rate read at that frame, so changing the
+ * rate never makes the clock jump.
+ *
+ * @param time$ timestamps of frames in ms
+ * @param rate speed of the game against real time, e.g. 0.25 for slow motion
+ * @returns game timestamps in ms, starting at the first frame's
+ */
+export const scaleTime = (
+    time$: Observable<number>,
+    rate: () => number,
+): Observable<number> =>
+    time$.pipe(
+        scan(
+            (acc, now) => ({
+                last: now,
+                scaled:
+                    acc.last === undefined
+                        ? now
+                        : acc.scaled + (now - acc.last) * rate(),
+            }),
+            { last: undefined as number | undefined, scaled: 0 },
+        ),
+        map(acc => acc.scaled),
+    );
+
+/**
+ * The game clock in the browser: fixed steps, counted once per animation frame.
+ *
+ * @param rate speed of the game against real time, read every frame
+ * @returns steps to take and interpolation fraction, once per frame
+ */
+export const frameClock$ = (
+    rate: () => number = () => 1,
+): Observable<FrameSteps> =>
+    fixedSteps(
+        scaleTime(
+            interval(0, animationFrameScheduler).pipe(
+                map(_ => performance.now()),
+            ),
+            rate,
+        ),
+    );
+
+/**
+ * One tick signal for every step of the clock.
+ *
+ * @param clock$ the game clock
+ * @returns a stream emitting once per simulation step
+ */
+export const tick$ = (clock$: Observable<FrameSteps>): Observable<"Tick"> =>
+    clock$.pipe(
+        concatMap(f => Array.from({ length: f.steps }, _ => "Tick" as const)),
+    );
+
+/**
+ * The events of a run as they happen, e.g. to play sounds or keep
+ * statistics without working them out again from the states.
+ *
+ * @param state$ states of the game, such as those of `state$`
+ * @returns every event of every state, in order
+ */
+export const gameEvent$ = (state$: Observable<State>): Observable<GameEvent> =>
+    state$.pipe(concatMap(s => s.events));
@@ -0,0 +1,105 @@
+/**
+ * Collectibles on the pipe course.
+ *
+ * A pipe can carry a pickup in the middle of its gap, placed by the map or
+ * rolled for by the endless course's `RNG`. The birb takes it by touching
+ * it: a coin is a bonus point, a shield takes the next hit (the birb goes
+ * through the pipe as it does after a hit), a life is one more life, and
+ * slow time slows the course down for a while.
+ */
+
+import { RNG } from "./util";
+import type { PickupKind, State } from "./types";
+
+/** Every kind of pickup, as written in maps */
+export const PICKUP_KINDS: readonly PickupKind[] = [
+    "coin",
+    "shield",
+    "life",
+    "slow",
+];
+
+/** How pickups look and what they do */
+export const Pickups = {
+    SIZE: 16, // px across
+    COIN_BONUS: 1, // points
+    SLOW_MS: 3000, // time of the run the course is slowed for
+    SLOW_FACTOR: 0.5, // speed of the course while slowed
+} as const;
+
+/** Chance of a generated pipe carrying each kind of pickup, none otherwise */
+const PickupOdds: Readonly<Record<PickupKind, number>> = {
+    coin: 0.15,
+    shield: 0.04,
+    life: 0.02,
+    slow: 0.04,
+};
+
+/** What a pickup changes of a run */
+export type PickupEffects = Pick<
+    State,
+    "bonus" | "birbLives" | "shield" | "slowUntil"
+>;
+
+/**
+ * Is this a kind of pickup?
+ *
+ * @param x value to check
+ * @returns true if x is a PickupKind
+ */
+export const isPickupKind = (x: unknown): x is PickupKind =>
+    PICKUP_KINDS.includes(x as PickupKind);
+
+/**
+ * Rolls for the pickup of a generated pipe.
+ *
+ * @param hash output of `RNG.hash`
+ * @returns the pickup, undefined for none
+ */
+export const randomPickup = (hash: number): PickupKind | undefined => {
+    const roll = (RNG.scale(hash) + 1) / 2; // in [0, 1]
+    return PICKUP_KINDS.find(
+        (_, i) =>
+            roll <
+            PICKUP_KINDS.slice(0, i + 1).reduce(
+                (sum, k) => sum + PickupOdds[k],
+                0,
+            ),
+    );
+};
+
+/**
+ * Takes a pickup.
+ *
+ * @param e effects so far in the run
+ * @param kind pickup taken
+ * @param t time of the run it is taken at
+ * @returns the effects with the pickup's
+ */
+export const collect = (
+    e: PickupEffects,
+    kind: PickupKind,
+    t: number,
+): PickupEffects =>
+    kind === "coin"
+        ? { ...e, bonus: e.bonus + Pickups.COIN_BONUS }
+        : kind === "shield"
+          ? { ...e, shield: true }
+          : kind === "life"
+            ? { ...e, birbLives: e.birbLives + 1 }
+            : { ...e, slowUntil: t + Pickups.SLOW_MS };
+
+/**
+ * The effects of pickups a run has on, for the HUD.
+ *
+ * @param s Current state
+ * @returns e.g. ["shield", "slow 2.4s"], empty if none
+ */
+export const activeEffects = (
+    s: Pick<State, "shield" | "slowUntil" | "elapsedTime">,
+): readonly string[] => [
+    ...(s.shield ? ["shield"] : []),
+    ...(s.elapsedTime < s.slowUntil
+        ? [`slow ${((s.slowUntil - s.elapsedTime) / 1000).toFixed(1)}s`]
+        : []),
+];
@@ -0,0 +1,84 @@
+/**
+ * Practice mode: starting a run at any pipe of its course, slowing the game
+ * down, and going back to the last pipe passed instead of losing the run.
+ * Practice runs are recorded and reviewed like any other, but are kept out
+ * of the high scores and the ghosts raced against.
+ */
+
+import { GeneratorDefaults } from "./generate";
+import { endlessPipesUntil } from "./state";
+import { passWindow } from "./solvable";
+import { Constants, type GameRules, type State } from "./types";
+
+/** How a practice run is played */
+export type Practice = Readonly<{
+    /** 0-based index of the pipe the run starts at */
+    fromPipe: number;
+    /** game speed, 1 for full speed */
+    speed: number;
+}>;
+
+/** Game speeds that can be practised at, the full speed first */
+export const PRACTICE_SPEEDS: readonly number[] = [1, 0.75, 0.5];
+
+/**
+ * Rules of a practice run, on top of those of the game.
+ *
+ * @param p how the run is practised
+ * @returns the rules it changes
+ */
+export const practiceRules = (p: Practice): Partial<GameRules> => ({
+    speed: p.speed,
+    checkpoints: true,
+});
+
+/**
+ * Is a run with these rules, started there, a practice run?
+ *
+ * @param rules rules of the run
+ * @param startAt time of the course the run started at, if not its start
+ * @returns true if its results are not to be counted
+ */
+export const isPractice = (rules: GameRules, startAt?: number): boolean =>
+    !!rules.checkpoints ||
+    (rules.speed ?? 1) !== 1 ||
+    (startAt !== undefined && startAt > 0);
+
+/**
+ * Time of a course to start a run at so that a pipe is the next one, a step
+ * after the birb got past the one before.
+ *
+ * @param s state at the start of the run, for its course
+ * @param fromPipe 0-based index of the pipe, the last one if there are fewer
+ * @returns time of the course in ms, 0 for the first pipe
+ */
+export const practiceStart = (s: State, fromPipe: number): number => {
+    const pipes = s.endless
+        ? endlessPipesUntil(
+              s.endless,
+              (fromPipe + 2) * GeneratorDefaults.POS_INTERVAL * 1000, // pipes come closer together as it goes
+          ).pipes
+        : s.course;
+    const before = pipes[Math.min(fromPipe, pipes.length - 1) - 1];
+    return before ? passWindow(before).leave + Constants.TICK_RATE_MS : 0;
+};
+
+/**
+ * Reads a practice run from URL parameters, e.g. `?practice=18&speed=0.5`
+ * to practise from the 18th pipe at half speed.
+ *
+ * @param params query parameters of the page
+ * @returns the practice asked for, undefined for a normal run
+ */
+export const practiceFromParams = (
+    params: URLSearchParams,
+): Practice | undefined => {
+    const pipe = Number(params.get("practice") || NaN); // NaN if missing or empty
+    const speed = Number(params.get("speed"));
+    return Number.isInteger(pipe) && pipe >= 1
+        ? {
+              fromPipe: pipe - 1,
+              speed: PRACTICE_SPEEDS.includes(speed) ? speed : 1,
+          }
+        : undefined;
+};
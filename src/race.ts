@@ -0,0 +1,643 @@
+/**
+ * Online races: players on other machines flying the same course at once.
+ *
+ * Every client runs the whole simulation itself from the seed and the map
+ * the relay server (`scripts/race_server.ts`) hands out at the start, so
+ * only flaps, timestamped by the game clock, go over the wire. The other
+ * racers are simulated again from their flaps and drawn as ghosts. Every
+ * few ticks each client also reports where its birb is; if a simulation of
+ * that birb has drifted from the report, it is put back in line with it.
+ *
+ * A rival is only known as far as its messages go, so it is simulated up to
+ * there, and from there to the player's own time as if it did not flap. A
+ * flap heard late corrects the guess on the next frame.
+ */
+
+import {
+    Observable,
+    distinctUntilChanged,
+    filter,
+    map,
+    merge,
+    scan,
+    skip,
+    startWith,
+    take,
+    takeWhile,
+} from "rxjs";
+import { MIN_RACERS } from "./lobby";
+import { loadMap } from "./map";
+import { gameEvent$ } from "./observable";
+import { resolveRules } from "./rules";
+import { statsOf } from "./screens";
+import {
+    applySignal,
+    courseTime,
+    createInitialState,
+    isGameEnd,
+} from "./state";
+import { Constants, type Ghost, type RunStats, type State } from "./types";
+
+/** Port the relay server listens on by default */
+export const RACE_PORT = 8787;
+
+/** Relay server the game connects to by default */
+export const DEFAULT_RACE_SERVER = `ws://localhost:${RACE_PORT}`;
+
+/** ms of the game clock between reports of a run */
+export const REPORT_MS = 6 * Constants.TICK_RATE_MS;
+
+/** ms a rival not heard from is guessed ahead, at most */
+export const MAX_GUESS_MS = 1000;
+
+/** Where a racer's birb is at a time of its run, to check others against */
+export type RunReport = Pick<
+    State,
+    | "elapsedTime"
+    | "birbPosition"
+    | "birbVelocity"
+    | "birbLives"
+    | "score"
+    | "gameOver"
+    | "rngSeed"
+    | "invincibleUntil"
+    | "bonus"
+    | "shield"
+    | "slowUntil"
+    | "courseLag"
+    | "phasingPipes"
+    | "flaps"
+    | "hits"
+>;
+
+/** A player in a race */
+export type Racer = Readonly<{ id: string; name: string }>;
+
+/** A player waiting in the lobby */
+export type LobbyEntry = Racer & Readonly<{ ready: boolean }>;
+
+/** How a racer's run went */
+export type RaceResult = Racer & Readonly<{ stats: RunStats }>;
+
+/** What a client tells the relay server */
+export type ClientMessage =
+    | Readonly<{
+          type: "join";
+          name: string;
+          /** contents of the map */ map: string;
+      }>
+    | Readonly<{ type: "ready"; ready: boolean }>
+    | Readonly<{
+          type: "input";
+          /** ms of the run */ t: number;
+          action: "flap";
+      }>
+    | Readonly<{ type: "report"; report: RunReport }>
+    | Readonly<{ type: "finished"; stats: RunStats }>;
+
+/** What the relay server tells a client */
+export type ServerMessage =
+    | Readonly<{ type: "welcome"; /** the client's own id */ id: string }>
+    | Readonly<{
+          type: "lobby";
+          players: readonly LobbyEntry[];
+          /** is a race being flown? */
+          racing: boolean;
+      }>
+    | Readonly<{
+          type: "start";
+          seed: number;
+          /** contents of the map */
+          map: string;
+          racers: readonly Racer[];
+      }>
+    | Readonly<{ type: "input"; from: string; t: number; action: "flap" }>
+    | Readonly<{ type: "report"; from: string; report: RunReport }>
+    | Readonly<{ type: "results"; results: readonly RaceResult[] }>
+    | Readonly<{ type: "error"; message: string }>;
+
+/** A start message, as a race is set off */
+export type RaceStart = Extract<ServerMessage, { type: "start" }>;
+
+/** Another racer, simulated from what they have sent */
+export type Rival = Readonly<{
+    racer: Racer;
+    /** their run, as far as it is known */
+    state: State;
+    /** time of the run their latest message was sent at */
+    known: number;
+    /** flaps and reports heard, for times not simulated yet */
+    inputs: readonly number[];
+    reports: readonly RunReport[];
+}>;
+
+/** The player's own run along with everyone else's */
+export type RaceView = Readonly<{ state: State; rivals: readonly Rival[] }>;
+
+/** What moves a race along: a state of the player's run or a message */
+export type RaceEvent =
+    | Readonly<{ type: "state"; state: State }>
+    | Readonly<{ type: "heard"; message: ServerMessage }>;
+
+/**
+ * The state every run of a race starts from, played by the rules of its map
+ * so that every racer plays by the same ones.
+ *
+ * @param start the race, as it was set off
+ * @returns the state at the start of every racer's run
+ */
+export const startOfRace = (start: RaceStart): State => {
+    const level = loadMap(start.map);
+    return createInitialState(
+        level.pipes,
+        start.seed,
+        [],
+        resolveRules(undefined, level.info.win),
+        level.info.endless?.seed,
+    );
+};
+
+/**
+ * What a player in the lobby is told.
+ *
+ * @param players everyone in the lobby
+ * @param self the player's own id
+ * @param racing is a race being flown?
+ * @returns what is being waited for
+ */
+export const lobbyStatus = (
+    players: readonly LobbyEntry[],
+    self: string,
+    racing: boolean,
+): string =>
+    racing
+        ? "A race is on, wait for it to finish"
+        : players.length < MIN_RACERS
+          ? "Waiting for someone to race"
+          : players.find(p => p.id === self)?.ready
+            ? "Waiting for everyone to be ready"
+            : "Press Play when ready";
+
+/**
+ * Where a run's birb is, to report.
+ *
+ * @param s state of the run, or a report to copy
+ * @returns its report, with nothing else in it
+ */
+export const reportOf = (s: RunReport): RunReport => ({
+    elapsedTime: s.elapsedTime,
+    birbPosition: s.birbPosition,
+    birbVelocity: s.birbVelocity,
+    birbLives: s.birbLives,
+    score: s.score,
+    gameOver: s.gameOver,
+    rngSeed: s.rngSeed,
+    invincibleUntil: s.invincibleUntil,
+    bonus: s.bonus,
+    shield: s.shield,
+    slowUntil: s.slowUntil,
+    courseLag: s.courseLag,
+    phasingPipes: s.phasingPipes,
+    flaps: s.flaps,
+    hits: s.hits,
+});
+
+/**
+ * Does a simulated run agree with what its racer reported?
+ *
+ * @param s the run as simulated, at the time of the report
+ * @param report what the racer reported
+ * @returns true if nothing differs
+ */
+export const agrees = (s: State, report: RunReport): boolean =>
+    JSON.stringify(reportOf(s)) === JSON.stringify(reportOf(report));
+
+/**
+ * Puts a simulated run back in line with its racer's report. The course is
+ * the same for everyone, so only the birb can differ.
+ *
+ * @param s the run as simulated, at the time of the report
+ * @param report what the racer reported
+ * @returns the run as reported
+ */
+export const reconcile = (s: State, report: RunReport): State =>
+    agrees(s, report) ? s : { ...s, ...reportOf(report) };
+
+/**
+ * A racer at the start of the race.
+ *
+ * @param racer who they are
+ * @param start state every run starts from
+ * @returns the rival
+ */
+export const startRival = (racer: Racer, start: State): Rival => ({
+    racer,
+    state: start,
+    known: 0,
+    inputs: [],
+    reports: [],
+});
+
+/**
+ * Applies what a rival did at the time their run is at: the report of the
+ * state they got to, then their flaps before the next tick. Anything heard
+ * too late for its time is applied straight away. A run that ended in the
+ * simulation while its racer went on is taken to their next report.
+ *
+ * @param r the rival
+ * @param limit time the run may be taken to
+ * @returns the rival with nothing left due
+ */
+const settle = (r: Rival, limit: number): Rival => {
+    const ahead = isGameEnd(r.state)
+        ? r.reports.find(
+              report =>
+                  report.elapsedTime > r.state.elapsedTime &&
+                  report.elapsedTime <= limit,
+          )
+        : undefined;
+    const t = ahead?.elapsedTime ?? r.state.elapsedTime;
+    const reported = r.reports
+        .filter(report => report.elapsedTime === t)
+        .reduce(reconcile, r.state);
+    const flapped = r.inputs
+        .filter(at => at <= t)
+        .reduce(s => applySignal(s, "flap"), reported);
+    return {
+        ...r,
+        state: flapped,
+        inputs: r.inputs.filter(at => at > t),
+        reports: r.reports.filter(report => report.elapsedTime > t),
+    };
+};
+
+/**
+ * Simulates a rival's run as far as it is known, but no further than the
+ * given time.
+ *
+ * @param r the rival
+ * @param until time of the player's own run
+ * @returns the rival at that time, or as far as they have been heard from
+ */
+export const advanceRival = (r: Rival, until: number): Rival => {
+    const limit = Math.min(until, r.known);
+    const ticks = Math.max(
+        Math.floor((limit - r.state.elapsedTime) / Constants.TICK_RATE_MS),
+        0,
+    );
+    return settle(
+        Array.from({ length: ticks }).reduce<Rival>(acc => {
+            const due = settle(acc, limit);
+            return due.state.elapsedTime + Constants.TICK_RATE_MS > limit
+                ? due // taken ahead to a report
+                : { ...due, state: applySignal(due.state, "Tick") };
+        }, r),
+        limit,
+    );
+};
+
+/**
+ * Keeps what a rival sent, to apply once their run gets to its time.
+ *
+ * @param r the rival
+ * @param message their flap or report
+ * @returns the rival having heard it
+ */
+export const hearRival = (
+    r: Rival,
+    message: Extract<ServerMessage, { type: "input" | "report" }>,
+): Rival =>
+    message.type === "input"
+        ? {
+              ...r,
+              known: Math.max(r.known, message.t),
+              inputs: [...r.inputs, message.t],
+          }
+        : {
+              ...r,
+              known: Math.max(r.known, message.report.elapsedTime),
+              reports: [...r.reports, message.report],
+          };
+
+/**
+ * A guess at where a rival is now, as if they did not flap since last heard
+ * from.
+ *
+ * @param r the rival
+ * @param now time of the player's own run
+ * @returns the rival's run at that time, or at most `MAX_GUESS_MS` ahead
+ */
+export const guessRival = (r: Rival, now: number): State =>
+    Array.from({
+        length: Math.max(
+            Math.floor(
+                Math.min(now - r.state.elapsedTime, MAX_GUESS_MS) /
+                    Constants.TICK_RATE_MS,
+            ),
+            0,
+        ),
+    }).reduce<State>(s => applySignal(s, "Tick"), r.state);
+
+/**
+ * The player's run with every rival in it as a ghost, so they are drawn and
+ * compared against like ghosts of earlier runs.
+ *
+ * @param s state of the player's run
+ * @param rivals the other racers
+ * @returns the state to show
+ */
+export const withRivals = (s: State, rivals: readonly Rival[]): State => {
+    const guesses = rivals.map(r => guessRival(r, s.elapsedTime));
+    const ghosts: readonly Ghost[] = rivals.map((r, i) => ({
+        id: `racer-${r.racer.id}`,
+        label: r.racer.name,
+        mapHash: "",
+        score: guesses[i].score,
+        path: [
+            {
+                t: courseTime(guesses[i], guesses[i].elapsedTime),
+                y: guesses[i].birbPosition,
+            },
+        ],
+    }));
+    return {
+        ...s,
+        ghosts: [...s.ghosts, ...ghosts],
+        ghostBirbPos: [
+            ...s.ghostBirbPos,
+            ...guesses.map(g => (isGameEnd(g) ? undefined : g.birbPosition)),
+        ],
+    };
+};
+
+/**
+ * Moves a race along: every rival is simulated up to the player's run, and
+ * racers who left the lobby are dropped.
+ *
+ * @param view the race so far
+ * @param e a state of the player's run, or a message from the server
+ * @returns the race after it
+ */
+export const applyRaceEvent = (view: RaceView, e: RaceEvent): RaceView => {
+    if (e.type === "state")
+        return {
+            state: e.state,
+            rivals: view.rivals.map(r => advanceRival(r, e.state.elapsedTime)),
+        };
+    const message = e.message;
+    return message.type === "input" || message.type === "report"
+        ? {
+              ...view,
+              rivals: view.rivals.map(r =>
+                  r.racer.id === message.from
+                      ? advanceRival(
+                            hearRival(r, message),
+                            view.state.elapsedTime,
+                        )
+                      : r,
+              ),
+          }
+        : message.type === "lobby"
+          ? {
+                ...view,
+                rivals: view.rivals.filter(r =>
+                    message.players.some(p => p.id === r.racer.id),
+                ),
+            }
+          : view;
+};
+
+/**
+ * The messages a run sends to the other racers: its flaps, a report every
+ * `REPORT_MS`, and how it went once it is over.
+ *
+ * @param run$ states of the player's run, shared
+ * @returns messages for the relay server
+ */
+export const raceMessage$ = (
+    run$: Observable<State>,
+): Observable<ClientMessage> =>
+    merge(
+        gameEvent$(run$).pipe(
+            filter(e => e.type === "flap"),
+            map(e => ({ type: "input", t: e.t, action: "flap" }) as const),
+        ),
+        run$.pipe(
+            takeWhile(s => !isGameEnd(s), true),
+            distinctUntilChanged((a, b) => a.elapsedTime === b.elapsedTime), // the state the tick got to, before any flap
+            filter(
+                s =>
+                    s.elapsedTime > 0 && // everyone knows the start
+                    (s.elapsedTime % REPORT_MS === 0 || isGameEnd(s)),
+            ),
+            map(s => ({ type: "report", report: reportOf(s) }) as const),
+        ),
+        run$.pipe(
+            filter(isGameEnd),
+            take(1),
+            map(s => ({ type: "finished", stats: statsOf(s) }) as const),
+        ),
+    );
+
+/**
+ * The player's run along with the other racers, simulated from what they
+ * send.
+ *
+ * @param run$ states of the player's run
+ * @param heard$ messages from the relay server
+ * @param start the race, as it was set off
+ * @param self the player's own id
+ * @returns the player's run and the rivals, once for every state of the run
+ */
+export const raceView$ = (
+    run$: Observable<State>,
+    heard$: Observable<ServerMessage>,
+    start: RaceStart,
+    self: string,
+): Observable<RaceView> => {
+    const initial = startOfRace(start);
+    const view: RaceView = {
+        state: initial,
+        rivals: start.racers
+            .filter(r => r.id !== self)
+            .map(r => startRival(r, initial)),
+    };
+    return merge(
+        run$.pipe(map(state => ({ type: "state", state }) as const)),
+        heard$.pipe(map(message => ({ type: "heard", message }) as const)),
+    ).pipe(
+        scan(applyRaceEvent, view),
+        startWith(view),
+        distinctUntilChanged((a, b) => a.state === b.state), // once for every state of the run, so its events are not repeated
+        skip(1),
+    );
+};
+
+/**
+ * Is this the report of a run?
+ *
+ * @param x value to check
+ * @returns true if x is a RunReport
+ */
+export const isRunReport = (x: unknown): x is RunReport =>
+    typeof x === "object" &&
+    x !== null &&
+    [
+        "elapsedTime",
+        "birbPosition",
+        "birbVelocity",
+        "birbLives",
+        "score",
+        "rngSeed",
+        "invincibleUntil",
+        "bonus",
+        "slowUntil",
+        "courseLag",
+        "flaps",
+        "hits",
+    ].every(
+        k => k in x && Number.isFinite((x as Record<string, unknown>)[k]),
+    ) &&
+    "gameOver" in x &&
+    typeof x.gameOver === "boolean" &&
+    "shield" in x &&
+    typeof x.shield === "boolean" &&
+    "phasingPipes" in x &&
+    Array.isArray(x.phasingPipes) &&
+    x.phasingPipes.every(Number.isFinite);
+
+/**
+ * Is this how a run went?
+ *
+ * @param x value to check
+ * @returns true if x is RunStats
+ */
+const isRunStats = (x: unknown): x is RunStats =>
+    typeof x === "object" &&
+    x !== null &&
+    ["score", "lives", "time", "flaps", "hits"].every(
+        k => k in x && Number.isFinite((x as Record<string, unknown>)[k]),
+    );
+
+/**
+ * Is this a racer?
+ *
+ * @param x value to check
+ * @returns true if x is a Racer
+ */
+const isRacer = (x: unknown): x is Racer =>
+    typeof x === "object" &&
+    x !== null &&
+    "id" in x &&
+    typeof x.id === "string" &&
+    "name" in x &&
+    typeof x.name === "string";
+
+/**
+ * Is this the time of a flap?
+ *
+ * @param x value to check
+ * @returns true if x is ms of a run at a tick
+ */
+const isTickTime = (x: unknown): x is number =>
+    typeof x === "number" && x >= 0 && x % Constants.TICK_RATE_MS === 0;
+
+/**
+ * Is this a message a client may send?
+ *
+ * @param x message received, parsed from JSON
+ * @returns true if x is a ClientMessage
+ */
+export const isClientMessage = (x: unknown): x is ClientMessage => {
+    if (typeof x !== "object" || x === null || !("type" in x)) return false;
+    switch (x.type) {
+        case "join":
+            return (
+                "name" in x &&
+                typeof x.name === "string" &&
+                "map" in x &&
+                typeof x.map === "string"
+            );
+        case "ready":
+            return "ready" in x && typeof x.ready === "boolean";
+        case "input":
+            return (
+                "t" in x &&
+                isTickTime(x.t) &&
+                "action" in x &&
+                x.action === "flap"
+            );
+        case "report":
+            return "report" in x && isRunReport(x.report);
+        case "finished":
+            return "stats" in x && isRunStats(x.stats);
+        default:
+            return false;
+    }
+};
+
+/**
+ * Is this a message the server may send?
+ *
+ * @param x message received, parsed from JSON
+ * @returns true if x is a ServerMessage
+ */
+export const isServerMessage = (x: unknown): x is ServerMessage => {
+    if (typeof x !== "object" || x === null || !("type" in x)) return false;
+    switch (x.type) {
+        case "welcome":
+            return "id" in x && typeof x.id === "string";
+        case "lobby":
+            return (
+                "players" in x &&
+                Array.isArray(x.players) &&
+                x.players.every(
+                    (p: unknown) =>
+                        isRacer(p) &&
+                        "ready" in p &&
+                        typeof p.ready === "boolean",
+                ) &&
+                "racing" in x &&
+                typeof x.racing === "boolean"
+            );
+        case "start":
+            return (
+                "seed" in x &&
+                Number.isSafeInteger(x.seed) &&
+                "map" in x &&
+                typeof x.map === "string" &&
+                "racers" in x &&
+                Array.isArray(x.racers) &&
+                x.racers.every(isRacer)
+            );
+        case "input":
+            return (
+                "from" in x &&
+                typeof x.from === "string" &&
+                "t" in x &&
+                isTickTime(x.t) &&
+                "action" in x &&
+                x.action === "flap"
+            );
+        case "report":
+            return (
+                "from" in x &&
+                typeof x.from === "string" &&
+                "report" in x &&
+                isRunReport(x.report)
+            );
+        case "results":
+            return (
+                "results" in x &&
+                Array.isArray(x.results) &&
+                x.results.every(
+                    (r: unknown) =>
+                        isRacer(r) && "stats" in r && isRunStats(r.stats),
+                )
+            );
+        case "error":
+            return "message" in x && typeof x.message === "string";
+        default:
+            return false;
+    }
+};
@@ -0,0 +1,200 @@
+/**
+ * Recording and playback of runs.
+ *
+ * A replay stores the seed, the map, the rules, the ghosts raced against and
+ * every player action timestamped by the game clock. Since the simulation is
+ * deterministic, feeding those actions back between the same ticks reproduces
+ * the exact same sequence of states.
+ */
+
+import { Observable, concatMap, takeWhile } from "rxjs";
+import { isGhost } from "./ghosts";
+import { tick$ } from "./observable";
+import { isGameRules } from "./rules";
+import {
+    Constants,
+    type FrameSteps,
+    type GameRules,
+    type Ghost,
+    type InputRecord,
+    type Action,
+    type Replay,
+    type Signal,
+} from "./types";
+import { hashString } from "./util";
+
+/** Version written into every replay, bumped when the format changes */
+export const REPLAY_VERSION = 5;
+
+/**
+ * Bundles a recorded run into a replay.
+ *
+ * @param seed seed of the run
+ * @param map contents of the map file
+ * @param ghosts ghosts raced against
+ * @param inputs actions of the run in order
+ * @param rules rules the run was played by
+ * @param startAt time of the course the run started at, if not its start
+ * @returns replay of the run
+ */
+export const createReplay = (
+    seed: number,
+    map: string,
+    ghosts: readonly Ghost[],
+    inputs: readonly InputRecord[],
+    rules?: GameRules,
+    startAt?: number,
+): Replay => ({
+    version: REPLAY_VERSION,
+    seed,
+    map,
+    ghosts,
+    inputs,
+    rules,
+    startAt,
+});
+
+/**
+ * Serialises a replay for saving to a file.
+ *
+ * @param r replay to save
+ * @returns JSON text of the replay
+ */
+export const serialiseReplay = (r: Replay): string => JSON.stringify(r);
+
+/** Actions of the keys recorded by replays before version 4 */
+const LegacyKeys: Readonly<Record<string, Action>> = {
+    Space: "flap",
+    KeyP: "pause",
+    KeyR: "restart",
+};
+
+/**
+ * Is this one of the player's actions?
+ *
+ * @param a value to check
+ * @returns true if a is an Action
+ */
+const isAction = (a: unknown): a is Action =>
+    a === "flap" || a === "pause" || a === "restart" || a === "step";
+
+/**
+ * Reads a timestamped action, or a key press of an older replay.
+ *
+ * @param x value to read
+ * @param version version of the replay
+ * @returns the input, undefined if x is not one
+ */
+const readInput = (x: unknown, version: number): InputRecord | undefined => {
+    if (typeof x !== "object" || x === null) return undefined;
+    if (!("t" in x) || typeof x.t !== "number" || !Number.isFinite(x.t))
+        return undefined;
+    const action =
+        version < 4
+            ? "key" in x && typeof x.key === "string"
+                ? LegacyKeys[x.key]
+                : undefined
+            : "action" in x
+              ? x.action
+              : undefined;
+    return isAction(action) ? { t: x.t, action } : undefined;
+};
+
+/**
+ * Reads a replay saved by `serialiseReplay`. Version 1 replays, which held
+ * the path of a single ghost, version 2 replays, which were played by the
+ * map's rules, version 3 replays, which logged keys instead of actions, and
+ * version 4 replays, which always started at the start of the course, are
+ * still accepted.
+ *
+ * @param json JSON text of the replay
+ * @returns the replay
+ * @throws Error if the text is not a replay of a supported version
+ */
+export const parseReplay = (json: string): Replay => {
+    const data: unknown = JSON.parse(json);
+    if (typeof data !== "object" || data === null)
+        throw new Error("Replay must be a JSON object");
+    const version = "version" in data ? data.version : undefined;
+    if (
+        version !== REPLAY_VERSION &&
+        version !== 4 &&
+        version !== 3 &&
+        version !== 2 &&
+        version !== 1
+    )
+        throw new Error(`Unsupported replay version: ${version ?? "none"}`);
+    if (!("seed" in data) || typeof data.seed !== "number")
+        throw new Error("Replay is missing its seed");
+    if (!("map" in data) || typeof data.map !== "string")
+        throw new Error("Replay is missing its map");
+    const inputs =
+        "inputs" in data && Array.isArray(data.inputs)
+            ? data.inputs.map(x => readInput(x, version))
+            : [undefined];
+    if (!inputs.every(x => x !== undefined))
+        throw new Error("Replay has an invalid input log");
+    const ghosts: unknown =
+        version === 1
+            ? "ghost" in data && data.ghost !== undefined
+                ? [
+                      {
+                          id: "ghost",
+                          label: "Ghost",
+                          mapHash: hashString(data.map),
+                          score: 0,
+                          path: data.ghost,
+                      },
+                  ]
+                : []
+            : "ghosts" in data
+              ? data.ghosts
+              : undefined;
+    if (!Array.isArray(ghosts) || !ghosts.every(isGhost))
+        throw new Error("Replay has an invalid ghost");
+    const rules: unknown = "rules" in data ? data.rules : undefined;
+    if (version >= 3 && !isGameRules(rules))
+        throw new Error("Replay has invalid rules");
+    const startAt: unknown = "startAt" in data ? data.startAt : undefined;
+    if (
+        startAt !== undefined &&
+        !(typeof startAt === "number" && Number.isFinite(startAt))
+    )
+        throw new Error("Replay has an invalid start time");
+    return createReplay(
+        data.seed,
+        data.map,
+        ghosts,
+        inputs,
+        isGameRules(rules) ? rules : undefined,
+        startAt,
+    );
+};
+
+/**
+ * Plays a replay back in real time as the signals of its run.
+ *
+ * Actions are emitted right before the tick they preceded when recorded.
+ * The stream completes at a recorded restart, where the original run ended.
+ *
+ * @param r replay to play
+ * @param clock$ game clock to play at
+ * @returns signals of the recorded run
+ */
+export const replaySignal$ = (
+    r: Replay,
+    clock$: Observable<FrameSteps>,
+): Observable<Signal> => {
+    const actionsAtTick = r.inputs.reduce(
+        (acc, { t, action }) => {
+            const tick = Math.round(t / Constants.TICK_RATE_MS);
+            return { ...acc, [tick]: [...(acc[tick] ?? []), action] };
+        },
+        {} as Readonly<Record<number, readonly Action[]>>,
+    );
+
+    return tick$(clock$).pipe(
+        concatMap((_, i) => [...(actionsAtTick[i] ?? []), "Tick" as const]),
+        takeWhile(signal => signal !== "restart"),
+    );
+};
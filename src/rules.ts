@@ -0,0 +1,168 @@
+/**
+ * Game rules: how many lives a run starts with, how it is won, what costs a
+ * life and how hard the birb bounces. A level sets its own win condition,
+ * and the game can override any rule, e.g. for a demo or practice variant.
+ */
+
+import { TIGHT_HITBOX } from "./collision";
+import { DEFAULT_RULES } from "./state";
+import type { Box, GameRules, WinCondition } from "./types";
+
+/**
+ * Works out the rules of a run.
+ *
+ * @param overrides rules chosen for the game
+ * @param levelWin win condition of the level, if it has one
+ * @returns complete rules, the defaults where nothing else is said
+ */
+export const resolveRules = (
+    overrides: Partial<GameRules> = {},
+    levelWin?: WinCondition,
+): GameRules => ({
+    ...DEFAULT_RULES,
+    win: levelWin ?? DEFAULT_RULES.win,
+    ...overrides,
+});
+
+/**
+ * Are these the rules a run gets when the game changes none of them? Runs by
+ * other rules, e.g. `?lives=99`, are not comparable with the others.
+ *
+ * @param rules rules of a run
+ * @param levelWin win condition of the level, if it has one
+ * @returns true if every rule is the level's default
+ */
+export const hasDefaultRules = (
+    rules: GameRules,
+    levelWin?: WinCondition,
+): boolean => {
+    const defaults: Record<string, unknown> = resolveRules({}, levelWin);
+    const given: Record<string, unknown> = rules;
+    return [
+        ...new Set([...Object.keys(defaults), ...Object.keys(given)]),
+    ].every(
+        key => JSON.stringify(given[key]) === JSON.stringify(defaults[key]),
+    );
+};
+
+/**
+ * Is this a positive whole number?
+ *
+ * @param x value to check
+ * @returns true if x is a whole number of at least 1
+ */
+const isCount = (x: unknown): x is number =>
+    typeof x === "number" && Number.isInteger(x) && x >= 1;
+
+/**
+ * Is this a number of at least 0?
+ *
+ * @param x value to check
+ * @returns true if x is finite and not negative
+ */
+const isAmount = (x: unknown): x is number =>
+    typeof x === "number" && Number.isFinite(x) && x >= 0;
+
+/**
+ * Is this a win condition?
+ *
+ * @param x value to check
+ * @returns true if x is a WinCondition
+ */
+const isWinCondition = (x: unknown): x is WinCondition =>
+    typeof x === "object" &&
+    x !== null &&
+    "type" in x &&
+    (x.type === "allPipes" ||
+        x.type === "none" ||
+        (x.type === "score" && "score" in x && isCount(x.score)));
+
+/**
+ * Is this a box with a size?
+ *
+ * @param x value to check
+ * @returns true if x is a Box of positive width and height
+ */
+const isBox = (x: unknown): x is Box =>
+    typeof x === "object" &&
+    x !== null &&
+    "x" in x &&
+    Number.isFinite(x.x) &&
+    "y" in x &&
+    Number.isFinite(x.y) &&
+    "width" in x &&
+    typeof x.width === "number" &&
+    x.width > 0 &&
+    "height" in x &&
+    typeof x.height === "number" &&
+    x.height > 0;
+
+/**
+ * Are these complete game rules?
+ *
+ * @param x value to check
+ * @returns true if x is GameRules
+ */
+export const isGameRules = (x: unknown): x is GameRules =>
+    typeof x === "object" &&
+    x !== null &&
+    "lives" in x &&
+    isCount(x.lives) &&
+    "win" in x &&
+    isWinCondition(x.win) &&
+    "canvasHitsCostLife" in x &&
+    typeof x.canvasHitsCostLife === "boolean" &&
+    "invincibilityMs" in x &&
+    isAmount(x.invincibilityMs) &&
+    "bounce" in x &&
+    typeof x.bounce === "object" &&
+    x.bounce !== null &&
+    "mean" in x.bounce &&
+    isAmount(x.bounce.mean) &&
+    "spread" in x.bounce &&
+    isAmount(x.bounce.spread) &&
+    (!("hitbox" in x) || x.hitbox === undefined || isBox(x.hitbox)) &&
+    (!("speed" in x) ||
+        x.speed === undefined ||
+        (isAmount(x.speed) && x.speed > 0)) &&
+    (!("checkpoints" in x) ||
+        x.checkpoints === undefined ||
+        typeof x.checkpoints === "boolean");
+
+/**
+ * Reads rule overrides from URL parameters, e.g.
+ * `?lives=5&win=all&canvasHits=free&invincible=1000&bounce=6,2&hitbox=tight`.
+ * Parameters that are missing or not understood are left to the defaults.
+ *
+ * @param params query parameters of the page
+ * @returns the rules given
+ */
+export const rulesFromParams = (
+    params: URLSearchParams,
+): Partial<GameRules> => {
+    const lives = Number(params.get("lives"));
+    const win = params.get("win");
+    const winScore = Number(win);
+    const invincible = Number(params.get("invincible"));
+    const [mean, spread] = (params.get("bounce") ?? "").split(",").map(Number);
+    return {
+        ...(isCount(lives) ? { lives } : {}),
+        ...(win === "all"
+            ? { win: { type: "allPipes" } }
+            : win === "none"
+              ? { win: { type: "none" } }
+              : isCount(winScore)
+                ? { win: { type: "score", score: winScore } }
+                : {}),
+        ...(params.get("canvasHits") === "free"
+            ? { canvasHitsCostLife: false }
+            : {}),
+        ...(params.has("invincible") && isAmount(invincible)
+            ? { invincibilityMs: invincible }
+            : {}),
+        ...(isAmount(mean) && isAmount(spread)
+            ? { bounce: { mean, spread } }
+            : {}),
+        ...(params.get("hitbox") === "tight" ? { hitbox: TIGHT_HITBOX } : {}),
+    };
+};
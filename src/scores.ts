@@ -0,0 +1,222 @@
+/**
+ * High scores: the best finished runs of every map and mode.
+ *
+ * Each map (told apart by the hash of its file) and mode has its own table,
+ * ranked by score, then lives left, then time. Scores are saved in local
+ * storage, and can be exported to and imported from JSON files.
+ */
+
+import type { Mode, ScoreEntry } from "./types";
+
+/** Version written into every score file, bumped when the format changes */
+export const SCORE_FILE_VERSION = 1;
+
+/** Most runs kept in each table */
+export const MAX_SCORES = 10;
+
+/** Name used until the player gives one */
+export const DEFAULT_NAME = "Player";
+
+/** Local storage keys */
+const StorageKeys = {
+    SCORES: "flappyBirb.scores",
+    NAME: "flappyBirb.playerName",
+} as const;
+
+/** The part of the Web Storage API used to persist scores */
+export type ScoreStorage = Pick<Storage, "getItem" | "setItem">;
+
+/** Saved scores after a run, and where the run came in its table */
+export type ScoreResult = Readonly<{
+    entries: readonly ScoreEntry[];
+    /** 0-based rank of the run, undefined if it did not make the table */
+    rank: number | undefined;
+}>;
+
+/**
+ * Orders runs from best to worst.
+ *
+ * @param a a run
+ * @param b another run
+ * @returns negative if a ranks above b, positive if below
+ */
+const compareRuns = (a: ScoreEntry, b: ScoreEntry): number =>
+    b.score - a.score || b.lives - a.lives || a.time - b.time;
+
+/**
+ * Are two entries the same run, e.g. imported twice?
+ *
+ * @param a an entry
+ * @param b another entry
+ * @returns true if every field is equal
+ */
+const sameRun = (a: ScoreEntry, b: ScoreEntry): boolean =>
+    a.mapHash === b.mapHash &&
+    a.mode === b.mode &&
+    a.name === b.name &&
+    a.date === b.date &&
+    a.score === b.score &&
+    a.lives === b.lives &&
+    a.time === b.time &&
+    a.flaps === b.flaps &&
+    a.hits === b.hits;
+
+/**
+ * The high-score table of a map and mode.
+ *
+ * @param entries saved scores
+ * @param mapHash hash of the map
+ * @param mode way of playing
+ * @returns the table, best first
+ */
+export const scoresFor = (
+    entries: readonly ScoreEntry[],
+    mapHash: string,
+    mode: Mode,
+): readonly ScoreEntry[] =>
+    entries
+        .filter(e => e.mapHash === mapHash && e.mode === mode)
+        .sort(compareRuns);
+
+/**
+ * Keeps only the best runs of every table.
+ *
+ * @param entries scores to trim
+ * @returns at most MAX_SCORES entries for each map and mode
+ */
+const trimTables = (entries: readonly ScoreEntry[]): readonly ScoreEntry[] =>
+    entries.filter(
+        e => scoresFor(entries, e.mapHash, e.mode).indexOf(e) < MAX_SCORES,
+    );
+
+/**
+ * Adds a finished run to its table.
+ *
+ * @param entries saved scores
+ * @param run the finished run
+ * @returns updated scores and the rank of the run
+ */
+export const recordScore = (
+    entries: readonly ScoreEntry[],
+    run: ScoreEntry,
+): ScoreResult => {
+    const kept = trimTables([...entries, run]);
+    const rank = scoresFor(kept, run.mapHash, run.mode).indexOf(run);
+    return { entries: kept, rank: rank < 0 ? undefined : rank };
+};
+
+/**
+ * Is this a high-score entry?
+ *
+ * @param x value to check
+ * @returns true if x is a ScoreEntry
+ */
+export const isScoreEntry = (x: unknown): x is ScoreEntry =>
+    typeof x === "object" &&
+    x !== null &&
+    "mapHash" in x &&
+    typeof x.mapHash === "string" &&
+    "mode" in x &&
+    (x.mode === "map" || x.mode === "endless") &&
+    "name" in x &&
+    typeof x.name === "string" &&
+    "date" in x &&
+    Number.isFinite(x.date) &&
+    ["score", "lives", "time", "flaps", "hits"].every(
+        k => k in x && Number.isFinite((x as Record<string, unknown>)[k]),
+    );
+
+/**
+ * Serialises scores for exporting to a file.
+ *
+ * @param entries scores to export
+ * @returns JSON text of the score file
+ */
+export const serialiseScores = (entries: readonly ScoreEntry[]): string =>
+    JSON.stringify({ version: SCORE_FILE_VERSION, scores: entries });
+
+/**
+ * Reads a score file written by `serialiseScores`.
+ *
+ * @param json JSON text of the score file
+ * @returns the scores in the file
+ * @throws Error if the text is not a score file of a supported version
+ */
+export const parseScores = (json: string): readonly ScoreEntry[] => {
+    const data: unknown = JSON.parse(json);
+    if (typeof data !== "object" || data === null)
+        throw new Error("Score file must be a JSON object");
+    if (!("version" in data) || data.version !== SCORE_FILE_VERSION)
+        throw new Error(
+            `Unsupported score file version: ${"version" in data ? data.version : "none"}`,
+        );
+    if (
+        !("scores" in data) ||
+        !Array.isArray(data.scores) ||
+        !data.scores.every(isScoreEntry)
+    )
+        throw new Error("Score file has an invalid score");
+    return data.scores;
+};
+
+/**
+ * Merges imported scores into the saved ones, skipping runs already saved.
+ *
+ * @param entries saved scores
+ * @param imported scores read from a file
+ * @returns merged scores, trimmed to the best of every table
+ */
+export const importScores = (
+    entries: readonly ScoreEntry[],
+    imported: readonly ScoreEntry[],
+): readonly ScoreEntry[] =>
+    trimTables(
+        imported.reduce(
+            (acc, e) => (acc.some(o => sameRun(o, e)) ? acc : [...acc, e]),
+            entries,
+        ),
+    );
+
+/**
+ * Loads the saved scores. A missing or corrupt entry counts as no scores.
+ *
+ * @param storage where scores are persisted
+ * @returns saved scores
+ */
+export const loadScores = (storage: ScoreStorage): readonly ScoreEntry[] => {
+    try {
+        const saved = storage.getItem(StorageKeys.SCORES);
+        return saved ? parseScores(saved) : [];
+    } catch {
+        return [];
+    }
+};
+
+/**
+ * Saves the scores.
+ *
+ * @param storage where scores are persisted
+ * @param entries scores to save
+ */
+export const saveScores = (
+    storage: ScoreStorage,
+    entries: readonly ScoreEntry[],
+): void => storage.setItem(StorageKeys.SCORES, serialiseScores(entries));
+
+/**
+ * Loads the player's name.
+ *
+ * @param storage where the name is persisted
+ * @returns the name, DEFAULT_NAME if none was saved
+ */
+export const loadName = (storage: ScoreStorage): string =>
+    storage.getItem(StorageKeys.NAME)?.trim() || DEFAULT_NAME;
+
+/**
+ * Saves the player's name.
+ *
+ * @param storage where the name is persisted
+ * @param name name to show in the scores
+ */
+export const saveName = (storage: ScoreStorage, name: string): void =>
+    storage.setItem(StorageKeys.NAME, name.trim());
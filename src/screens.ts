@@ -0,0 +1,135 @@
+/**
+ * The flow of screens around a run: the title, a 3-2-1 countdown, playing,
+ * the pause overlay and the results, and the map editor opened from the title.
+ *
+ * Which screen is up follows the state stream: a paused state brings up the
+ * pause overlay, the end of a run the results, and any other state means the
+ * game is being played, so an instant restart (or a replay loaded from the
+ * title) goes straight back to playing. The title and the countdown come
+ * before a run has any state, so they are driven by the countdown and by the
+ * player quitting, and the editor by being opened. The overlays themselves
+ * are drawn by `renderScreen`.
+ */
+
+import { Observable, map, scan, startWith, takeWhile } from "rxjs";
+import { isPractice } from "./practice";
+import { hasWon, isGameEnd } from "./state";
+import { Constants, type FrameSteps, type RunStats, type State } from "./types";
+
+/** What is shown over the canvas */
+export type Screen =
+    | Readonly<{ kind: "title" }>
+    | Readonly<{ kind: "countdown"; /** ms left */ ms: number }>
+    | Readonly<{ kind: "playing" }>
+    | Readonly<{ kind: "paused" }>
+    | Readonly<{
+          kind: "results";
+          won: boolean;
+          stats: RunStats;
+          /** practice runs are marked as not counted */
+          practice: boolean;
+      }>
+    | Readonly<{ kind: "editing" }>;
+
+/** What moves from one screen to another */
+export type ScreenEvent =
+    | Readonly<{ type: "countdown"; /** ms left */ ms: number }>
+    | Readonly<{ type: "state"; state: State }>
+    | Readonly<{ type: "quit" }>
+    | Readonly<{ type: "edit" }>;
+
+/** ms counted down before a run starts */
+export const COUNTDOWN_MS = 3000;
+
+/** The screen the game opens on */
+export const TITLE: Screen = { kind: "title" };
+
+/** The map editor */
+export const EDITING: Screen = { kind: "editing" };
+
+/**
+ * What a run ended with.
+ *
+ * @param s state of the run
+ * @returns its score with the coins' bonus, lives left, time, flaps and hits
+ */
+export const statsOf = (s: State): RunStats => ({
+    score: s.score + s.bonus,
+    lives: s.birbLives,
+    time: s.elapsedTime,
+    flaps: s.flaps,
+    hits: s.hits,
+});
+
+/**
+ * The screen a state of the game is played on.
+ *
+ * @param s latest state
+ * @returns results once the run is over, the pause overlay while paused
+ */
+const screenOf = (s: State): Screen =>
+    isGameEnd(s)
+        ? {
+              kind: "results",
+              won: hasWon(s),
+              stats: statsOf(s),
+              practice: isPractice(s.rules),
+          }
+        : s.paused
+          ? { kind: "paused" }
+          : { kind: "playing" };
+
+/**
+ * Moves from one screen to the next. The screen is returned as it is when
+ * nothing changes, so repeats can be dropped by reference.
+ *
+ * @param screen screen shown
+ * @param e what happened
+ * @returns screen to show
+ */
+export const nextScreen = (screen: Screen, e: ScreenEvent): Screen => {
+    const next: Screen =
+        e.type === "quit"
+            ? TITLE
+            : e.type === "edit"
+              ? EDITING
+              : e.type === "countdown"
+                ? e.ms > 0
+                    ? { kind: "countdown", ms: e.ms }
+                    : { kind: "playing" }
+                : screenOf(e.state);
+    return next.kind === screen.kind &&
+        (next.kind === "playing" ||
+            next.kind === "paused" ||
+            next.kind === "title" ||
+            next.kind === "editing")
+        ? screen
+        : next;
+};
+
+/**
+ * Counts down with the game clock, so a slowed down game counts slower too.
+ *
+ * @param clock$ the game clock
+ * @param ms ms to count down from
+ * @returns ms left at every frame, ending with 0
+ */
+export const countdown$ = (
+    clock$: Observable<FrameSteps>,
+    ms: number = COUNTDOWN_MS,
+): Observable<number> =>
+    clock$.pipe(
+        scan((left, { steps }) => left - steps * Constants.TICK_RATE_MS, ms),
+        map(left => Math.max(left, 0)),
+        startWith(ms),
+        takeWhile(left => left > 0, true),
+    );
+
+/**
+ * What the countdown shows.
+ *
+ * @param ms ms left
+ * @returns "3", "2" then "1"
+ */
+export const countdownText = (ms: number): string =>
+    String(Math.ceil(ms / 1000));
@@ -0,0 +1,258 @@
+/**
+ * Checking that a course can be flown without losing a life.
+ *
+ * The birb can climb at most as fast as flapping every step allows, falls
+ * no faster than from rest, and needs some room in a gap to stay inside it
+ * for as long as it takes to pass the pipe. A course fails when the birb
+ * cannot get from one gap into the next before the next pipe reaches it,
+ * when a gap leaves it too little room, or when pipes close together leave
+ * it too little room in both their gaps at once.
+ */
+
+import { BIRB_X, createPipe } from "./state";
+import { Birb, Constants, Viewport, type Pipe } from "./types";
+
+/** Something that makes a pipe impossible to pass */
+export type CourseProblem = Readonly<{
+    /** 0-based index of the pipe */
+    index: number;
+    message: string;
+}>;
+
+/** Highest and lowest birb y that are safe in a gap, whatever its motion */
+type SafeRange = Readonly<{ top: number; bottom: number }>;
+
+/** Start of the birb in a new run, as in `createInitialState` */
+const START_Y = 200;
+
+/**
+ * Times at which the birb is level with a pipe, as in `tick`.
+ *
+ * @param p the pipe
+ * @returns first and last time in ms the birb overlaps the pipe
+ */
+export const passWindow = (
+    p: Pipe,
+): Readonly<{ enter: number; leave: number }> => {
+    const distance = Viewport.CANVAS_WIDTH + p.width; // px travelled by the pipe
+    const ageAt = (x: number): number =>
+        ((Viewport.CANVAS_WIDTH - x) * p.travelMs) / distance;
+    return {
+        enter: p.time + ageAt(BIRB_X + Birb.WIDTH), // front of the pipe reaches the birb's rear
+        leave: p.time + ageAt(BIRB_X - p.width), // back of the pipe passes the birb's front
+    };
+};
+
+/**
+ * Height gained by flapping once and rising until the birb stops.
+ *
+ * @param v velocity after the first step
+ * @returns height in px
+ */
+const flapArc = (v: number = Birb.FLAP_VELOCITY + Birb.GRAVITY): number =>
+    v >= 0 ? 0 : -v + flapArc(v + Birb.GRAVITY);
+
+/**
+ * Vertical room the birb needs to stay level for a time. A short stay
+ * is one arc over the top, a long one a flap for every arc.
+ *
+ * @param ms time in ms
+ * @returns room in px, a safe upper bound
+ */
+export const roomToPass = (ms: number): number => {
+    const steps = ms / Constants.TICK_RATE_MS;
+    return Math.min((Birb.GRAVITY / 2) * (steps / 2) ** 2, flapArc());
+};
+
+/**
+ * Vertical room the birb needs in the part of two gaps they share, when
+ * pipes are so close together that it is level with both at once. It has
+ * to fly the whole of the previous pipe in that part to be in it, going
+ * slowly enough to stay, when the next pipe reaches it: a safe upper bound.
+ *
+ * @param prev the previous pipe
+ * @param p the pipe after it
+ * @returns room in px, 0 if the birb is never level with both
+ */
+const roomToPassBoth = (prev: Pipe | undefined, p: Pipe): number => {
+    const before = prev && passWindow(prev);
+    return before && before.leave > passWindow(p).enter
+        ? roomToPass(before.leave - before.enter)
+        : 0;
+};
+
+/**
+ * Furthest the birb can climb in a time, flapping every step.
+ *
+ * @param ms time in ms
+ * @returns height in px
+ */
+export const maxClimb = (ms: number): number =>
+    Math.max(Math.floor(ms / Constants.TICK_RATE_MS), 0) *
+    -(Birb.FLAP_VELOCITY + Birb.GRAVITY);
+
+/**
+ * Furthest the birb falls in a time from rest.
+ *
+ * @param ms time in ms
+ * @returns depth in px
+ */
+export const maxDrop = (ms: number): number => {
+    const steps = Math.max(Math.floor(ms / Constants.TICK_RATE_MS), 0);
+    return (Birb.GRAVITY * steps * (steps + 1)) / 2;
+};
+
+/**
+ * Birb positions inside a gap that stay clear of its edges as it moves.
+ *
+ * @param p the pipe
+ * @returns safe range for the top of the birb, empty if top > bottom
+ */
+const safeRange = (p: Pipe): SafeRange => {
+    const swing = (p.oscillation?.amplitude ?? 0) * Viewport.CANVAS_HEIGHT;
+    const centre = p.gapY * Viewport.CANVAS_HEIGHT;
+    const half = (p.gapHeight * Viewport.CANVAS_HEIGHT) / 2;
+    return {
+        top: centre - half + swing,
+        bottom: centre + half - Birb.HEIGHT - swing,
+    };
+};
+
+/**
+ * Finds what stops each pipe from being passed, going from the previous
+ * gap (or the start) into the next.
+ *
+ * @param course pipes in time order
+ * @returns problems, in pipe order
+ */
+export const courseProblems = (
+    course: readonly Pipe[],
+): readonly CourseProblem[] =>
+    course.flatMap((p, index) => {
+        const prev = course[index - 1];
+        const from: SafeRange = prev
+            ? safeRange(prev)
+            : { top: START_Y, bottom: START_Y };
+        const to = safeRange(p);
+        const { enter, leave } = passWindow(p);
+        const time = enter - (prev ? passWindow(prev).leave : 0);
+        const room = to.bottom - to.top;
+        const climb = from.top - to.bottom;
+        const drop = to.top - from.bottom;
+        const needed = roomToPass(leave - enter);
+        const shared =
+            Math.min(from.bottom, to.bottom) - Math.max(from.top, to.top);
+        const neededShared = roomToPassBoth(prev, p);
+        return [
+            ...(room <= needed
+                ? [
+                      {
+                          index,
+                          message: `gap leaves ${Math.round(room)}px to pass, needs more than ${Math.round(needed)}px`,
+                      },
+                  ]
+                : []),
+            ...(climb > maxClimb(time)
+                ? [
+                      {
+                          index,
+                          message: `gap is ${Math.round(climb)}px too high to reach in ${Math.round(time)}ms`,
+                      },
+                  ]
+                : []),
+            ...(drop > maxDrop(time)
+                ? [
+                      {
+                          index,
+                          message: `gap is ${Math.round(drop)}px too low to reach in ${Math.round(time)}ms`,
+                      },
+                  ]
+                : []),
+            ...(neededShared > 0 &&
+            climb <= 0 &&
+            drop <= 0 &&
+            shared <= neededShared
+                ? [
+                      {
+                          index,
+                          message: `gap shares ${Math.round(shared)}px with the previous one, needs more than ${Math.round(neededShared)}px`,
+                      },
+                  ]
+                : []),
+        ];
+    });
+
+/**
+ * Makes a course passable, widening gaps that are too narrow and moving
+ * gaps that are out of reach as little as needed. Each pipe is fixed
+ * against the one before it, which has already been fixed.
+ *
+ * @param course pipes in time order
+ * @param margin extra px of room and reach to leave
+ * @returns the course with problem pipes changed
+ */
+export const repairCourse = (
+    course: readonly Pipe[],
+    margin: number = 4,
+): readonly Pipe[] =>
+    course.reduce<readonly Pipe[]>((fixed, p) => {
+        const prev = fixed[fixed.length - 1];
+        const from: SafeRange = prev
+            ? safeRange(prev)
+            : { top: START_Y, bottom: START_Y };
+        const { enter, leave } = passWindow(p);
+        const time = enter - (prev ? passWindow(prev).leave : 0);
+        const swing = (p.oscillation?.amplitude ?? 0) * Viewport.CANVAS_HEIGHT;
+        const shared = roomToPassBoth(prev, p); // room needed in both gaps at once
+
+        // widest the gap needs to be, in px
+        const gapPx = Math.max(
+            p.gapHeight * Viewport.CANVAS_HEIGHT,
+            Math.max(roomToPass(leave - enter), shared) +
+                Birb.HEIGHT +
+                2 * swing +
+                margin,
+        );
+        const gapHeight =
+            gapPx === p.gapHeight * Viewport.CANVAS_HEIGHT
+                ? p.gapHeight // untouched, without rounding errors
+                : Math.min(gapPx / Viewport.CANVAS_HEIGHT, 1);
+        const half = gapPx / 2;
+
+        // gap centre bounds from reach, then from the canvas
+        const minCentre =
+            from.top -
+            maxClimb(time) +
+            shared +
+            margin +
+            Birb.HEIGHT +
+            swing -
+            half; // bottom of the gap just in reach
+        const maxCentre =
+            from.bottom + maxDrop(time) - shared - margin - swing + half; // top of the gap just in reach
+        const centre = Math.min(
+            Math.max(p.gapY * Viewport.CANVAS_HEIGHT, minCentre),
+            maxCentre,
+        );
+        const onCanvas = Math.min(
+            Math.max(centre, half + swing),
+            Viewport.CANVAS_HEIGHT - half - swing,
+        );
+        const gapY =
+            onCanvas === p.gapY * Viewport.CANVAS_HEIGHT
+                ? p.gapY
+                : onCanvas / Viewport.CANVAS_HEIGHT;
+
+        return [
+            ...fixed,
+            gapY === p.gapY && gapHeight === p.gapHeight
+                ? p
+                : createPipe(gapY, gapHeight, p.time, {
+                      travelMs: p.travelMs,
+                      width: p.width,
+                      color: p.color,
+                      oscillation: p.oscillation,
+                      pickup: p.pickup,
+                  }),
+        ];
+    }, []);
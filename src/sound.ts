@@ -0,0 +1,277 @@
+/**
+ * Sound effects and music.
+ *
+ * Sounds are not played by the input handlers but follow the game itself:
+ * the events of every state (see `gameEvent$`) fire a sound for a flap, a
+ * pipe passed, a hit, the end of the game or a win. So a replay, a bot or a
+ * rewound run sounds just like the run it reproduces, and going back in time
+ * is silent. Events are played by an `AudioBackend`, made
+ * of Web Audio nodes in the browser; the sounds are synthesised, so there are
+ * no audio files to load. Volume, mute and music are saved in local storage.
+ */
+
+import { Observable, Subscription, filter, interval, map } from "rxjs";
+import { gameEvent$ } from "./observable";
+import type { GameEvent, State } from "./types";
+
+/** Something in the game that makes a sound */
+export type SoundEvent = "flap" | "score" | "hit" | "gameOver" | "win";
+
+/** How loud the game is */
+export type SoundSettings = Readonly<{
+    /** master volume, from 0 to 1 */
+    volume: number;
+    muted: boolean;
+    /** is the background music on? */
+    music: boolean;
+}>;
+
+/** What plays the sounds, Web Audio in the browser and a stub in tests */
+export type AudioBackend = Readonly<{
+    play: (e: SoundEvent) => void;
+    /** starts or stops the background music */
+    music: (on: boolean) => void;
+    /** sets the master volume, from 0 to 1 */
+    volume: (v: number) => void;
+}>;
+
+/** The part of the Web Storage API used to persist the sound settings */
+export type SoundStorage = Pick<Storage, "getItem" | "setItem">;
+
+/** Settings until the player changes them */
+export const DEFAULT_SOUND: SoundSettings = {
+    volume: 0.5,
+    muted: false,
+    music: false,
+};
+
+/** Local storage keys */
+const StorageKeys = {
+    SOUND: "flappyBirb.sound",
+} as const;
+
+/** Sound of each kind of game event, none for those that are silent */
+const SoundOf: Readonly<Record<GameEvent["type"], SoundEvent | undefined>> = {
+    flap: "flap",
+    pipePassed: "score",
+    pipeHit: "hit",
+    bounced: "hit",
+    lifeLost: undefined, // heard as the hit
+    invincible: undefined,
+    gameOver: "gameOver",
+    respawned: undefined,
+    collected: "score",
+    shieldLost: "hit",
+    won: "win",
+};
+
+/**
+ * The sound of a game event.
+ *
+ * @param e the event
+ * @returns its sound, undefined if it makes none
+ */
+export const soundOf = (e: GameEvent): SoundEvent | undefined =>
+    SoundOf[e.type];
+
+/**
+ * Sound events of a stream of states.
+ *
+ * @param state$ states of the game, e.g. of consecutive runs
+ * @returns sound events as they happen
+ */
+export const soundEvent$ = (
+    state$: Observable<State>,
+): Observable<SoundEvent> =>
+    gameEvent$(state$).pipe(
+        map(soundOf),
+        filter((sound): sound is SoundEvent => sound !== undefined),
+    );
+
+/**
+ * Plays sound events unless muted.
+ *
+ * @param event$ sound events
+ * @param backend what plays them
+ * @param settings current settings, read at every event
+ * @returns the subscription playing them
+ */
+export const playSounds = (
+    event$: Observable<SoundEvent>,
+    backend: AudioBackend,
+    settings: () => SoundSettings,
+): Subscription =>
+    event$.pipe(filter(_ => !settings().muted)).subscribe(backend.play);
+
+/**
+ * Sets the volume and music of a backend from the settings.
+ *
+ * @param backend what plays the sounds
+ * @param settings settings to apply
+ */
+export const applySettings = (
+    backend: AudioBackend,
+    settings: SoundSettings,
+): void => {
+    backend.volume(settings.muted ? 0 : settings.volume);
+    backend.music(settings.music && !settings.muted);
+};
+
+/** A synthesised note */
+type Tone = Readonly<{
+    /** Hz at the start, and at the end if it slides */
+    freq: number;
+    to?: number;
+    /** s after the sound starts */
+    at: number;
+    /** s */
+    length: number;
+    wave: OscillatorType;
+    /** loudness before the master volume, from 0 to 1 */
+    gain: number;
+}>;
+
+/** Notes of each sound */
+const Sounds: Readonly<Record<SoundEvent, readonly Tone[]>> = {
+    flap: [
+        {
+            freq: 300,
+            to: 600,
+            at: 0,
+            length: 0.08,
+            wave: "triangle",
+            gain: 0.4,
+        },
+    ],
+    score: [
+        { freq: 880, at: 0, length: 0.07, wave: "square", gain: 0.2 },
+        { freq: 1320, at: 0.07, length: 0.12, wave: "square", gain: 0.2 },
+    ],
+    hit: [
+        { freq: 180, to: 60, at: 0, length: 0.25, wave: "sawtooth", gain: 0.5 },
+    ],
+    gameOver: [
+        { freq: 392, at: 0, length: 0.2, wave: "triangle", gain: 0.5 },
+        { freq: 330, at: 0.2, length: 0.2, wave: "triangle", gain: 0.5 },
+        { freq: 262, at: 0.4, length: 0.5, wave: "triangle", gain: 0.5 },
+    ],
+    win: [
+        { freq: 523, at: 0, length: 0.12, wave: "square", gain: 0.25 },
+        { freq: 659, at: 0.12, length: 0.12, wave: "square", gain: 0.25 },
+        { freq: 784, at: 0.24, length: 0.12, wave: "square", gain: 0.25 },
+        { freq: 1047, at: 0.36, length: 0.4, wave: "square", gain: 0.25 },
+    ],
+};
+
+/** The music: a bass line looped for as long as it is on, one note a beat */
+const Music = {
+    BEAT_MS: 250,
+    NOTES: [131, 131, 196, 131, 175, 175, 262, 175], // C, F
+    GAIN: 0.12,
+} as const;
+
+/**
+ * Plays sounds through the Web Audio API, every sound going through its own
+ * gain into a master gain that sets the volume.
+ *
+ * @param ctx audio context, resumed by the player's first click or key
+ * @returns the backend
+ */
+export const webAudioBackend = (ctx: AudioContext): AudioBackend => {
+    const master = ctx.createGain();
+    master.connect(ctx.destination);
+
+    /**
+     * Plays a note from now.
+     *
+     * @param tone the note
+     */
+    const playTone = (tone: Tone): void => {
+        const start = ctx.currentTime + tone.at;
+        const end = start + tone.length;
+        const osc = ctx.createOscillator();
+        const gain = ctx.createGain();
+        osc.type = tone.wave;
+        osc.frequency.setValueAtTime(tone.freq, start);
+        if (tone.to !== undefined)
+            osc.frequency.exponentialRampToValueAtTime(tone.to, end);
+        gain.gain.setValueAtTime(tone.gain, start);
+        gain.gain.exponentialRampToValueAtTime(0.001, end); // no click at the end
+        osc.connect(gain);
+        gain.connect(master);
+        osc.start(start);
+        osc.stop(end);
+    };
+
+    /** the music playing, if it is on */
+    const musicRef: { value: Subscription | undefined } = {
+        value: undefined,
+    };
+
+    return {
+        play: e => Sounds[e].forEach(playTone),
+        music: on => {
+            if (on === (musicRef.value !== undefined)) return;
+            musicRef.value?.unsubscribe();
+            musicRef.value = on
+                ? interval(Music.BEAT_MS).subscribe(beat =>
+                      playTone({
+                          freq: Music.NOTES[beat % Music.NOTES.length],
+                          at: 0,
+                          length: (Music.BEAT_MS / 1000) * 0.9,
+                          wave: "triangle",
+                          gain: Music.GAIN,
+                      }),
+                  )
+                : undefined;
+        },
+        volume: v => master.gain.setValueAtTime(v, ctx.currentTime),
+    };
+};
+
+/**
+ * Are these sound settings?
+ *
+ * @param x value to check
+ * @returns true if x is SoundSettings
+ */
+export const isSoundSettings = (x: unknown): x is SoundSettings =>
+    typeof x === "object" &&
+    x !== null &&
+    "volume" in x &&
+    typeof x.volume === "number" &&
+    x.volume >= 0 &&
+    x.volume <= 1 &&
+    "muted" in x &&
+    typeof x.muted === "boolean" &&
+    "music" in x &&
+    typeof x.music === "boolean";
+
+/**
+ * Loads the player's sound settings. Missing or corrupt settings count as
+ * the defaults.
+ *
+ * @param storage where the settings are persisted
+ * @returns sound settings
+ */
+export const loadSoundSettings = (storage: SoundStorage): SoundSettings => {
+    try {
+        const saved: unknown = JSON.parse(
+            storage.getItem(StorageKeys.SOUND) ?? "null",
+        );
+        return isSoundSettings(saved) ? saved : DEFAULT_SOUND;
+    } catch {
+        return DEFAULT_SOUND;
+    }
+};
+
+/**
+ * Saves the player's sound settings.
+ *
+ * @param storage where the settings are persisted
+ * @param settings sound settings to save
+ */
+export const saveSoundSettings = (
+    storage: SoundStorage,
+    settings: SoundSettings,
+): void => storage.setItem(StorageKeys.SOUND, JSON.stringify(settings));
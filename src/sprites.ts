@@ -0,0 +1,270 @@
+/**
+ * Sprites, the scrolling background and hit feedback, worked out from the
+ * state and the game events.
+ *
+ * Like the debug overlay, everything here is drawn by `render`; this module
+ * only decides which frame of a sprite sheet to show, how far each layer of
+ * the background has scrolled, and when the birb blinks or the screen shakes.
+ * What happened last (a flap, a bounce) is not part of the state, so it is
+ * folded from the game events into an `Animation`.
+ *
+ * Images are loaded before the first frame is drawn. One that fails to load
+ * is left out, or drawn as a plain shape, rather than stopping the game.
+ */
+
+import {
+    Observable,
+    catchError,
+    defaultIfEmpty,
+    forkJoin,
+    from,
+    map,
+    of,
+    take,
+    timeout,
+    type ObservableInput,
+} from "rxjs";
+import type { Point } from "./debug";
+import { Birb, Constants, Viewport, type GameEvent, type State } from "./types";
+
+/** Frames of an animation, side by side in a single image */
+export type SpriteSheet = Readonly<{
+    href: string;
+    frameWidth: number;
+    frameHeight: number;
+    frames: number;
+    /** ms each frame is shown for */
+    frameMs: number;
+}>;
+
+/** A background layer, tiled along x and scrolling slower the further away it is */
+export type ParallaxLayer = Readonly<{
+    href: string;
+    /** top edge and size of a tile */
+    y: number;
+    width: number;
+    height: number;
+    /** speed as a fraction of the pipes' speed */
+    speed: number;
+}>;
+
+/** When the latest flap and bounce happened, in ms of the run */
+export type Animation = Readonly<{
+    flapAt: number;
+    bounceAt: number;
+}>;
+
+/** The birb itself */
+export const BIRB_SPRITE = "assets/birb.png";
+
+/**
+ * The birb's wing: at rest (as drawn on the birb itself), then up, level
+ * and down after each flap.
+ */
+export const WINGS: SpriteSheet = {
+    href: "assets/wings.svg",
+    frameWidth: Birb.WIDTH,
+    frameHeight: Birb.HEIGHT,
+    frames: 4,
+    frameMs: 60,
+};
+
+/** Background layers behind the pipes, back to front */
+export const BACKGROUND_LAYERS: readonly ParallaxLayer[] = [
+    {
+        href: "assets/sky.svg",
+        y: 0,
+        width: Viewport.CANVAS_WIDTH,
+        height: Viewport.CANVAS_HEIGHT,
+        speed: 0.1,
+    },
+    {
+        href: "assets/hills.svg",
+        y: 0,
+        width: Viewport.CANVAS_WIDTH,
+        height: Viewport.CANVAS_HEIGHT,
+        speed: 0.4,
+    },
+];
+
+/** The ground, in front of the pipes and moving with them */
+export const GROUND: ParallaxLayer = {
+    href: "assets/ground.svg",
+    y: Viewport.CANVAS_HEIGHT - 16,
+    width: Viewport.CANVAS_WIDTH,
+    height: 16,
+    speed: 1,
+};
+
+/** Every image the game draws, loaded before it starts */
+export const ASSET_URLS: readonly string[] = [
+    BIRB_SPRITE,
+    WINGS.href,
+    ...BACKGROUND_LAYERS.map(l => l.href),
+    GROUND.href,
+];
+
+/** ms an image may take to load before it counts as missing */
+export const ASSET_TIMEOUT_MS = 5000;
+
+/** Tilt of the birb in degrees, nose up is negative */
+export const Tilt = {
+    PER_VELOCITY: 4, // degrees per px per tick of speed
+    MIN: -25,
+    MAX: 70,
+} as const;
+
+/** Blinking while the birb can fly through pipes */
+export const BLINK_MS = 100;
+
+/** Screen shake after a bounce */
+export const Shake = {
+    MS: 250,
+    PX: 4, // at the start, dying away to nothing
+} as const;
+
+/** Nothing has happened yet */
+export const STILL: Animation = {
+    flapAt: -Infinity,
+    bounceAt: -Infinity,
+};
+
+/**
+ * Keeps the time of a flap or a bounce.
+ *
+ * @param anim animation so far
+ * @param e event of the game
+ * @returns the animation with the event in it
+ */
+export const animate = (anim: Animation, e: GameEvent): Animation =>
+    e.type === "flap"
+        ? { ...anim, flapAt: e.t }
+        : e.type === "bounced"
+          ? { ...anim, bounceAt: e.t }
+          : anim;
+
+/**
+ * Time of a run in between two steps, so the background scrolls smoothly.
+ *
+ * @param s current state
+ * @param alpha how far into the next step the frame is
+ * @returns ms of the run
+ */
+export const frameTime = (s: State, alpha: number): number =>
+    Math.max(s.elapsedTime - (1 - alpha) * Constants.TICK_RATE_MS, 0);
+
+/**
+ * Frame of a sheet shown some time after a flap: it plays once through,
+ * then rests on the first frame.
+ *
+ * @param sheet the animation
+ * @param sinceMs ms since the flap, negative if it is yet to come (e.g.
+ *   after a rewind or in a new run)
+ * @returns index of the frame
+ */
+export const sheetFrame = (sheet: SpriteSheet, sinceMs: number): number =>
+    sinceMs < 0 || sinceMs >= (sheet.frames - 1) * sheet.frameMs
+        ? 0
+        : 1 + Math.floor(sinceMs / sheet.frameMs);
+
+/**
+ * Tilt of the birb, nose up while rising and down while falling.
+ *
+ * @param velocity birb's velocity, positive downwards
+ * @returns angle in degrees, clockwise
+ */
+export const tilt = (velocity: number): number =>
+    Math.min(Math.max(velocity * Tilt.PER_VELOCITY, Tilt.MIN), Tilt.MAX);
+
+/**
+ * How far a background layer has scrolled. The ground keeps pace with
+ * pipes that take `PIPE_TRAVEL_MS` to cross the canvas.
+ *
+ * @param layer the layer
+ * @param t ms of the run
+ * @returns x of its first tile, from -width to 0
+ */
+export const layerOffset = (layer: ParallaxLayer, t: number): number => {
+    const pxPerMs =
+        (Viewport.CANVAS_WIDTH + Constants.PIPE_WIDTH) /
+        Constants.PIPE_TRAVEL_MS;
+    const scrolled = (t * pxPerMs * layer.speed) % layer.width;
+    return scrolled === 0 ? 0 : -scrolled;
+};
+
+/**
+ * Is the birb hidden in this frame? It blinks while it is phasing through
+ * a pipe it hit, or is otherwise invincible.
+ *
+ * @param s current state
+ * @param t ms of the run
+ * @returns true if the birb is not drawn
+ */
+export const isBlinkedOut = (s: State, t: number): boolean =>
+    (s.phasingPipes.length > 0 || s.elapsedTime < s.invincibleUntil) &&
+    Math.floor(t / BLINK_MS) % 2 === 1;
+
+/**
+ * How far the screen is shaken some time after a bounce.
+ *
+ * @param sinceMs ms since the bounce
+ * @returns offset of the scene, none once the shake is over
+ */
+export const shakeOffset = (sinceMs: number): Point => {
+    if (sinceMs < 0 || sinceMs >= Shake.MS) return { x: 0, y: 0 };
+    const amplitude = Shake.PX * (1 - sinceMs / Shake.MS);
+    return {
+        x: amplitude * Math.sin(sinceMs * 0.11),
+        y: amplitude * Math.cos(sinceMs * 0.07),
+    };
+};
+
+/**
+ * Loads every asset, however many fail.
+ *
+ * @param urls assets to load
+ * @param load loads one, emitting whether it did
+ * @param timeoutMs ms after which an asset still loading counts as missing
+ * @returns the urls that loaded, once all have settled
+ */
+export const preload$ = (
+    urls: readonly string[],
+    load: (url: string) => ObservableInput<boolean>,
+    timeoutMs: number = ASSET_TIMEOUT_MS,
+): Observable<ReadonlySet<string>> =>
+    urls.length === 0
+        ? of(new Set<string>())
+        : forkJoin(
+              urls.map(url =>
+                  from(load(url)).pipe(
+                      timeout(timeoutMs),
+                      take(1),
+                      defaultIfEmpty(false),
+                      catchError(() => of(false)),
+                  ),
+              ),
+          ).pipe(map(loaded => new Set(urls.filter((_, i) => loaded[i]))));
+
+/**
+ * Loads an image in the browser.
+ *
+ * @param url image to load
+ * @returns emits true once loaded, false if it could not be
+ */
+export const loadImage = (url: string): Observable<boolean> =>
+    new Observable<boolean>(subscriber => {
+        const img = new Image();
+        img.onload = () => {
+            subscriber.next(true);
+            subscriber.complete();
+        };
+        img.onerror = () => {
+            subscriber.next(false);
+            subscriber.complete();
+        };
+        img.src = url;
+        return () => {
+            img.onload = null;
+            img.onerror = null;
+        };
+    });
@@ -0,0 +1,759 @@
+/**
+ * The simulation core of Flappy Birb.
+ *
+ * Everything in here is pure and DOM-free: the game advances only through
+ * `step`, which takes the current state, the player's input and the amount of
+ * time to simulate, and returns the next state. The browser code in main.ts
+ * is a thin adapter that turns key presses and timers into calls to `step`,
+ * so whole games can also be driven from Node (tests, bots, servers).
+ */
+
+import {
+    Birb,
+    Bounce,
+    Constants,
+    Viewport,
+    type Box,
+    type EndlessCourse,
+    type GameEvent,
+    type Ghost,
+    type Input,
+    type PathPoint,
+    type Pipe,
+    type GameRules,
+    type Signal,
+    type State,
+    type WinCondition,
+} from "./types";
+import {
+    SPRITE_HITBOX,
+    besidePipe,
+    firstPipeContact,
+    offset,
+    touchedPickups,
+    type PipeContact,
+} from "./collision";
+import { pipesUntil, startCourse } from "./generate";
+import { Pickups, collect, type PickupEffects } from "./pickups";
+import { RNG } from "./util";
+
+/** Input for a step in which the player does nothing */
+export const NoInput: Input = {
+    flap: false,
+    pause: false,
+    restart: false,
+    step: false,
+};
+
+/** Number of pipes the player must pass to win, unless the level says otherwise */
+export const WIN_SCORE = 20;
+
+/** How a level is won unless it says otherwise */
+export const DEFAULT_WIN: WinCondition = { type: "score", score: WIN_SCORE };
+
+/** Rules of a run unless the game or the level says otherwise */
+export const DEFAULT_RULES: GameRules = {
+    lives: 3,
+    win: DEFAULT_WIN,
+    canvasHitsCostLife: true,
+    invincibilityMs: 0,
+    bounce: { mean: Bounce.MEAN, spread: Bounce.SPREAD },
+};
+
+/** Left edge of the birb, which stays at the same x for the whole run */
+export const BIRB_X = Viewport.CANVAS_WIDTH * 0.3 - Birb.WIDTH / 2;
+
+/** What a pipe may change from the defaults */
+export type PipeOptions = Partial<
+    Pick<Pipe, "travelMs" | "width" | "color" | "oscillation" | "pickup">
+>;
+
+/**
+ * Top and bottom edge of a pipe's gap at the given age.
+ *
+ * @param p the pipe
+ * @param age the pipe's age in ms
+ * @returns gap edges in px
+ */
+export const gapEdgesAt = (
+    p: Pick<Pipe, "gapY" | "gapHeight" | "oscillation">,
+    age: number,
+): { gapTop: number; gapBottom: number } => {
+    const swing = p.oscillation
+        ? p.oscillation.amplitude *
+          Math.sin((2 * Math.PI * Math.max(age, 0)) / p.oscillation.periodMs)
+        : 0;
+    const gy = (p.gapY + swing) * Viewport.CANVAS_HEIGHT; // convert fraction to fit the canvas
+    const gh = p.gapHeight * Viewport.CANVAS_HEIGHT;
+    return { gapTop: gy - gh / 2, gapBottom: gy + gh / 2 };
+};
+
+/**
+ * Creates a pipe of the course, before it has appeared on screen.
+ *
+ * @param gapY centre of the gap, as a fraction of the canvas height
+ * @param gapHeight height of the gap, as a fraction of the canvas height
+ * @param time time in ms at which the pipe enters the screen, also its id
+ * @param options speed, size, colour and movement of the pipe, and its pickup
+ * @returns the pipe
+ */
+export const createPipe = (
+    gapY: number,
+    gapHeight: number,
+    time: number,
+    options: PipeOptions = {},
+): Pipe => {
+    const startX = Viewport.CANVAS_WIDTH;
+    return {
+        gapY,
+        gapHeight,
+        time,
+        travelMs: options.travelMs ?? Constants.PIPE_TRAVEL_MS,
+        width: options.width ?? Constants.PIPE_WIDTH,
+        color: options.color ?? Constants.PIPE_COLOR,
+        oscillation: options.oscillation,
+        pickup: options.pickup,
+        age: 0,
+        xpos: Viewport.CANVAS_WIDTH,
+        prevXpos: startX,
+        birdPassing: false,
+        passed: false,
+        ...gapEdgesAt({ gapY, gapHeight, ...options }, 0),
+    };
+};
+
+/**
+ * Creates the state at the start of a run.
+ *
+ * @param course pipes of the map
+ * @param seed seed for every random decision in the run
+ * @param ghosts previous runs to race against
+ * @param rules how the run is won and lost
+ * @param endlessSeed seed of the endless course, generated instead of listed
+ * @returns fresh game state
+ */
+export const createInitialState = (
+    course: readonly Pipe[],
+    seed: number,
+    ghosts: readonly Ghost[] = [],
+    rules: GameRules = DEFAULT_RULES,
+    endlessSeed?: number,
+): State =>
+    withCheckpoint({
+        birbPosition: 200,
+        prevBirbPosition: 200,
+        birbVelocity: 0,
+        birbLives: rules.lives,
+        elapsedTime: 0,
+        score: 0,
+        gameOver: false,
+        rules,
+        course,
+        endless:
+            endlessSeed === undefined ? undefined : startCourse(endlessSeed),
+        seed,
+        rngSeed: seed,
+        invincibleUntil: 0,
+        bonus: 0,
+        shield: false,
+        slowUntil: 0,
+        courseLag: 0,
+        phasingPipes: [],
+        flaps: 0,
+        hits: 0,
+        ghosts,
+        ghostBirbPos: ghosts.map(_ => undefined),
+        paused: false,
+        events: [],
+    });
+
+/**
+ * Keeps the run as it is now as the place to go back to, if its rules have
+ * checkpoints.
+ *
+ * @param s Current state
+ * @returns the state with its checkpoint
+ */
+const withCheckpoint = (s: State): State =>
+    s.rules.checkpoints
+        ? { ...s, checkpoint: { ...s, checkpoint: undefined, events: [] } }
+        : s;
+
+/**
+ * How fast a run's game goes.
+ *
+ * @param s the run, for its rules
+ * @returns 1 at full speed
+ */
+const speedOf = (s: Pick<State, "rules">): number => s.rules.speed ?? 1;
+
+/**
+ * Time of a run's course at a time of the run: a slowed down run gets
+ * through less of its course in the same time, and so does a run in which
+ * time was slowed by a pickup.
+ *
+ * @param s the run, for its speed and the time it lost
+ * @param t time of the run in ms
+ * @returns time of the course in ms
+ */
+export const courseTime = (
+    s: Pick<State, "rules" | "courseLag">,
+    t: number,
+): number => t * speedOf(s) - s.courseLag;
+
+/**
+ * Has the player passed every pipe needed to win?
+ *
+ * @param s Current state
+ * @returns true if the game is won
+ */
+export const hasWon = (s: State): boolean =>
+    s.rules.win.type === "score"
+        ? s.score >= s.rules.win.score
+        : s.rules.win.type === "allPipes"
+          ? !s.endless && s.score === s.course.length // an endless course has no last pipe
+          : false;
+
+/**
+ * Is the run over, either lost or won?
+ *
+ * @param s Current state
+ * @returns true if no further steps change the game
+ */
+export const isGameEnd = (s: State): boolean => s.gameOver || hasWon(s);
+
+/**
+ * clamp a ratio into [0,1]
+ *
+ * @param x number
+ * @returns number between 0 to 1
+ */
+const clampRatio = (x: number): number => (x <= 0 ? 0 : x >= 1 ? 1 : x);
+
+/**
+ * pipe xpos at given age
+ *
+ * @param p the pipe, for its speed and width
+ * @param age pipe's age
+ * @returns pipe's xpos
+ */
+export const pipeXposAtAge = (
+    p: Pick<Pipe, "travelMs" | "width">,
+    age: number,
+): number => {
+    const distance = Viewport.CANVAS_WIDTH + p.width; // px
+    const prog = clampRatio(age / p.travelMs);
+    return Viewport.CANVAS_WIDTH - distance * prog;
+};
+
+/**
+ * Generates the pipes of an endless course entering the screen up to a time.
+ *
+ * @param c where the course has got to
+ * @param until time in ms
+ * @returns the new pipes, and the course after them
+ */
+export const endlessPipesUntil = (
+    c: EndlessCourse,
+    until: number,
+): Readonly<{ pipes: readonly Pipe[]; course: EndlessCourse }> => {
+    const { pipes, course } = pipesUntil(c, until);
+    return {
+        pipes: pipes.map(p =>
+            createPipe(p.gapY, p.gapHeight, p.time, {
+                travelMs: p.travelMs,
+                pickup: p.pickup,
+            }),
+        ),
+        course,
+    };
+};
+
+/**
+ * Moves a new run on to a later time of its course, to try out or practise
+ * part of it. The pipes that entered the screen before then are where they
+ * would be, those the birb is already past count as passed, and the birb is
+ * where every run starts.
+ *
+ * @param s state at the start of a run
+ * @param time time of the course in ms, rounded down to a whole step of the run
+ * @returns the run at that time
+ */
+export const startAt = (s: State, time: number): State => {
+    const t =
+        Math.max(Math.floor(time / speedOf(s) / Constants.TICK_RATE_MS), 0) *
+        Constants.TICK_RATE_MS;
+    const now = courseTime(s, t);
+    const generated = s.endless ? endlessPipesUntil(s.endless, now) : undefined;
+    const placed = [...s.course, ...(generated?.pipes ?? [])].map(p => {
+        const age = now - p.time;
+        const xpos = pipeXposAtAge(p, age);
+        return {
+            ...p,
+            age,
+            xpos,
+            prevXpos: xpos,
+            passed: BIRB_X > xpos + p.width,
+            ...gapEdgesAt(p, age),
+        };
+    });
+    const pipes = placed.filter(p => !p.passed);
+    return withCheckpoint({
+        ...s,
+        elapsedTime: t,
+        score: placed.length - pipes.length,
+        endless: generated?.course ?? s.endless,
+        pipeRead: pipes,
+        pipeRendering: pipes.filter(p => p.age >= 0 && p.age <= p.travelMs),
+    });
+};
+
+/**
+ * The birb's hitbox at a height.
+ *
+ * @param y top of the birb's sprite
+ * @param hitbox part of the sprite that collides
+ * @returns the hitbox on the canvas
+ */
+export const birbBox = (y: number, hitbox: Box = SPRITE_HITBOX): Box =>
+    offset(hitbox, BIRB_X, y);
+
+/**
+ * Index of the first sample after the given time, by binary search since
+ * samples are in time order.
+ *
+ * @param path samples of a run
+ * @param t time to look up
+ * @param lo first index that may be the answer
+ * @param hi last index that may be the answer
+ * @returns index of the first sample with a later time, path.length if none
+ */
+const firstSampleAfter = (
+    path: readonly PathPoint[],
+    t: number,
+    lo: number = 0,
+    hi: number = path.length,
+): number => {
+    if (lo >= hi) return lo;
+    const mid = Math.floor((lo + hi) / 2);
+    return path[mid].t <= t
+        ? firstSampleAfter(path, t, mid + 1, hi)
+        : firstSampleAfter(path, t, lo, mid);
+};
+
+/**
+ * Position of a ghost birb at the given time.
+ *
+ * @param path samples of the ghost's run
+ * @param currentTime time of the frame being computed
+ * @returns ghost y position, undefined once the ghost's run has ended
+ */
+export const ghostPositionAt = (
+    path: readonly PathPoint[],
+    currentTime: number,
+): number | undefined =>
+    path.length && currentTime <= path[path.length - 1].t // has ghost birb died yet?
+        ? path[Math.max(firstSampleAfter(path, currentTime) - 1, 0)].y // latest sample not after the current time
+        : undefined;
+
+/**
+ * Makes the birb flap, unless the game has ended.
+ *
+ * @param s Current state
+ * @returns state with the birb flying upwards
+ */
+const flap = (s: State): State =>
+    isGameEnd(s) || s.paused
+        ? s
+        : {
+              ...s,
+              birbVelocity: Birb.FLAP_VELOCITY * speedOf(s), // slowed down with the game
+              flaps: s.flaps + 1,
+              events: [...s.events, { type: "flap", t: s.elapsedTime }],
+          };
+
+/**
+ * Takes a run that has lost its last life back to its checkpoint, lives
+ * restored, instead of ending it. Its flaps and hits are kept.
+ *
+ * @param s state in which the last life was lost
+ * @param checkpoint the run as it was at its last checkpoint
+ * @returns the run carrying on from the checkpoint
+ */
+const respawn = (s: State, checkpoint: State): State => ({
+    ...checkpoint,
+    prevBirbPosition: checkpoint.birbPosition, // not drawn flying back
+    birbLives: s.rules.lives,
+    flaps: s.flaps,
+    hits: s.hits,
+    checkpoint,
+    events: [
+        ...s.events.filter(e => e.type !== "gameOver"),
+        { type: "respawned", t: checkpoint.elapsedTime },
+    ],
+});
+
+/**
+ * Updates the state by proceeding with one time step.
+ *
+ * Physics constants are expressed per `Constants.TICK_RATE_MS`, and are
+ * scaled for other step lengths. A slowed down run moves its pipes along
+ * the time of its course, and scales the birb's speeds by the game speed
+ * and its gravity by its square, so the birb flies the same arcs. Slowed
+ * time from a pickup only slows the course, the birb flying as ever.
+ *
+ * @param s Current state
+ * @param dt Time to advance in ms
+ * @returns Updated state
+ */
+const tick = (s: State, dt: number): State => {
+    if (isGameEnd(s) || s.paused || dt <= 0) return s; //stop state update if game end conditions are met
+
+    const k = dt / Constants.TICK_RATE_MS; // fraction of a nominal tick
+    const speed = speedOf(s);
+
+    // update the properties regarding bird in state
+    const updatedBirbVelocity =
+        s.birbVelocity + Birb.GRAVITY * speed * speed * k;
+    const newBirbPositionUnbound = s.birbPosition + updatedBirbVelocity * k;
+    const floor = Viewport.CANVAS_HEIGHT - Birb.HEIGHT;
+
+    const currentTime = s.elapsedTime + dt;
+    const courseLag =
+        s.elapsedTime < s.slowUntil
+            ? s.courseLag + dt * speed * (1 - Pickups.SLOW_FACTOR)
+            : s.courseLag;
+    const now = courseTime({ rules: s.rules, courseLag }, currentTime); // where the pipes have got to
+
+    // endless courses are generated as their pipes come in
+    const generated = s.endless ? endlessPipesUntil(s.endless, now) : undefined;
+
+    const pipeQueue: readonly Pipe[] = [
+        ...(s.pipeRead ?? s.course), //read the course at the start, otherwise continue from previous state
+        ...(generated?.pipes ?? []),
+    ];
+
+    const BIRB_REAR = BIRB_X + Birb.WIDTH;
+
+    const ghostBirbPos = s.ghosts.map(g => ghostPositionAt(g.path, now));
+
+    const pipeQueueUpdated: Pipe[] = pipeQueue.map(p => {
+        //we are updating the pipes' property in the queue
+        const age = now - p.time; // can be < 0 before spawn, so it will not just spawn at s.time >= p.time
+        const newX = pipeXposAtAge(p, age); // current frame xpos
+        const prevXpos = p.xpos; // remember last frame's xpos
+        const xpos = newX; //update xpos to the latest calculated xpos
+        const birdPassing =
+            xpos <= BIRB_REAR && xpos + p.width >= BIRB_X ? true : false;
+        const passed = BIRB_X > xpos + p.width ? true : p.passed;
+        return {
+            ...p,
+            age,
+            prevXpos,
+            xpos,
+            passed,
+            birdPassing,
+            ...gapEdgesAt(p, age), // moving gaps follow the pipe's age
+        };
+    });
+
+    const pipeQueuePass: Pipe[] = pipeQueueUpdated // pipeQueuePass is used to store all pipes that has been rendered, not considering if it is currently rendering
+        .filter(p => p.time <= now);
+
+    const nextPipe: Pipe[] = pipeQueuePass.filter(
+        //Array of all pipes currently rendering
+        p => p.age >= 0 && p.age <= p.travelMs,
+    ); // only pipes on screen
+
+    // clamp birb position into canvas
+    const updatedBirbPosition: number =
+        newBirbPositionUnbound <= 0
+            ? 0
+            : newBirbPositionUnbound >= floor
+              ? floor
+              : newBirbPositionUnbound;
+
+    //check if birb hit canvas this frame
+    const hitCanvas: boolean =
+        updatedBirbPosition === floor
+            ? true
+            : updatedBirbPosition === 0
+              ? true
+              : false;
+
+    const hitbox = s.rules.hitbox ?? SPRITE_HITBOX;
+
+    // first pipe hit on the way, pipes hit before are gone through while the birb is level with them
+    const pipeContact: PipeContact | undefined = firstPipeContact(
+        birbBox(s.birbPosition, hitbox),
+        updatedBirbPosition - s.birbPosition,
+        pipeQueuePass.filter(p => !s.phasingPipes.includes(p.time)),
+    );
+
+    // a shield takes the next hit that would cost a life, and a pipe hit is then gone through
+    const shieldLost: boolean =
+        s.shield &&
+        (!!pipeContact || (hitCanvas && s.rules.canvasHitsCostLife)) &&
+        currentTime >= s.invincibleUntil;
+    const contact = shieldLost ? undefined : pipeContact;
+
+    // flying into a gap's edge stops the birb there, running into the front of a pipe does not
+    const newBirbPosition: number =
+        contact?.face === "bottom" // underside of the top half
+            ? contact.pipe.gapTop - hitbox.y
+            : contact?.face === "top" // top of the bottom half
+              ? contact.pipe.gapBottom - hitbox.y - hitbox.height
+              : updatedBirbPosition;
+
+    // check if it hit top or bottom, true if hit top
+    const hitPipeTop: boolean = contact?.half === "top";
+
+    const hitCanvasTop: boolean = updatedBirbPosition === 0;
+
+    const collideFrame: boolean = !!contact || hitCanvas; //hit anything this frame?
+
+    // randomizer, seed is updated so we can randomize in future states
+    const seed1 = collideFrame ? RNG.hash(s.rngSeed) : s.rngSeed;
+    const r = collideFrame ? RNG.scale(seed1) : 0; // [-1,1]
+    const bounce = collideFrame
+        ? (s.rules.bounce.mean + s.rules.bounce.spread * r) * speed
+        : 0;
+
+    //birb velocity is updated to the calculated value if no collide, otherwise updated to the randomized velocity
+    const newBirbVelocity: number = !collideFrame
+        ? updatedBirbVelocity
+        : hitCanvasTop || hitPipeTop
+          ? bounce
+          : -bounce;
+
+    //check if we need to reduce live, hits are free for a while after losing one
+    const loseLife: boolean =
+        !shieldLost &&
+        (!!contact || (hitCanvas && s.rules.canvasHitsCostLife)) &&
+        currentTime >= s.invincibleUntil;
+    const livesLeft: number = loseLife
+        ? s.birbLives - 1 <= 0
+            ? 0
+            : s.birbLives - 1
+        : s.birbLives;
+
+    // pickups touched on the way, a life taken saving the birb from losing its last
+    const taken: readonly Pipe[] = touchedPickups(
+        birbBox(s.birbPosition, hitbox),
+        newBirbPosition - s.birbPosition,
+        pipeQueuePass,
+        Pickups.SIZE,
+    );
+    const effects: PickupEffects = taken.reduce<PickupEffects>(
+        (e, p) => collect(e, p.pickup!, currentTime),
+        {
+            bonus: s.bonus,
+            birbLives: livesLeft,
+            shield: s.shield && !shieldLost,
+            slowUntil: s.slowUntil,
+        },
+    );
+    const newBirbLives: number = effects.birbLives;
+
+    /**
+     * Pipes without the pickups taken from them this step.
+     *
+     * @param pipes the pipes
+     * @returns the pipes, the pickups taken gone
+     */
+    const untaken = (pipes: Pipe[]): Pipe[] =>
+        taken.length === 0
+            ? pipes
+            : pipes.map(p =>
+                  taken.some(t => t.time === p.time)
+                      ? { ...p, pickup: undefined }
+                      : p,
+              );
+
+    //pipes are told apart by their time, and gone through until the birb is past them
+    const newBirb = birbBox(newBirbPosition, hitbox);
+    const phasingPipes: readonly number[] = [
+        ...s.phasingPipes,
+        ...(pipeContact ? [pipeContact.pipe.time] : []),
+    ].filter(time =>
+        pipeQueueUpdated.some(p => p.time === time && besidePipe(newBirb, p)),
+    );
+
+    // update the score according to how many pipes were passed this step
+    const scoreUpdate: number =
+        s.score +
+        pipeQueuePass.filter((p: Pipe) => p.passed === true).length -
+        pipeQueue.filter((p: Pipe) => p.passed === true).length;
+
+    // an endless run forgets pipes once they have left the screen
+    const pipesKept: Pipe[] = s.endless
+        ? pipeQueueUpdated.filter(p => !(p.passed && p.age > p.travelMs))
+        : pipeQueueUpdated;
+
+    const newGameOver: boolean = newBirbLives === 0 ? true : false; //false if game is still ongoing, true if lost
+
+    const rngSeed2: number = collideFrame ? seed1 : s.rngSeed; //update seed
+
+    // what happened this step, for anything listening to the game
+    const events: readonly GameEvent[] = [
+        ...(contact
+            ? [
+                  {
+                      type: "pipeHit",
+                      t: currentTime,
+                      pipe: contact.pipe.time,
+                      half: contact.half,
+                  } as const,
+              ]
+            : []),
+        ...(shieldLost
+            ? [{ type: "shieldLost", t: currentTime } as const]
+            : []),
+        ...taken.map(
+            p =>
+                ({
+                    type: "collected",
+                    t: currentTime,
+                    pipe: p.time,
+                    pickup: p.pickup!,
+                }) as const,
+        ),
+        ...(hitCanvas
+            ? [
+                  {
+                      type: "bounced",
+                      t: currentTime,
+                      edge: hitCanvasTop ? "ceiling" : "floor",
+                  } as const,
+              ]
+            : []),
+        ...(loseLife
+            ? [
+                  {
+                      type: "lifeLost",
+                      t: currentTime,
+                      lives: newBirbLives,
+                  } as const,
+                  ...(s.rules.invincibilityMs > 0 && !newGameOver
+                      ? [
+                            {
+                                type: "invincible",
+                                t: currentTime,
+                                until:
+                                    currentTime +
+                                    s.rules.invincibilityMs / speed,
+                            } as const,
+                        ]
+                      : []),
+              ]
+            : []),
+        ...pipeQueueUpdated
+            .filter((p, i) => p.passed && !pipeQueue[i].passed && p.time <= now)
+            .map(
+                (p, i) =>
+                    ({
+                        type: "pipePassed",
+                        t: currentTime,
+                        pipe: p.time,
+                        score: s.score + i + 1,
+                    }) as const,
+            ),
+        ...(newGameOver ? [{ type: "gameOver", t: currentTime } as const] : []),
+    ];
+
+    const next: State = {
+        ...s,
+        birbPosition: newBirbPosition,
+        prevBirbPosition: s.birbPosition,
+        birbVelocity: newBirbVelocity,
+        birbLives: newBirbLives,
+        elapsedTime: currentTime,
+        score: scoreUpdate,
+        gameOver: newGameOver,
+        endless: generated?.course,
+        pipeRead: untaken(pipesKept),
+        pipeRendering: untaken(nextPipe),
+        rngSeed: rngSeed2,
+        phasingPipes,
+        hits: collideFrame ? s.hits + 1 : s.hits,
+        invincibleUntil: loseLife
+            ? currentTime + s.rules.invincibilityMs / speed
+            : s.invincibleUntil,
+        bonus: effects.bonus,
+        shield: effects.shield,
+        slowUntil: effects.slowUntil,
+        courseLag,
+        ghostBirbPos,
+        events: [...s.events, ...events],
+    };
+    return hasWon(next)
+        ? {
+              ...next,
+              events: [
+                  ...next.events,
+                  { type: "won", t: currentTime, score: next.score },
+              ],
+          }
+        : newGameOver && next.checkpoint
+          ? respawn(next, next.checkpoint)
+          : events.some(e => e.type === "pipePassed")
+            ? withCheckpoint(next)
+            : next;
+};
+
+/**
+ * Advances the game: applies the player's input, then simulates `dt` ms.
+ *
+ * A restart returns a fresh run on the same course, seed and ghost. A pause
+ * toggles the paused flag; while paused, flaps and time are ignored, and a
+ * step takes exactly one tick, whatever `dt` is, and stays paused. The new
+ * state lists the events of this step only.
+ *
+ * @param s Current state
+ * @param input What the player did this step
+ * @param dt Time to advance in ms, 0 to only apply the input
+ * @returns Updated state
+ */
+export const step = (s: State, input: Input, dt: number): State => {
+    const restarted = input.restart
+        ? createInitialState(
+              s.course,
+              s.seed,
+              s.ghosts,
+              s.rules,
+              s.endless?.seed,
+          )
+        : { ...s, events: [] }; // only this step's events are kept
+    const toggled = input.pause
+        ? { ...restarted, paused: !restarted.paused }
+        : restarted;
+    const flapped = input.flap ? flap(toggled) : toggled;
+    return input.step && flapped.paused
+        ? {
+              ...tick({ ...flapped, paused: false }, Constants.TICK_RATE_MS),
+              paused: true,
+          }
+        : tick(flapped, dt);
+};
+
+/**
+ * Applies a signal of a run: a tick takes a step of the game clock, and a
+ * player action is applied without time passing.
+ *
+ * @param s Current state
+ * @param signal player action or tick
+ * @returns Updated state
+ */
+export const applySignal = (s: State, signal: Signal): State =>
+    signal === "Tick"
+        ? step(s, NoInput, Constants.TICK_RATE_MS)
+        : step(
+              s,
+              {
+                  ...NoInput,
+                  flap: signal === "flap",
+                  pause: signal === "pause",
+                  step: signal === "step",
+              },
+              0,
+          );
@@ -0,0 +1,135 @@
+/**
+ * Time travel: the recent past of a run, to rewind it or look back over it.
+ *
+ * Keeping every state of a run would grow without end, so a timeline keeps
+ * a snapshot of the state every `SNAPSHOT_FRAMES` ticks, and the signals
+ * applied since, for at most `MAX_SNAPSHOTS` snapshots. Since the simulation
+ * is deterministic, any frame in between is simulated again from the
+ * snapshot before it. A frame is the state right after a tick.
+ */
+
+import { applySignal } from "./state";
+import type { Signal, Snapshot, State, Timeline } from "./types";
+
+/** Ticks between two snapshots, about a second */
+export const SNAPSHOT_FRAMES = 60;
+
+/** Snapshots kept, about ten minutes of a run */
+export const MAX_SNAPSHOTS = 600;
+
+/** Frames gone back for every tick rewind is held, so it goes back at double speed */
+export const REWIND_FRAMES = 2;
+
+/**
+ * A timeline with nothing in it but the start of a run.
+ *
+ * @param s state at the start of the run
+ * @returns the timeline
+ */
+export const startTimeline = (s: State): Timeline => ({
+    state: s,
+    frame: 0,
+    snapshots: [{ frame: 0, state: s, signals: [] }],
+    signals: [],
+});
+
+/**
+ * Applies a signal, keeping it in the timeline.
+ *
+ * @param t the timeline
+ * @param signal player action or tick
+ * @param maxSnapshots most snapshots to keep, the oldest are dropped
+ * @returns the timeline with the new state
+ */
+export const advance = (
+    t: Timeline,
+    signal: Signal,
+    maxSnapshots: number = MAX_SNAPSHOTS,
+): Timeline => {
+    const state = applySignal(t.state, signal);
+    const frame = signal === "Tick" ? t.frame + 1 : t.frame;
+    const signals = [...t.signals, signal];
+    if (signal !== "Tick" || frame % SNAPSHOT_FRAMES !== 0)
+        return { state, frame, snapshots: t.snapshots, signals };
+
+    // the latest snapshot is closed with its signals, and a new one taken
+    const last = t.snapshots[t.snapshots.length - 1];
+    return {
+        state,
+        frame,
+        snapshots: [
+            ...t.snapshots.slice(0, -1),
+            { ...last, signals },
+            { frame, state, signals: [] },
+        ].slice(-maxSnapshots),
+        signals: [],
+    };
+};
+
+/**
+ * The first frame a timeline still has.
+ *
+ * @param t the timeline
+ * @returns frame of its oldest snapshot
+ */
+export const firstFrame = (t: Timeline): number => t.snapshots[0].frame;
+
+/**
+ * The snapshot a frame is simulated from, and the signals up to the frame.
+ *
+ * @param t the timeline
+ * @param frame frame to go to, kept within the timeline
+ * @returns the snapshot and the signals to apply to it
+ */
+const pathTo = (
+    t: Timeline,
+    frame: number,
+): Readonly<{ snapshot: Snapshot; index: number; signals: Signal[] }> => {
+    const target = Math.min(Math.max(frame, firstFrame(t)), t.frame);
+    const index = t.snapshots.findLastIndex(s => s.frame <= target);
+    const snapshot = t.snapshots[index];
+    const after =
+        index === t.snapshots.length - 1 ? t.signals : snapshot.signals;
+    const ticks = after
+        .map((signal, i) => ({ signal, i }))
+        .filter(({ signal }) => signal === "Tick")
+        .slice(0, target - snapshot.frame);
+    const end = ticks.length ? ticks[ticks.length - 1].i + 1 : 0;
+    return { snapshot, index, signals: after.slice(0, end) };
+};
+
+/**
+ * The state at a frame of the timeline, simulated again from a snapshot.
+ *
+ * @param t the timeline
+ * @param frame frame to look at, kept within the timeline
+ * @returns the state right after that frame's tick
+ */
+export const stateAt = (t: Timeline, frame: number): State => {
+    const { snapshot, signals } = pathTo(t, frame);
+    return signals.reduce(applySignal, snapshot.state);
+};
+
+/**
+ * Goes back to a frame, forgetting everything after it, so the run carries
+ * on from there.
+ *
+ * @param t the timeline
+ * @param frame frame to go back to, kept within the timeline
+ * @returns the timeline ending at that frame
+ */
+export const rewindTo = (t: Timeline, frame: number): Timeline => {
+    const { snapshot, index, signals } = pathTo(t, frame);
+    return {
+        state: signals.reduce(applySignal, snapshot.state),
+        frame: snapshot.frame + signals.filter(s => s === "Tick").length,
+        snapshots:
+            index === t.snapshots.length - 1
+                ? t.snapshots
+                : [
+                      ...t.snapshots.slice(0, index),
+                      { ...snapshot, signals: [] },
+                  ],
+        signals,
+    };
+};
@@ -0,0 +1,400 @@
+/**
+ * Constants and types shared by the simulation core, the browser adapters
+ * and the tests.
+ */
+
+import type { Observable } from "rxjs";
+import type { Practice } from "./practice";
+
+/** Constants */
+
+export const Viewport = {
+    CANVAS_WIDTH: 600,
+    CANVAS_HEIGHT: 400,
+} as const;
+
+export const Birb = {
+    WIDTH: 42,
+    HEIGHT: 30,
+    GRAVITY: 0.6,
+    FLAP_VELOCITY: -7,
+} as const;
+
+export const Constants = {
+    PIPE_WIDTH: 50,
+    PIPE_COLOR: "green",
+    TICK_RATE_MS: 16, // length of a simulation step
+    MAX_FRAME_MS: 100, // longer frames (e.g. a background tab) are not caught up
+    PIPE_TRAVEL_MS: 3000,
+} as const;
+
+export const Bounce = {
+    SPREAD: 4,
+    MEAN: 8, //mean to spread from
+    SEED: 1234,
+};
+
+// User input
+
+/**
+ * What the player can ask for, whichever device they use. A step advances a
+ * paused run by a single tick, to look at it frame by frame.
+ */
+export type Action = "flap" | "pause" | "restart" | "step";
+
+/**
+ * What a key can be bound to: an action, player 2's flap in a two-player
+ * match (a flap like any other otherwise), or rewinding while it is held
+ */
+export type Control = Action | "flap2" | "rewind";
+
+/** An action of one of the players of a local match, seat 0 being player 1 */
+export type SeatAction = Readonly<{ seat: number; action: Action }>;
+
+/** Keys bound to each control, as `KeyboardEvent.code` values */
+export type KeyBindings = Readonly<Record<Control, readonly string[]>>;
+
+/**
+ * Everything the player can do during one step of the simulation.
+ * Inputs are applied before time advances.
+ */
+export type Input = Readonly<{
+    flap: boolean;
+    pause: boolean;
+    restart: boolean;
+    /** take one tick while paused */
+    step: boolean;
+}>;
+
+/** An axis-aligned box, from its top left corner */
+export type Box = Readonly<{
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}>;
+
+/** What a bot sees of a pipe */
+export type PipeView = Readonly<{
+    /** left edge */
+    xpos: number;
+    width: number;
+    /** top and bottom edge of the gap */
+    gapTop: number;
+    gapBottom: number;
+}>;
+
+/** What a bot sees of the game before each tick */
+export type Observation = Readonly<{
+    birbX: number;
+    birbY: number;
+    /** px per tick, positive downwards */
+    birbVelocity: number;
+    /** time in ms since the start of the run */
+    time: number;
+    /** pipes the birb has not got past yet, nearest first */
+    pipes: readonly PipeView[];
+}>;
+
+/** A player in place of the keyboard, deciding whether to flap each tick */
+export type Controller = (o: Observation) => boolean;
+
+/**
+ * A sample of a birb's flight, used to replay a previous run as a ghost. It
+ * is taken at a time of the course, so a ghost stays with the pipes it flew
+ * through however the run's own time went.
+ */
+export type PathPoint = Readonly<{ t: number; y: number }>;
+
+/** A previous run raced against as a ghost birb */
+export type Ghost = Readonly<{
+    id: string;
+    label: string;
+    /** hash of the map the run was played on */
+    mapHash: string;
+    score: number;
+    path: readonly PathPoint[];
+}>;
+
+/** Simulation steps due in an animation frame */
+export type FrameSteps = Readonly<{
+    steps: number;
+    /** time left over after the steps, as a fraction of a step */
+    alpha: number;
+}>;
+
+/** Everything that drives a run: a player action or a tick of the game clock */
+export type Signal = Action | "Tick";
+
+/** Signals of a live run, which may also go back in time a tick at a time */
+export type LiveSignal = Signal | "Rewind";
+
+/** A state kept in a run's timeline, with the signals that followed it */
+export type Snapshot = Readonly<{
+    /** ticks from the start of the run */
+    frame: number;
+    state: State;
+    /** signals since the state, until the next snapshot, none yet for the latest */
+    signals: readonly Signal[];
+}>;
+
+/**
+ * The recent past of a run: its latest state and states taken every so
+ * often, from which any frame in between is simulated again
+ */
+export type Timeline = Readonly<{
+    state: State;
+    /** ticks from the start of the run to the latest state */
+    frame: number;
+    /** oldest first, the first one as far back as the run can go */
+    snapshots: readonly Snapshot[];
+    /** signals since the latest snapshot, kept apart so it is not copied every tick */
+    signals: readonly Signal[];
+}>;
+
+/** A player action, timestamped in ms of its run's game clock (ticks so far) */
+export type InputRecord = Readonly<{ t: number; action: Action }>;
+
+/** Everything needed to reproduce a run frame by frame */
+export type Replay = Readonly<{
+    version: number;
+    seed: number;
+    map: string;
+    ghosts: readonly Ghost[];
+    inputs: readonly InputRecord[];
+    /** rules the run was played by, those of its map for older replays */
+    rules?: GameRules;
+    /** time of the course in ms the run started at, its start if none */
+    startAt?: number;
+}>;
+
+/** What a finished live run leaves behind */
+export type Recording = Readonly<{
+    replay: Replay;
+    /** the run itself, to race against later */
+    ghost: Ghost;
+    mode: Mode;
+    /** false if the run was restarted before it ended */
+    finished: boolean;
+    /** true if a bot flapped in the run */
+    botPlayed: boolean;
+    /** true if the run was rewound, its replay then only has what was kept */
+    rewound: boolean;
+    /** true if the clock ran slower than real time at any tick of the run */
+    slowed: boolean;
+    /** true if the run was stepped frame by frame while paused */
+    stepped: boolean;
+    /** true if the run was practice, started part way through or by practice rules */
+    practice: boolean;
+    /** true if the game changed the level's rules, e.g. to give more lives */
+    customRules: boolean;
+    stats: RunStats;
+    /** the run's recent past, to look back over */
+    timeline: Timeline;
+}>;
+
+/** Ways of playing, kept apart in the high scores */
+export type Mode = "map" | "endless";
+
+/** How a run went */
+export type RunStats = Readonly<{
+    score: number;
+    /** lives left */
+    lives: number;
+    /** time survived in ms */
+    time: number;
+    flaps: number;
+    hits: number;
+}>;
+
+/** A run in the high-score table of its map and mode */
+export type ScoreEntry = RunStats &
+    Readonly<{
+        mapHash: string;
+        mode: Mode;
+        name: string;
+        /** when the run was played, in ms since the epoch */
+        date: number;
+    }>;
+
+/** Where a run's signals come from, and what happens to its recording */
+export type GameOptions = Readonly<{
+    /** player actions, the document's key presses by default */
+    action$?: Observable<Action>;
+    /** game clock, one fixed step per tick on animation frames by default */
+    clock$?: Observable<FrameSteps>;
+    /** how fast the game clock runs, read every tick, 1 by default */
+    clockRate?: () => number;
+    /** recorded run to play back instead of live input */
+    replay?: Replay;
+    /** seed of every run, taken from the clock by default */
+    seed?: number;
+    /** ghosts to race in each new run, the previous run by default */
+    ghosts?: () => readonly Ghost[];
+    /** called with the recording of every finished live run */
+    onRecorded?: (r: Recording) => void;
+    /** rules to play by instead of the defaults and the map's win condition */
+    rules?: Partial<GameRules>;
+    /** bot flapping for the player, read every tick, none by default */
+    bot?: () => Controller | undefined;
+    /** is the player holding rewind? Read every tick, never by default */
+    rewinding?: () => boolean;
+    /** time of the course in ms to start every run at, to try out part of it */
+    startAt?: number;
+    /** practise from a pipe at a game speed instead, going back to the last pipe passed */
+    practice?: Practice;
+}>;
+
+/** A problem found in a map file */
+export type MapError = Readonly<{
+    /** 1-based line number in the file */
+    line: number;
+    message: string;
+}>;
+
+// State processing
+/** A gap moving up and down around its centre */
+export type Oscillation = Readonly<{
+    /** how far the gap centre moves each way, as a fraction of the canvas height */
+    amplitude: number;
+    /** time for one full swing up and down, in ms */
+    periodMs: number;
+}>;
+
+/** When a level counts as won */
+export type WinCondition = Readonly<
+    { type: "score"; score: number } | { type: "allPipes" } | { type: "none" }
+>;
+
+/** How a run is won and lost */
+export type GameRules = Readonly<{
+    /** lives at the start of a run */
+    lives: number;
+    win: WinCondition;
+    /** does hitting the floor or the ceiling cost a life? */
+    canvasHitsCostLife: boolean;
+    /** time in ms after losing a life in which no more lives are lost */
+    invincibilityMs: number;
+    /** speed the birb bounces off at after a hit, in px per tick */
+    bounce: Readonly<{ mean: number; spread: number }>;
+    /** part of the birb's sprite that collides, the whole sprite by default */
+    hitbox?: Box;
+    /**
+     * how fast the game runs, 1 by default: at 0.5 the pipes take twice as
+     * long to cross and the birb falls and flaps at half the speed
+     */
+    speed?: number;
+    /** does a run that loses its last life go back to the last pipe passed instead of ending? */
+    checkpoints?: boolean;
+}>;
+
+/** Where generation of an endless course has got to */
+export type EndlessCourse = Readonly<{
+    /** seed the course was generated from */
+    seed: number;
+    /** latest random hash */
+    rng: number;
+    /** time in ms at which the next pipe enters the screen */
+    time: number;
+    /** centre of the previous gap */
+    gapY: number;
+}>;
+
+/** Optional description of a level */
+export type LevelInfo = Readonly<{
+    name?: string;
+    author?: string;
+    win?: WinCondition;
+    /** pipes are generated from this seed instead of listed */
+    endless?: Readonly<{ seed: number }>;
+}>;
+
+/**
+ * Something to collect: a coin for a bonus point, a shield that takes the
+ * next hit, an extra life, or time slowed down for a while
+ */
+export type PickupKind = "coin" | "shield" | "life" | "slow";
+
+export type Pipe = Readonly<{
+    /** centre of the gap when still, as a fraction of the canvas height */
+    gapY: number;
+    gapHeight: number;
+    time: number;
+    /** time to cross the screen in ms */
+    travelMs: number;
+    width: number;
+    color: string;
+    oscillation?: Oscillation;
+    /** collectible in the middle of the gap, until the birb takes it */
+    pickup?: PickupKind;
+    age: number;
+    xpos: number;
+    prevXpos: number;
+    birdPassing: boolean;
+    passed: boolean;
+    /** top and bottom edge of the gap this step */
+    gapTop: number;
+    gapBottom: number;
+}>;
+
+export type State = Readonly<{
+    birbPosition: number;
+    /** birbPosition before the last step, to interpolate from */
+    prevBirbPosition: number;
+    birbVelocity: number;
+    birbLives: number;
+    elapsedTime: number;
+    score: number;
+    gameOver: boolean;
+    rules: GameRules;
+    course: readonly Pipe[];
+    /** pipes still to come in endless mode */
+    endless?: EndlessCourse;
+    pipeRead?: Pipe[];
+    pipeRendering?: Pipe[];
+    pipeHistory?: Pipe[];
+    pipePassing?: Pipe;
+    seed: number;
+    rngSeed: number;
+    /** times of the pipes the birb has hit and goes through while level with them */
+    phasingPipes: readonly number[];
+    /** time until which hits cost no life */
+    invincibleUntil: number;
+    /** points from coins, on top of the pipes passed */
+    bonus: number;
+    /** does the next hit cost nothing, the birb going through the pipe? */
+    shield: boolean;
+    /** time until which the course is slowed down */
+    slowUntil: number;
+    /** time of the course in ms lost to slowing down so far */
+    courseLag: number;
+    /** flaps and hits so far in the run */
+    flaps: number;
+    hits: number;
+    ghosts: readonly Ghost[];
+    /** y position of each ghost, undefined once its run has ended */
+    ghostBirbPos: readonly (number | undefined)[];
+    paused: boolean;
+    /** what happened in the step that led to this state, in order */
+    events: readonly GameEvent[];
+    /** the run as it was at the last pipe passed, or its start, if it has checkpoints */
+    checkpoint?: State;
+}>;
+
+/**
+ * Something that happened in a run, at `t` ms of the run. Pipes are told
+ * apart by their `time`.
+ */
+export type GameEvent = Readonly<
+    | { type: "flap"; t: number }
+    | { type: "pipePassed"; t: number; pipe: number; score: number }
+    | { type: "pipeHit"; t: number; pipe: number; half: "top" | "bottom" }
+    | { type: "bounced"; t: number; edge: "ceiling" | "floor" }
+    | { type: "lifeLost"; t: number; lives: number }
+    | { type: "invincible"; t: number; until: number }
+    | { type: "gameOver"; t: number }
+    | { type: "respawned"; t: number }
+    | { type: "collected"; t: number; pipe: number; pickup: PickupKind }
+    | { type: "shieldLost"; t: number }
+    | { type: "won"; t: number; score: number }
+>;
@@ -0,0 +1,46 @@
+/**
+ * Utility functions and classes with no dependency on the game state.
+ */
+
+/**
+ * Linear congruential generator used for every random decision in the game,
+ * so a run can be reproduced from its seed alone.
+ */
+export abstract class RNG {
+    private static m = 0x80000000; // 2^31
+    private static a = 1103515245;
+    private static c = 12345;
+
+    public static hash = (seed: number): number =>
+        (((RNG.a * seed + RNG.c) % RNG.m) + RNG.m) % RNG.m; // in [0, m), whatever the sign of the seed
+
+    public static scale = (hash: number): number =>
+        (2 * hash) / (RNG.m - 1) - 1; // in [-1, 1]
+}
+
+/**
+ * Hashes a string with 32-bit FNV-1a, e.g. to tell map files apart.
+ *
+ * @param text string to hash
+ * @returns hash as 8 hex digits
+ */
+export const hashString = (text: string): string =>
+    text
+        .split("")
+        .reduce(
+            (h, c) => Math.imul(h ^ c.charCodeAt(0), 0x01000193) >>> 0,
+            0x811c9dc5,
+        )
+        .toString(16)
+        .padStart(8, "0");
+
+/**
+ * Linear interpolation between two numbers.
+ *
+ * @param from value at t = 0
+ * @param to value at t = 1
+ * @param t fraction of the way from `from` to `to`
+ * @returns interpolated value
+ */
+export const lerp = (from: number, to: number, t: number): number =>
+    from + (to - from) * t;
@@ -0,0 +1,1120 @@
+/**
+ * Rendering (side effects).
+ *
+ * The renderer keeps a retained scene inside its own `<g>` layer of
+ * #svgCanvas: one element per pipe (keyed by the pipe's `time`), per ghost
+ * and for the birb. Elements are created once, only their changed attributes
+ * are touched on later frames, and they are removed when they leave the
+ * screen. Nothing outside the layer is touched; the screens over the canvas
+ * (title, countdown, pause and results) are HTML shown by `renderScreen`,
+ * and the map editor draws its own layer over everything (`renderEditor`).
+ *
+ * Behind the pipes, the background scrolls in layers at different speeds,
+ * with the ground in front of them. The birb flaps its wing and tilts with
+ * its speed, blinks while it can fly through pipes, and the screen shakes
+ * when it bounces (see `sprites.ts`). Images that did not load are left out,
+ * the birb being drawn as a plain ellipse without them.
+ *
+ * A debug layer on top of the scene can be turned on to draw the hitboxes,
+ * the gaps and the ghosts' paths, with a HUD of the frame rate and the state.
+ */
+
+import { SPRITE_HITBOX, pickupBox, pipeBoxes } from "./collision";
+import { FPS_WINDOW, debugLines, frameRate, ghostTrail } from "./debug";
+import {
+    PIPE_SPAN_PX,
+    editorProblems,
+    gapEdges,
+    playtestFrom,
+    timeAt,
+    timelineX,
+    type Editor,
+} from "./editor";
+import {
+    compareToGhost,
+    generatedFor,
+    type GeneratedCourse,
+    type GhostGap,
+} from "./ghosts";
+import { matchResult, playerLabel } from "./match";
+import { Pickups, activeEffects } from "./pickups";
+import type { LobbyEntry } from "./race";
+import {
+    ASSET_URLS,
+    BACKGROUND_LAYERS,
+    BIRB_SPRITE,
+    GROUND,
+    STILL,
+    WINGS,
+    frameTime,
+    isBlinkedOut,
+    layerOffset,
+    shakeOffset,
+    sheetFrame,
+    tilt,
+    type Animation,
+    type ParallaxLayer,
+} from "./sprites";
+import { countdownText, type Screen } from "./screens";
+import { BIRB_X, birbBox, courseTime, isGameEnd } from "./state";
+import {
+    Birb,
+    Viewport,
+    type LevelInfo,
+    type MapError,
+    type PickupKind,
+    type Pipe,
+    type RunStats,
+    type ScoreEntry,
+    type State,
+} from "./types";
+import { lerp } from "./util";
+
+/**
+ * Creates an SVG element with the given properties.
+ *
+ * See https://developer.mozilla.org/en-US/docs/Web/SVG/Element for valid
+ * element names and properties.
+ *
+ * @param namespace Namespace of the SVG element
+ * @param name SVGElement name
+ * @param props Properties to set on the SVG element
+ * @returns SVG element
+ */
+export const createSvgElement = (
+    namespace: string | null,
+    name: string,
+    props: Record<string, string> = {},
+): SVGElement => {
+    const elem = document.createElementNS(namespace, name) as SVGElement;
+    Object.entries(props).forEach(([k, v]) => elem.setAttribute(k, v));
+    return elem;
+};
+
+/**
+ * Sets attributes on an element, skipping those that already have the value.
+ *
+ * @param elem element to update
+ * @param props attributes to set
+ */
+const updateAttributes = (elem: Element, props: Record<string, string>): void =>
+    Object.entries(props).forEach(([k, v]) => {
+        if (elem.getAttribute(k) !== v) elem.setAttribute(k, v);
+    });
+
+/**
+ * Sets the text of an element, unless it already has it.
+ *
+ * @param elem element to update
+ * @param text text to show
+ */
+const updateText = (elem: Element, text: string): void => {
+    if (elem.textContent !== text) elem.textContent = text;
+};
+
+/**
+ * Keeps one element per key inside a layer.
+ *
+ * @param layer group the elements live in
+ * @param create makes the element for a new key
+ * @returns a function that, given the keys to show this frame, removes the
+ *   elements of other keys, creates the missing ones and returns them all
+ */
+const keyedLayer = (
+    layer: SVGElement,
+    create: (key: string) => SVGElement,
+): ((keys: readonly string[]) => ReadonlyMap<string, SVGElement>) => {
+    const nodes = new Map<string, SVGElement>();
+    return keys => {
+        const wanted = new Set(keys);
+        nodes.forEach((elem, key) => {
+            if (!wanted.has(key)) {
+                elem.remove();
+                nodes.delete(key);
+            }
+        });
+        keys.forEach(key => {
+            if (!nodes.has(key)) {
+                const elem = create(key);
+                layer.appendChild(elem);
+                nodes.set(key, elem);
+            }
+        });
+        return nodes;
+    };
+};
+
+/** Colours telling the ghosts apart, used in turn */
+export const GHOST_TINTS = [
+    "#1e90ff",
+    "#ff8c00",
+    "#9932cc",
+    "#2e8b57",
+] as const;
+
+/**
+ * Colours telling the players of a local match apart, on their labels and
+ * on every birb but player 1's
+ */
+export const PLAYER_TINTS = ["black", "#dc143c"] as const;
+
+/** Symbol drawn on each kind of pickup, its colour set in the style sheet */
+const PickupSymbols: Readonly<Record<PickupKind, string>> = {
+    coin: "$",
+    shield: "S",
+    life: "+",
+    slow: "~",
+};
+
+/**
+ * Describes how far the player is ahead of or behind a ghost
+ *
+ * @param gap distance to the ghost
+ * @returns e.g. "ahead by 120 px / 2 pipes"
+ */
+const describeGap = ({ px, pipes }: GhostGap): string =>
+    px === 0
+        ? "level"
+        : `${px > 0 ? "ahead" : "behind"} by ${Math.abs(px)} px / ${Math.abs(pipes)} pipe${Math.abs(pipes) === 1 ? "" : "s"}`;
+
+/**
+ * Lists the problems found in the map file, or hides the list if there are none.
+ *
+ * @param errors problems found, a line of 0 for problems with the whole file
+ */
+export const renderMapErrors = (errors: readonly MapError[]): void => {
+    const box = document.querySelector("#mapErrors") as HTMLElement;
+    const list = box.querySelector("ul") as HTMLElement;
+    list.replaceChildren(
+        ...errors.map(({ line, message }) => {
+            const item = document.createElement("li");
+            item.textContent = line > 0 ? `Line ${line}: ${message}` : message;
+            return item;
+        }),
+    );
+    box.hidden = errors.length === 0;
+};
+
+/**
+ * Shows why a file could not be imported next to where it was chosen, or
+ * hides the message once one was.
+ *
+ * @param id id of the element the message goes in
+ * @param message what went wrong, none once a file was imported
+ */
+export const renderImportError = (id: string, message?: string): void => {
+    const line = document.querySelector(`#${id}`) as HTMLElement;
+    line.textContent = message ?? "";
+    line.hidden = message === undefined;
+};
+
+/**
+ * Shows the name and author of the level, if it has them.
+ *
+ * @param info description of the level
+ */
+export const renderLevelInfo = (info: LevelInfo): void => {
+    const box = document.querySelector("#levelInfo") as HTMLElement;
+    box.textContent = [info.name, info.author ? `by ${info.author}` : undefined]
+        .filter(Boolean)
+        .join(" ");
+    box.hidden = !info.name && !info.author;
+};
+
+/**
+ * Shows the high-score table of the current map and mode, and what the
+ * game over board says about it.
+ *
+ * @param table runs of the table, best first
+ * @param latest rank of the run just finished, if it made the table
+ */
+export const renderScores = (
+    table: readonly ScoreEntry[],
+    latest?: number,
+): void => {
+    const body = document.querySelector("#scoreTable tbody") as HTMLElement;
+    const note = document.querySelector("#bestNote") as HTMLElement;
+    body.replaceChildren(
+        ...table.map((e, i) => {
+            const row = document.createElement("tr");
+            row.classList.toggle("latest", i === latest);
+            row.classList.toggle("newBest", i === latest && i === 0);
+            row.append(
+                ...[
+                    String(i + 1),
+                    e.name,
+                    String(e.score),
+                    String(e.lives),
+                    `${(e.time / 1000).toFixed(1)}s`,
+                    String(e.flaps),
+                    String(e.hits),
+                ].map(text => {
+                    const cell = document.createElement("td");
+                    cell.textContent = text;
+                    return cell;
+                }),
+            );
+            return row;
+        }),
+    );
+    note.textContent =
+        latest === 0
+            ? "New best!"
+            : table.length
+              ? `Best: ${table[0].score} by ${table[0].name}`
+              : "";
+};
+
+/** How a player of a local game or an online race is doing */
+export type PlayerStanding = Readonly<{
+    /** their run, undefined if they are yet to play */
+    stats: RunStats | undefined;
+    /** e.g. "out" or "playing" */
+    note: string;
+    /** shown instead of their seat, e.g. in an online race */
+    name?: string;
+}>;
+
+/**
+ * Shows every player of a local game or an online race in the HUD, and on
+ * the results screen how each did and who won. Nothing is shown for a
+ * single player.
+ *
+ * @param standings each player, player 1 first
+ * @param next player whose turn it is next, in hot-seat
+ */
+export const renderPlayers = (
+    standings: readonly PlayerStanding[],
+    next?: number,
+): void => {
+    const hud = document.querySelector("#players") as HTMLElement;
+    const table = document.querySelector("#playerResults") as HTMLElement;
+    const result = document.querySelector("#matchResult") as HTMLElement;
+    const label = (seat: number): string =>
+        standings[seat]?.name ?? playerLabel(seat);
+    hud.replaceChildren(
+        ...standings.map(({ stats, note }, seat) => {
+            const line = document.createElement("div");
+            line.style.color = PLAYER_TINTS[seat % PLAYER_TINTS.length];
+            line.textContent = [
+                `${label(seat)}:`,
+                ...(stats ? [`${stats.score} pts, ${stats.lives} lives`] : []),
+                ...(note ? [`(${note})`] : []),
+            ].join(" ");
+            return line;
+        }),
+    );
+    (table.querySelector("tbody") as HTMLElement).replaceChildren(
+        ...standings.map(({ stats }, seat) => {
+            const row = document.createElement("tr");
+            row.append(
+                ...[
+                    label(seat),
+                    stats ? String(stats.score) : "-",
+                    stats ? `${(stats.time / 1000).toFixed(1)}s` : "-",
+                    stats ? String(stats.hits) : "-",
+                ].map(text => {
+                    const cell = document.createElement("td");
+                    cell.textContent = text;
+                    return cell;
+                }),
+            );
+            return row;
+        }),
+    );
+    const results = standings.map(({ stats }) => stats);
+    result.textContent =
+        matchResult(results, label) ||
+        (next === undefined ? "" : `${label(next)} to play next`);
+    hud.hidden = table.hidden = result.hidden = standings.length === 0;
+};
+
+/**
+ * Shows who is in the lobby of an online race, and what is being waited for.
+ *
+ * @param players everyone in the lobby
+ * @param self the player's own id
+ * @param status e.g. "Waiting for everyone to be ready"
+ */
+export const renderLobby = (
+    players: readonly LobbyEntry[],
+    self: string,
+    status: string,
+): void => {
+    const section = document.querySelector("#race") as HTMLElement;
+    const lobby = document.querySelector("#raceLobby") as HTMLElement;
+    const note = document.querySelector("#raceStatus") as HTMLElement;
+    lobby.replaceChildren(
+        ...players.map(p => {
+            const line = document.createElement("div");
+            line.textContent = `${p.name}${p.id === self ? " (you)" : ""}${p.ready ? ": ready" : ""}`;
+            return line;
+        }),
+    );
+    note.textContent = status;
+    section.hidden = false;
+};
+
+/**
+ * Shows the overlay of a screen over the canvas, and hides the others.
+ *
+ * @param screen screen to show
+ */
+export const renderScreen = (screen: Screen): void => {
+    const overlays: Readonly<Record<Screen["kind"], HTMLElement | null>> = {
+        title: document.querySelector("#titleScreen"),
+        countdown: document.querySelector("#countdownScreen"),
+        playing: null, // nothing over the game
+        paused: document.querySelector("#pauseScreen"),
+        results: document.querySelector("#resultsScreen"),
+        editing: document.querySelector("#editor"), // the editor's tools, beside its timeline
+    };
+    Object.entries(overlays).forEach(([kind, overlay]) => {
+        if (overlay) overlay.hidden = kind !== screen.kind;
+    });
+    if (screen.kind === "countdown")
+        updateText(
+            document.querySelector("#countdownText") as HTMLElement,
+            countdownText(screen.ms),
+        );
+    if (screen.kind === "results") {
+        const { stats } = screen;
+        [
+            {
+                id: "#resultsTitle",
+                text: screen.won ? "You Won!" : "Game Over!",
+            },
+            { id: "#resultScore", text: String(stats.score) },
+            { id: "#resultTime", text: `${(stats.time / 1000).toFixed(1)}s` },
+            { id: "#resultHits", text: String(stats.hits) },
+        ].forEach(({ id, text }) =>
+            updateText(document.querySelector(id) as HTMLElement, text),
+        );
+        (document.querySelector("#practiceNote") as HTMLElement).hidden =
+            !screen.practice;
+    }
+};
+
+/**
+ * Draws the map editor: its timeline over the canvas, with a mark every
+ * second, the pipes (outlined if something is wrong with them) and where a
+ * playtest would start, and in the side bar the selected pipe and every
+ * problem with the course.
+ *
+ * @returns function drawing the editor, which it hides when given undefined
+ */
+export const renderEditor = (): ((e: Editor | undefined) => void) => {
+    const svg = document.querySelector("#svgCanvas") as SVGSVGElement;
+    const ns = svg.namespaceURI;
+    const selection = document.querySelector("#editorSelection") as HTMLElement;
+    const problemList = document.querySelector(
+        "#editorProblems",
+    ) as HTMLElement;
+    const scroll = document.querySelector("#editorScroll") as HTMLInputElement;
+    const playtest = document.querySelector("#playtest") as HTMLButtonElement;
+    const deletePipe = document.querySelector(
+        "#deletePipe",
+    ) as HTMLButtonElement;
+
+    // drawn over the game, whose scene goes in before everything else
+    const layer = createSvgElement(ns, "g", {
+        id: "editorLayer",
+        visibility: "hidden",
+    });
+    const markLayer = createSvgElement(ns, "g");
+    const pipeLayer = createSvgElement(ns, "g");
+    const playhead = createSvgElement(ns, "line", {
+        class: "editorPlayhead",
+        y1: "0",
+        y2: `${Viewport.CANVAS_HEIGHT}`,
+    });
+    layer.append(
+        createSvgElement(ns, "rect", {
+            class: "editorBackdrop",
+            width: `${Viewport.CANVAS_WIDTH}`,
+            height: `${Viewport.CANVAS_HEIGHT}`,
+        }),
+        markLayer,
+        pipeLayer,
+        playhead,
+    );
+    svg.appendChild(layer);
+
+    const marks = keyedLayer(markLayer, () => {
+        const mark = createSvgElement(ns, "g", { class: "editorMark" });
+        mark.append(
+            createSvgElement(ns, "line", {
+                y1: "0",
+                y2: `${Viewport.CANVAS_HEIGHT}`,
+            }),
+            createSvgElement(ns, "text", { x: "2", y: "12" }),
+        );
+        return mark;
+    });
+    const pipes = keyedLayer(pipeLayer, () => {
+        const pipe = createSvgElement(ns, "g", { class: "editorPipe" });
+        pipe.append(
+            createSvgElement(ns, "rect", { x: "0", y: "0" }),
+            createSvgElement(ns, "rect", { x: "0" }),
+        );
+        return pipe;
+    });
+
+    /** the editor last drawn, not drawn again */
+    const shown: { value: Editor | undefined } = { value: undefined };
+
+    return e => {
+        if (e === shown.value) return;
+        shown.value = e;
+        updateAttributes(layer, { visibility: e ? "visible" : "hidden" });
+        if (!e) return;
+
+        const end = timeAt(e, Viewport.CANVAS_WIDTH);
+        const seconds = Array.from(
+            { length: Math.floor(end / 1000) - Math.ceil(e.scroll / 1000) + 1 },
+            (_, i) => Math.ceil(e.scroll / 1000) + i,
+        );
+        const markNodes = marks(seconds.map(String));
+        seconds.forEach(second => {
+            const mark = markNodes.get(String(second))!;
+            updateAttributes(mark, {
+                transform: `translate(${timelineX(e, second * 1000)} 0)`,
+            });
+            updateText(mark.lastElementChild!, `${second}s`);
+        });
+
+        const problems = editorProblems(e.pipes);
+        const inView = e.pipes
+            .map((p, index) => ({ p, index, x: timelineX(e, p.time) }))
+            .filter(
+                ({ x }) => x + PIPE_SPAN_PX >= 0 && x <= Viewport.CANVAS_WIDTH,
+            );
+        const pipeNodes = pipes(inView.map(({ index }) => String(index)));
+        inView.forEach(({ p, index, x }) => {
+            const pipe = pipeNodes.get(String(index))!;
+            const [top, bottom] = Array.from(pipe.children);
+            const { gapTop, gapBottom } = gapEdges(p);
+            const found = problems.filter(q => q.index === index);
+            updateAttributes(pipe, {
+                transform: `translate(${x} 0)`,
+                "data-selected": String(index === e.selected),
+                "data-problem": found.some(q => q.blocking)
+                    ? "error"
+                    : found.length
+                      ? "warning"
+                      : "none",
+            });
+            updateAttributes(top, {
+                width: `${PIPE_SPAN_PX}`,
+                height: `${Math.max(gapTop, 0)}`,
+            });
+            updateAttributes(bottom, {
+                y: `${gapBottom}`,
+                width: `${PIPE_SPAN_PX}`,
+                height: `${Math.max(Viewport.CANVAS_HEIGHT - gapBottom, 0)}`,
+            });
+        });
+
+        const startX = `${timelineX(e, playtestFrom(e))}`;
+        updateAttributes(playhead, { x1: startX, x2: startX });
+
+        const chosen =
+            e.selected === undefined ? undefined : e.pipes[e.selected];
+        updateText(
+            selection,
+            chosen
+                ? `Pipe ${e.pipes.indexOf(chosen) + 1}: gap_y ${chosen.gapY}, gap_height ${chosen.gapHeight}, time ${chosen.time / 1000}s`
+                : `${e.pipes.length} pipes, double-click to add one`,
+        );
+        problemList.replaceChildren(
+            ...problems.map(q => {
+                const item = document.createElement("li");
+                item.textContent =
+                    q.index === undefined
+                        ? q.message
+                        : `Pipe ${q.index + 1}: ${q.message}`;
+                item.className = q.blocking ? "error" : "warning";
+                return item;
+            }),
+        );
+        playtest.disabled = problems.some(q => q.blocking);
+        deletePipe.disabled = e.selected === undefined;
+        scroll.max = String(Math.max(...e.pipes.map(p => p.time), 0));
+        scroll.value = String(e.scroll);
+    };
+};
+
+/**
+ * renders the game according to state given after going through reducers
+ *
+ * @param debug is the debug layer shown? Read every frame
+ * @param loaded images that were preloaded, the others are not drawn
+ * @returns function drawing a state
+ */
+export const render = (
+    debug: () => boolean = () => false,
+    loaded: ReadonlySet<string> = new Set(ASSET_URLS),
+): ((
+    s: State,
+    alpha?: number,
+    anim?: Animation,
+    match?: readonly State[],
+) => void) => {
+    // Text fields
+    const livesText = document.querySelector("#livesText") as HTMLElement;
+    const scoreText = document.querySelector("#scoreText") as HTMLElement;
+    const effectsLine = document.querySelector("#effectsLine") as HTMLElement;
+    const effectsText = document.querySelector("#effectsText") as HTMLElement;
+    const ghostStatus = document.querySelector("#ghostStatus") as HTMLElement;
+
+    const svg = document.querySelector("#svgCanvas") as SVGSVGElement;
+    const ns = svg.namespaceURI;
+
+    svg.setAttribute(
+        "viewBox",
+        `0 0 ${Viewport.CANVAS_WIDTH} ${Viewport.CANVAS_HEIGHT}`,
+    );
+
+    // one colour filter per ghost and player tint, multiplying the sprite by the tint
+    const defs = createSvgElement(ns, "defs");
+    [
+        ...GHOST_TINTS.map((tint, i) => ({ id: `ghostTint${i}`, tint })),
+        ...PLAYER_TINTS.slice(1).map((tint, i) => ({
+            id: `playerTint${i + 1}`,
+            tint,
+        })),
+    ].forEach(({ id, tint }) => {
+        const filter = createSvgElement(ns, "filter", { id });
+        filter.appendChild(
+            createSvgElement(ns, "feFlood", {
+                "flood-color": tint,
+                result: "tint",
+            }),
+        );
+        filter.appendChild(
+            createSvgElement(ns, "feComposite", {
+                in: "tint",
+                in2: "SourceAlpha",
+                operator: "in",
+                result: "shape",
+            }),
+        );
+        filter.appendChild(
+            createSvgElement(ns, "feBlend", {
+                in: "shape",
+                in2: "SourceGraphic",
+                mode: "multiply",
+            }),
+        );
+        defs.appendChild(filter);
+    });
+
+    // light from the left, shading the pipes whatever their colour
+    const pipeShade = createSvgElement(ns, "linearGradient", {
+        id: "pipeShade",
+    });
+    [
+        { offset: "0", color: "white", opacity: "0.35" },
+        { offset: "0.4", color: "white", opacity: "0" },
+        { offset: "1", color: "black", opacity: "0.3" },
+    ].forEach(({ offset, color, opacity }) =>
+        pipeShade.appendChild(
+            createSvgElement(ns, "stop", {
+                offset,
+                "stop-color": color,
+                "stop-opacity": opacity,
+            }),
+        ),
+    );
+    defs.appendChild(pipeShade);
+
+    /**
+     * A background layer, as two tiles side by side moved along together.
+     *
+     * @param layer the layer
+     * @returns group of the tiles
+     */
+    const createParallaxLayer = ({
+        href,
+        y,
+        width,
+        height,
+    }: ParallaxLayer): SVGElement => {
+        const layer = createSvgElement(ns, "g", { class: "parallax" });
+        layer.append(
+            ...[0, width].map(x =>
+                createSvgElement(ns, "image", {
+                    href,
+                    x: `${x}`,
+                    y: `${y}`,
+                    width: `${width}`,
+                    height: `${height}`,
+                    preserveAspectRatio: "none",
+                }),
+            ),
+        );
+        return layer;
+    };
+
+    // layers that loaded, the ground in front of the pipes
+    const [background, ground] = [BACKGROUND_LAYERS, [GROUND]].map(layers =>
+        layers
+            .filter(l => loaded.has(l.href))
+            .map(layer => ({ layer, elem: createParallaxLayer(layer) })),
+    );
+    const parallax = [...background, ...ground];
+
+    // the layers of the scene, back to front, below everything in index.html
+    const scene = createSvgElement(ns, "g", { id: "scene" });
+    const pipeLayer = createSvgElement(ns, "g", { id: "pipeLayer" });
+    const pickupLayer = createSvgElement(ns, "g", { id: "pickupLayer" });
+    const ghostLayer = createSvgElement(ns, "g", { id: "ghostLayer" });
+    scene.append(
+        ...background.map(({ elem }) => elem),
+        pipeLayer,
+        pickupLayer,
+        ...ground.map(({ elem }) => elem),
+        ghostLayer,
+    );
+    svg.prepend(defs, scene);
+
+    /**
+     * The birb's sprite at the top left of its box, or an ellipse if the
+     * sprite did not load.
+     *
+     * @param props more attributes of the sprite
+     * @returns the sprite
+     */
+    const createBirbSprite = (
+        props: Record<string, string> = {},
+    ): SVGElement =>
+        loaded.has(BIRB_SPRITE)
+            ? createSvgElement(ns, "image", {
+                  href: BIRB_SPRITE,
+                  x: "0",
+                  y: "0",
+                  width: `${Birb.WIDTH}`,
+                  height: `${Birb.HEIGHT}`,
+                  ...props,
+              })
+            : createSvgElement(ns, "ellipse", {
+                  cx: `${Birb.WIDTH / 2}`,
+                  cy: `${Birb.HEIGHT / 2}`,
+                  rx: `${Birb.WIDTH / 2}`,
+                  ry: `${Birb.HEIGHT / 2}`,
+                  fill: "gold",
+                  stroke: "black",
+                  ...props,
+              });
+
+    /**
+     * A pipe, drawn as its top and bottom half, each shaded.
+     * Both halves are placed at x = 0 and the group is moved along.
+     *
+     * @returns group of the two halves and their shading
+     */
+    const createWholePipe = (): SVGElement => {
+        const pipe = createSvgElement(ns, "g", { class: "pipe" });
+        pipe.append(
+            createSvgElement(ns, "rect", { x: "0", y: "0" }),
+            createSvgElement(ns, "rect", { x: "0" }),
+            createSvgElement(ns, "rect", {
+                x: "0",
+                y: "0",
+                fill: "url(#pipeShade)",
+            }),
+            createSvgElement(ns, "rect", { x: "0", fill: "url(#pipeShade)" }),
+        );
+        return pipe;
+    };
+
+    /**
+     * A ghost birb with its label, both placed relative to the group.
+     *
+     * @returns group of the sprite and label
+     */
+    const createGhost = (): SVGElement => {
+        const ghost = createSvgElement(ns, "g", { class: "ghost" });
+        ghost.append(
+            createBirbSprite({ opacity: "0.4" }), // same as birb but fainter
+            createSvgElement(ns, "text", {
+                class: "ghostLabel",
+                x: "0",
+                y: "-4",
+            }),
+        );
+        return ghost;
+    };
+
+    /**
+     * A player's birb in a local match with its label, both placed
+     * relative to the group.
+     *
+     * @returns group of the sprite and label
+     */
+    const createPlayer = (): SVGElement => {
+        const player = createSvgElement(ns, "g", { class: "player" });
+        player.append(
+            createBirbSprite(),
+            createSvgElement(ns, "text", {
+                class: "playerLabel",
+                x: "0",
+                y: "-4",
+            }),
+        );
+        return player;
+    };
+
+    /**
+     * A pickup, drawn as a token with its symbol, placed at the top left
+     * of its box.
+     *
+     * @returns group of the token and symbol
+     */
+    const createPickup = (): SVGElement => {
+        const pickup = createSvgElement(ns, "g", { class: "pickup" });
+        pickup.append(
+            createSvgElement(ns, "circle", {
+                cx: `${Pickups.SIZE / 2}`,
+                cy: `${Pickups.SIZE / 2}`,
+                r: `${Pickups.SIZE / 2}`,
+            }),
+            createSvgElement(ns, "text", {
+                x: `${Pickups.SIZE / 2}`,
+                y: `${Pickups.SIZE / 2}`,
+            }),
+        );
+        return pickup;
+    };
+
+    const pipes = keyedLayer(pipeLayer, createWholePipe);
+    const pickups = keyedLayer(pickupLayer, createPickup);
+    const ghosts = keyedLayer(ghostLayer, createGhost);
+
+    // Add birb to the main grid canvas, in front of pipes and ghosts, with
+    // its wing showing one frame of the sheet at a time
+    const birb = createSvgElement(ns, "g", { id: "birb" });
+    const wing = createSvgElement(ns, "svg", {
+        width: `${WINGS.frameWidth}`,
+        height: `${WINGS.frameHeight}`,
+        viewBox: `0 0 ${WINGS.frameWidth} ${WINGS.frameHeight}`,
+    });
+    wing.appendChild(
+        createSvgElement(ns, "image", {
+            href: WINGS.href,
+            width: `${WINGS.frameWidth * WINGS.frames}`,
+            height: `${WINGS.frameHeight}`,
+        }),
+    );
+    // a ring around the birb while it is shielded
+    const shieldRing = createSvgElement(ns, "ellipse", {
+        class: "shieldRing",
+        cx: `${Birb.WIDTH / 2}`,
+        cy: `${Birb.HEIGHT / 2}`,
+        rx: `${Birb.WIDTH / 2 + 4}`,
+        ry: `${Birb.HEIGHT / 2 + 4}`,
+        visibility: "hidden",
+    });
+    birb.append(
+        createBirbSprite(),
+        ...(loaded.has(WINGS.href) && loaded.has(BIRB_SPRITE) ? [wing] : []),
+        shieldRing,
+    );
+    scene.appendChild(birb);
+
+    // the birbs of a local match, in place of the birb
+    const playerLayer = createSvgElement(ns, "g", { id: "playerLayer" });
+    scene.appendChild(playerLayer);
+    const players = keyedLayer(playerLayer, createPlayer);
+
+    // the debug layer, in front of the whole scene
+    const debugLayer = createSvgElement(ns, "g", {
+        id: "debugLayer",
+        visibility: "hidden",
+    });
+    const debugPipeLayer = createSvgElement(ns, "g");
+    const trailLayer = createSvgElement(ns, "g");
+    const birbHitbox = createSvgElement(ns, "rect", { class: "debugBox" });
+    const hud = createSvgElement(ns, "text", { class: "debugHud" });
+    debugLayer.append(debugPipeLayer, trailLayer, birbHitbox, hud);
+    scene.appendChild(debugLayer);
+
+    /**
+     * The boxes of a pipe's halves and the outline of its gap, placed
+     * relative to the group like the pipe itself.
+     *
+     * @returns group of the outlines
+     */
+    const createPipeOutline = (): SVGElement => {
+        const outline = createSvgElement(ns, "g");
+        outline.append(
+            createSvgElement(ns, "rect", { class: "debugBox" }),
+            createSvgElement(ns, "rect", { class: "debugBox" }),
+            createSvgElement(ns, "rect", { class: "debugGap", x: "0" }),
+        );
+        return outline;
+    };
+
+    const pipeOutlines = keyedLayer(debugPipeLayer, createPipeOutline);
+    const trails = keyedLayer(trailLayer, () =>
+        createSvgElement(ns, "polyline", { class: "debugTrail" }),
+    );
+
+    /** timestamps of the latest frames drawn, for the frame rate */
+    const frameTimes: { value: readonly number[] } = { value: [] };
+    const shownHud: { value: string } = { value: "" };
+
+    /**
+     * Draws the debug layer: hitboxes, gaps, the ghosts' paths and the HUD.
+     *
+     * @param s current state
+     * @param a how far into the next step the frame is
+     */
+    const drawDebug = (s: State, a: number): void => {
+        const hitbox = s.rules.hitbox ?? SPRITE_HITBOX;
+        const box = birbBox(
+            lerp(s.prevBirbPosition, s.birbPosition, a),
+            hitbox,
+        );
+        updateAttributes(birbHitbox, {
+            x: `${box.x}`,
+            y: `${box.y}`,
+            width: `${box.width}`,
+            height: `${box.height}`,
+        });
+
+        const pipesOnCanvas: readonly Pipe[] = s.pipeRendering ?? [];
+        const outlineNodes = pipeOutlines(
+            pipesOnCanvas.map(p => String(p.time)),
+        );
+        pipesOnCanvas.forEach(p => {
+            const outline = outlineNodes.get(String(p.time))!;
+            const [top, bottom, gap] = Array.from(outline.children);
+            const halves = pipeBoxes(p, 0);
+            const phasing = String(s.phasingPipes.includes(p.time));
+            updateAttributes(outline, {
+                transform: `translate(${lerp(p.prevXpos, p.xpos, a)} 0)`,
+            });
+            [
+                { elem: top, b: halves.top },
+                { elem: bottom, b: halves.bottom },
+            ].forEach(({ elem, b }) =>
+                updateAttributes(elem, {
+                    x: "0",
+                    y: `${b.y}`,
+                    width: `${b.width}`,
+                    height: `${Math.max(b.height, 0)}`,
+                    "data-phasing": phasing,
+                }),
+            );
+            updateAttributes(gap, {
+                y: `${p.gapTop}`,
+                width: `${p.width}`,
+                height: `${Math.max(p.gapBottom - p.gapTop, 0)}`,
+            });
+        });
+
+        const trailNodes = trails(s.ghosts.map(g => g.id));
+        s.ghosts.forEach((g, i) =>
+            updateAttributes(trailNodes.get(g.id)!, {
+                points: ghostTrail(g, courseTime(s, s.elapsedTime))
+                    .map(p => `${p.x.toFixed(1)},${p.y.toFixed(1)}`)
+                    .join(" "),
+                stroke: GHOST_TINTS[i % GHOST_TINTS.length],
+            }),
+        );
+
+        const lines = debugLines(s, frameRate(frameTimes.value));
+        if (lines.join("\n") !== shownHud.value) {
+            shownHud.value = lines.join("\n");
+            hud.replaceChildren(
+                ...lines.map(text => {
+                    const line = createSvgElement(ns, "tspan", {
+                        x: "4",
+                        dy: "1.1em",
+                    });
+                    line.textContent = text;
+                    return line;
+                }),
+            );
+        }
+    };
+
+    /** what the ghost status currently shows */
+    const shownStatus: { value: string } = { value: "" };
+    /** endless course the ghosts are compared on, carried on from frame to frame */
+    const generatedRef: { value: GeneratedCourse | undefined } = {
+        value: undefined,
+    };
+
+    /**
+     * Renders the current state to the canvas.
+     *
+     * In MVC terms, this updates the View using the Model.
+     *
+     * Moving things are drawn between their positions before and after the
+     * last step, so motion stays smooth whatever the display's frame rate.
+     *
+     * @param s Current state
+     * @param alpha how far into the next step the frame is, in [0, 1]
+     * @param anim latest flap and bounce, for the wing and the shake
+     * @param match every player's run in a local match, drawn in place of
+     *   the birb of `s`
+     */
+    return (
+        s: State,
+        alpha: number = 1,
+        anim: Animation = STILL,
+        match: readonly State[] = [],
+    ) => {
+        const gameEnd: boolean = isGameEnd(s);
+        const a = gameEnd || s.paused ? 1 : alpha; // nothing moves between frames
+        const t = frameTime(s, a);
+
+        const shake = gameEnd ? { x: 0, y: 0 } : shakeOffset(t - anim.bounceAt);
+        updateAttributes(scene, {
+            transform: `translate(${shake.x.toFixed(2)} ${shake.y.toFixed(2)})`,
+        });
+        parallax.forEach(({ layer, elem }) =>
+            updateAttributes(elem, {
+                transform: `translate(${layerOffset(layer, courseTime(s, t)).toFixed(2)} 0)`, // the ground keeps pace with the pipes
+            }),
+        );
+
+        frameTimes.value = [...frameTimes.value, performance.now()].slice(
+            -FPS_WINDOW,
+        );
+        if (debug()) {
+            updateAttributes(debugLayer, { visibility: "visible" });
+            drawDebug(s, a);
+        } else updateAttributes(debugLayer, { visibility: "hidden" });
+
+        // Draw moving pipes
+        const pipesOnCanvas: readonly Pipe[] = s.pipeRendering ?? [];
+        const pipeNodes = pipes(pipesOnCanvas.map(p => String(p.time)));
+        pipesOnCanvas.forEach(p => {
+            const topH = Math.max(p.gapTop, 0);
+            const bottomH = Math.max(Viewport.CANVAS_HEIGHT - p.gapBottom, 0);
+
+            const pipe = pipeNodes.get(String(p.time))!;
+            const [pipeTop, pipeBottom, topShade, bottomShade] = Array.from(
+                pipe.children,
+            );
+            updateAttributes(pipe, {
+                transform: `translate(${lerp(p.prevXpos, p.xpos, a)} 0)`,
+            });
+            [pipeTop, topShade].forEach(half =>
+                updateAttributes(half, {
+                    width: `${p.width}`,
+                    height: `${topH}`,
+                }),
+            );
+            [pipeBottom, bottomShade].forEach(half =>
+                updateAttributes(half, {
+                    y: `${p.gapBottom}`,
+                    width: `${p.width}`,
+                    height: `${bottomH}`,
+                }),
+            );
+            updateAttributes(pipeTop, { fill: p.color });
+            updateAttributes(pipeBottom, { fill: p.color });
+        });
+
+        // Draw the pickups not taken yet, moving along with their pipes
+        const withPickups = pipesOnCanvas.filter(p => p.pickup !== undefined);
+        const pickupNodes = pickups(withPickups.map(p => String(p.time)));
+        withPickups.forEach(p => {
+            const box = pickupBox(p, lerp(p.prevXpos, p.xpos, a), Pickups.SIZE);
+            const pickup = pickupNodes.get(String(p.time))!;
+            updateAttributes(pickup, {
+                transform: `translate(${box.x} ${box.y})`,
+                "data-kind": p.pickup!,
+            });
+            updateText(
+                pickup.lastElementChild as Element,
+                PickupSymbols[p.pickup!],
+            );
+        });
+
+        // Draw every ghost still flying, each in its own tint
+        const flying = s.ghosts
+            .map((g, i) => ({ g, i, y: s.ghostBirbPos[i] }))
+            .filter(({ y }) => y !== undefined);
+        const ghostNodes = ghosts(flying.map(({ g }) => g.id));
+        flying.forEach(({ g, i, y }) => {
+            const tint = i % GHOST_TINTS.length;
+            const ghost = ghostNodes.get(g.id)!;
+            const [sprite, label] = Array.from(ghost.children);
+            updateAttributes(ghost, { transform: `translate(${BIRB_X} ${y})` });
+            updateAttributes(sprite, { filter: `url(#ghostTint${tint})` });
+            updateAttributes(label, { fill: GHOST_TINTS[tint] });
+            updateText(label, g.label);
+        });
+
+        /**
+         * Where a birb is drawn, tilted with its speed.
+         *
+         * @param p the birb's run
+         * @returns transform of its group
+         */
+        const placeBirb = (p: State): string =>
+            `translate(${BIRB_X} ${lerp(p.prevBirbPosition, p.birbPosition, a)}) rotate(${tilt(p.birbVelocity)} ${Birb.WIDTH / 2} ${Birb.HEIGHT / 2})`;
+
+        // Draw every player still flying in a match, each in their own tint
+        const flyingPlayers = match
+            .map((p, seat) => ({ p, seat }))
+            .filter(({ p }) => !isGameEnd(p));
+        const playerNodes = players(flyingPlayers.map(({ seat }) => `${seat}`));
+        flyingPlayers.forEach(({ p, seat }) => {
+            const tint = seat % PLAYER_TINTS.length;
+            const player = playerNodes.get(`${seat}`)!;
+            const [sprite, label] = Array.from(player.children);
+            updateAttributes(player, {
+                transform: placeBirb(p),
+                visibility: isBlinkedOut(p, t) ? "hidden" : "visible",
+            });
+            if (tint > 0)
+                updateAttributes(sprite, { filter: `url(#playerTint${tint})` });
+            updateAttributes(label, { fill: PLAYER_TINTS[tint] });
+            updateText(label, playerLabel(seat));
+        });
+
+        const frame = sheetFrame(WINGS, t - anim.flapAt);
+        updateAttributes(birb, {
+            transform: placeBirb(s),
+            visibility:
+                match.length || isBlinkedOut(s, t) ? "hidden" : "visible",
+        });
+        updateAttributes(wing, {
+            viewBox: `${frame * WINGS.frameWidth} 0 ${WINGS.frameWidth} ${WINGS.frameHeight}`,
+        });
+
+        updateAttributes(shieldRing, {
+            visibility: s.shield ? "visible" : "hidden",
+        });
+
+        updateText(scoreText, String(s.score + s.bonus));
+        updateText(livesText, String(s.birbLives));
+        const effects = activeEffects(s);
+        effectsLine.hidden = effects.length === 0;
+        updateText(effectsText, effects.join(", "));
+
+        // How the player is doing against each ghost
+        generatedRef.value = generatedFor(s, s.ghosts, generatedRef.value);
+        const status = s.ghosts.map(
+            g =>
+                `${g.label}: ${describeGap(compareToGhost(s, g, generatedRef.value))}`,
+        );
+        if (status.join("\n") !== shownStatus.value) {
+            shownStatus.value = status.join("\n");
+            ghostStatus.replaceChildren(
+                ...status.map((text, i) => {
+                    const line = document.createElement("div");
+                    line.style.color = GHOST_TINTS[i % GHOST_TINTS.length];
+                    line.textContent = text;
+                    return line;
+                }),
+            );
+        }
+    };
+};
@@ -0,0 +1,123 @@
+import { readFileSync } from "node:fs";
+import { Subject } from "rxjs";
+import { describe, expect, it } from "vitest";
+import { autopilot, observe, playBot } from "../src/bot";
+import { state$ } from "../src/main";
+import { loadMap } from "../src/map";
+import {
+    BIRB_X,
+    NoInput,
+    createInitialState,
+    hasWon,
+    step,
+} from "../src/state";
+import {
+    Constants,
+    type Action,
+    type FrameSteps,
+    type Recording,
+    type State,
+} from "../src/types";
+
+const csv = readFileSync(new URL("../assets/map.csv", import.meta.url), "utf8");
+const course = loadMap(csv).pipes;
+
+/**
+ * Runs state$ one step per frame until it stops emitting new states.
+ *
+ * @param options what drives the run besides the clock
+ * @param frames most frames to run
+ * @returns the last state and the recordings of the runs
+ */
+const runFrames = (
+    options: Parameters<typeof state$>[1],
+    frames: number,
+): { last: State | undefined; recordings: Recording[] } => {
+    const clock$ = new Subject<FrameSteps>();
+    const recordings: Recording[] = [];
+    const result: { last: State | undefined } = { last: undefined };
+    const sub = state$(csv, {
+        action$: new Subject<Action>(),
+        ...options,
+        clock$,
+        onRecorded: r => recordings.push(r),
+    }).subscribe(s => (result.last = s));
+    Array.from({ length: frames }).forEach(() =>
+        clock$.next({ steps: 1, alpha: 0 }),
+    );
+    sub.unsubscribe();
+    return { last: result.last, recordings };
+};
+
+describe("observe", () => {
+    it("shows the pipes the birb has not got past, nearest first", () => {
+        const start = createInitialState(course, 1);
+        const [first, second] = course;
+        expect(observe(start).pipes).toHaveLength(3);
+        expect(observe(start).pipes[0]).toEqual({
+            xpos: first.xpos,
+            width: first.width,
+            gapTop: first.gapTop,
+            gapBottom: first.gapBottom,
+        });
+
+        // just after the birb's front has passed the first pipe's back
+        const past = Array.from({ length: 400 }).reduce<State>(
+            s =>
+                s.pipeRead && s.pipeRead[0].xpos + s.pipeRead[0].width < BIRB_X
+                    ? s
+                    : step(s, NoInput, Constants.TICK_RATE_MS),
+            { ...start, rules: { ...start.rules, lives: 99 }, birbLives: 99 },
+        );
+        expect(observe(past).pipes[0].gapTop).toBe(
+            past.pipeRead?.find(p => p.time === second.time)?.gapTop,
+        );
+        expect(observe(past).birbY).toBe(past.birbPosition);
+    });
+});
+
+describe("autopilot", () => {
+    // five whole runs, slow on a busy machine
+    it(
+        "clears the map without a hit, whatever the seed",
+        { timeout: 30000 },
+        () => {
+            [1, 2, 3, 42, 1234].forEach(seed => {
+                const end = playBot(
+                    createInitialState(course, seed),
+                    autopilot,
+                );
+                expect(hasWon(end)).toBe(true);
+                expect(end.hits).toBe(0);
+            });
+        },
+    );
+
+    it("stops a run that is never won at the time limit", () => {
+        const start = createInitialState([], 1, [], {
+            ...createInitialState([], 1).rules,
+            win: { type: "none" },
+        });
+        expect(playBot(start, autopilot, 1600).elapsedTime).toBe(1600);
+    });
+});
+
+describe("state$ with a bot", () => {
+    // a whole run played twice, slow on a busy machine
+    it("flaps for the player and records the flaps", { timeout: 30000 }, () => {
+        const live = runFrames({ bot: () => autopilot }, 4000);
+        expect(live.last && hasWon(live.last)).toBe(true);
+        const [recording] = live.recordings;
+        expect(recording.botPlayed).toBe(true);
+        expect(recording.replay.inputs.length).toBe(live.last?.flaps);
+
+        const played = runFrames({ replay: recording.replay }, 4000);
+        expect(played.last).toEqual(live.last);
+    });
+
+    it("leaves the birb alone when switched off", () => {
+        const { last, recordings } = runFrames({ bot: () => undefined }, 2000);
+        expect(last?.flaps).toBe(0);
+        expect(recordings[0].botPlayed).toBe(false);
+    });
+});
@@ -0,0 +1,213 @@
+import { describe, expect, it } from "vitest";
+import {
+    SPRITE_HITBOX,
+    TIGHT_HITBOX,
+    firstPipeContact,
+    overlaps,
+    pipeBoxes,
+    sweep,
+} from "../src/collision";
+import { BIRB_X, NoInput, birbBox, createPipe, step } from "../src/state";
+import { Constants, type Box, type State } from "../src/types";
+import { FREE_RULES, hover, play, runOn } from "./helpers";
+
+/**
+ * A box, 10px square unless told otherwise.
+ *
+ * @param x left edge
+ * @param y top edge
+ * @param width width
+ * @param height height
+ * @returns the box
+ */
+const box = (x: number, y: number, width = 10, height = 10): Box => ({
+    x,
+    y,
+    width,
+    height,
+});
+
+/**
+ * Is the birb level with a pipe?
+ *
+ * @param s current state
+ * @returns true if the birb's sprite overlaps a pipe horizontally
+ */
+const besideAPipe = (s: State): boolean =>
+    (s.pipeRead ?? []).some(
+        p => p.xpos < BIRB_X + SPRITE_HITBOX.width && BIRB_X < p.xpos + p.width,
+    );
+
+describe("sweep", () => {
+    it("finds when and where a moving box runs into another", () => {
+        expect(sweep(box(0, 0), 20, 0, box(15, 0))).toEqual({
+            time: 0.25,
+            face: "left",
+        });
+        expect(sweep(box(0, 0), 0, 20, box(0, 15))).toEqual({
+            time: 0.25,
+            face: "top",
+        });
+        expect(sweep(box(0, 30), 0, -40, box(0, 0))).toEqual({
+            time: 0.5,
+            face: "bottom",
+        });
+        expect(sweep(box(30, 0), -40, 0, box(0, 0))).toEqual({
+            time: 0.5,
+            face: "right",
+        });
+    });
+
+    it("does not let a fast box tunnel through a thin one", () => {
+        const a = box(0, 0);
+        const wall = box(50, -100, 2, 200);
+        expect(overlaps({ ...a, x: 100 }, wall)).toBe(false); // where it ends up
+        expect(sweep(a, 100, 0, wall)).toEqual({ time: 0.4, face: "left" });
+    });
+
+    it("finds diagonal hits on the face crossed last", () => {
+        // level with the box's top face first, then reaches its left face
+        expect(sweep(box(0, 0), 20, 20, box(15, 5))).toEqual({
+            time: 0.25,
+            face: "left",
+        });
+        // past its left face first, then drops onto its top face
+        expect(sweep(box(10, 0), 20, 20, box(15, 15))).toEqual({
+            time: 0.25,
+            face: "top",
+        });
+        // an exact corner counts as the top face
+        expect(sweep(box(0, 0), 20, 20, box(15, 15))).toEqual({
+            time: 0.25,
+            face: "top",
+        });
+        // passes by the corner
+        expect(sweep(box(0, 0), 20, -20, box(15, 15))).toBeUndefined();
+    });
+
+    it("treats touching boxes as apart", () => {
+        expect(overlaps(box(0, 0), box(10, 0))).toBe(false);
+        expect(sweep(box(0, 0), 0, 30, box(10, 0))).toBeUndefined(); // slides along
+        expect(sweep(box(0, 0), 5, 0, box(15, 0))).toBeUndefined(); // stops on contact
+        expect(sweep(box(0, 0), -5, 0, box(10, 0))).toBeUndefined(); // moves away
+    });
+
+    it("hits boxes that already overlap at time 0", () => {
+        expect(sweep(box(0, 0), 10, 2, box(8, 5))).toEqual({
+            time: 0,
+            face: "left",
+        });
+        expect(sweep(box(0, 0), 0, 0, box(0, 8))).toEqual({
+            time: 0,
+            face: "top",
+        });
+        expect(sweep(box(0, 0), 0, 0, box(0, -8))).toEqual({
+            time: 0,
+            face: "bottom",
+        });
+    });
+});
+
+describe("pipe geometry", () => {
+    const pipe = createPipe(0.5, 0.25, 0);
+
+    it("keeps the real edges of a gap", () => {
+        expect(pipe.gapTop).toBe(150);
+        expect(pipe.gapBottom).toBe(250);
+        expect(pipeBoxes(pipe, 100)).toEqual({
+            top: box(100, 0, pipe.width, 150),
+            bottom: box(100, 250, pipe.width, 150),
+        });
+    });
+
+    it("finds the earliest of several pipes, not the first listed", () => {
+        const birb = birbBox(200);
+        const later = { ...pipe, prevXpos: 260, xpos: 200, gapBottom: 220 };
+        const sooner = { ...pipe, time: 5, prevXpos: 230, xpos: 170 };
+        const contact = firstPipeContact(birb, 30, [later, sooner]);
+        expect(contact?.pipe).toBe(sooner);
+        expect(contact?.half).toBe("bottom");
+        expect(firstPipeContact(birb, 0, [pipe])).toBeUndefined(); // still off screen
+    });
+});
+
+describe("collisions in the simulation", () => {
+    // the birb's rear reaches a new pipe's front 1841.5ms after it enters
+    it("passes through the front of a pipe it runs into, losing one life", () => {
+        const start = runOn([createPipe(0.85, 0.2, 0)], FREE_RULES); // gap from 300 to 380
+        const states = play(start, hover(100), 160);
+        const firstHit = states.findIndex(s => s.hits > 0);
+        const hit = states[firstHit];
+        // not moved into the gap
+        expect(hit.birbPosition).toBeLessThan(300 - SPRITE_HITBOX.height);
+        expect(hit.birbLives).toBe(8);
+        expect(hit.phasingPipes).toEqual([0]);
+        // nothing more is lost while going through
+        const after = states.slice(firstHit).filter(besideAPipe);
+        expect(after.every(s => s.birbLives === 8)).toBe(true);
+        expect(states[states.length - 1].phasingPipes).toEqual([]);
+    });
+
+    it("stops at the edge of a gap it flies into and bounces off", () => {
+        const start = runOn([createPipe(0.5, 0.3, 0)], FREE_RULES); // gap from 140 to 260
+        // wait in the gap, then climb as hard as possible
+        const states = play(
+            start,
+            s => (besideAPipe(s) ? true : hover(200)(s)),
+            150,
+        );
+        const hit = states.find(s => s.hits > 0);
+        expect(hit?.birbPosition).toBe(140);
+        expect(hit?.birbVelocity).toBeGreaterThan(0);
+        expect(hit?.birbLives).toBe(8);
+    });
+
+    it("catches a pipe too fast to ever overlap the birb between two ticks", () => {
+        // 130px a tick, from x = 210 right of the birb to x = 80 left of it
+        const fast = createPipe(0.9, 0.1, 0, { travelMs: 80 });
+        const states = play(runOn([fast], FREE_RULES), hover(150), 8);
+        expect(
+            states.some(s =>
+                s.pipeRead?.some(
+                    p => p.xpos < BIRB_X + 42 && BIRB_X < p.xpos + p.width,
+                ),
+            ),
+        ).toBe(false); // it never overlaps the birb at the end of a tick
+        expect(states[states.length - 1].hits).toBe(1);
+    });
+
+    it("hits a pipe overlapping the one the birb is passing", () => {
+        const course = [
+            createPipe(0.5, 0.4, 0), // wide gap, 120 to 280
+            createPipe(0.3, 0.2, 40), // close behind, gap 80 to 160
+        ];
+        const states = play(runOn(course, FREE_RULES), hover(200), 150);
+        const hit = states.find(s => s.hits > 0);
+        expect(hit?.phasingPipes).toEqual([40]);
+    });
+
+    it("lets a tighter hitbox graze the edge of a gap", () => {
+        const course = [createPipe(0.5, 0.25, 0)]; // gap from 150 to 250
+        /**
+         * Sinks 1.6px below the bottom of the gap, as far as the sprite goes.
+         *
+         * @param hitbox part of the birb that collides
+         * @returns state after the step
+         */
+        const graze = (hitbox: Box): State => {
+            const before = play(
+                runOn(course, { ...FREE_RULES, hitbox }),
+                hover(200),
+                150,
+            );
+            const level = before.find(besideAPipe)!;
+            return step(
+                { ...level, birbPosition: 221, birbVelocity: 0 },
+                NoInput,
+                Constants.TICK_RATE_MS,
+            );
+        };
+        expect(graze(SPRITE_HITBOX).hits).toBe(1);
+        expect(graze(TIGHT_HITBOX).hits).toBe(0);
+    });
+});
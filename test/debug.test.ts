@@ -0,0 +1,102 @@
+import { Subject } from "rxjs";
+import { describe, expect, it } from "vitest";
+import { debugLines, frameRate, ghostTrail } from "../src/debug";
+import { state$ } from "../src/main";
+import { BIRB_X, createInitialState, createPipe } from "../src/state";
+import {
+    Birb,
+    type Action,
+    type FrameSteps,
+    type Ghost,
+    type Recording,
+} from "../src/types";
+
+describe("frameRate", () => {
+    it("averages over the frames given", () => {
+        expect(frameRate([])).toBe(0);
+        expect(frameRate([5])).toBe(0);
+        expect(frameRate([0, 16, 32, 48, 64])).toBeCloseTo(62.5);
+    });
+});
+
+describe("debugLines", () => {
+    it("lists the frame rate and the state's short fields", () => {
+        const s = {
+            ...createInitialState([createPipe(0.5, 0.3, 0)], 7),
+            birbVelocity: 1.23456,
+            phasingPipes: [0, 250],
+        };
+        const lines = debugLines(s, 59.6);
+        expect(lines[0]).toBe("fps: 60");
+        expect(lines).toContain("birbVelocity: 1.23");
+        expect(lines).toContain("seed: 7");
+        expect(lines).toContain("paused: false");
+        expect(lines).toContain("phasingPipes: [0, 250]");
+        expect(lines).toContain("course: 1 items");
+        expect(lines).toContain("passing: []");
+        expect(lines.some(l => l.startsWith("rules"))).toBe(false);
+    });
+});
+
+describe("ghostTrail", () => {
+    const ghost: Ghost = {
+        id: "g",
+        label: "Ghost",
+        mapHash: "map",
+        score: 0,
+        path: [0, 1000, 2000, 3000, 4000].map(t => ({ t, y: 100 })),
+    };
+
+    it("places the ghost's path where it is on the canvas now", () => {
+        const trail = ghostTrail(ghost, 1000);
+        expect(trail[0]).toEqual({ x: BIRB_X + Birb.WIDTH / 2, y: 115 });
+        // ahead of the birb by the distance a pipe moves in a second
+        expect(trail[1].x - trail[0].x).toBeCloseTo(650 / 3);
+        // only what is on the canvas, behind the birb too
+        expect(ghostTrail(ghost, 1500)).toHaveLength(3);
+    });
+});
+
+describe("a run in slow motion or stepped", () => {
+    /**
+     * Plays a run and restarts it.
+     *
+     * @param rate how fast the clock runs
+     * @param actions actions taken half way through
+     * @returns the run's recording
+     */
+    const recorded = (
+        rate: number,
+        actions: readonly Action[] = [],
+    ): Recording => {
+        const action$ = new Subject<Action>();
+        const clock$ = new Subject<FrameSteps>();
+        const recordings: Recording[] = [];
+        const sub = state$("gap_y,gap_height,time\n0.5,0.4,1", {
+            action$,
+            clock$,
+            clockRate: () => rate,
+            seed: 1,
+            onRecorded: r => recordings.push(r),
+        }).subscribe();
+        clock$.next({ steps: 5, alpha: 0 });
+        actions.forEach(a => action$.next(a));
+        clock$.next({ steps: 5, alpha: 0 });
+        action$.next("restart");
+        sub.unsubscribe();
+        return recordings[0];
+    };
+
+    it("is recorded as such", () => {
+        expect(recorded(1)).toMatchObject({ slowed: false, stepped: false });
+        expect(recorded(0.25)).toMatchObject({ slowed: true, stepped: false });
+        expect(recorded(1, ["pause", "step", "pause"])).toMatchObject({
+            slowed: false,
+            stepped: true,
+        });
+    });
+
+    it("is not stepped by a step that does nothing", () => {
+        expect(recorded(1, ["step"]).stepped).toBe(false);
+    });
+});
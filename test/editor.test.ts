@@ -0,0 +1,186 @@
+import { readFileSync } from "node:fs";
+import { describe, expect, it } from "vitest";
+import {
+    EMPTY_EDITOR,
+    MIN_GAP_HEIGHT,
+    MS_PER_PX,
+    NEW_GAP_HEIGHT,
+    PIPE_SPAN_PX,
+    edit,
+    editorProblems,
+    gapEdges,
+    grabAt,
+    playtestFrom,
+    startEditor,
+    timeAt,
+    timelineX,
+    type Editor,
+    type EditorAction,
+} from "../src/editor";
+import { loadMap, serialiseCsvMap } from "../src/map";
+import { Viewport } from "../src/types";
+
+const csv = readFileSync(new URL("../assets/map.csv", import.meta.url), "utf8");
+
+/** Two pipes, at 1s and 3s, their gaps from 140 to 260px */
+const course: Editor = startEditor([
+    { gapY: 0.5, gapHeight: 0.3, time: 3000 },
+    { gapY: 0.5, gapHeight: 0.3, time: 1000 },
+]);
+
+/** Middle of the first pipe on the timeline */
+const firstX = timelineX(course, 1000) + PIPE_SPAN_PX / 2;
+
+/**
+ * Applies the actions in turn.
+ *
+ * @param actions what the player does, in order
+ * @param e editor to start from
+ * @returns the editor after them
+ */
+const apply = (actions: readonly EditorAction[], e: Editor = course): Editor =>
+    actions.reduce(edit, e);
+
+describe("the editor", () => {
+    it("opens a course in time order, with only the gap and time of each pipe", () => {
+        const map = loadMap(csv).pipes;
+        const opened = edit(EMPTY_EDITOR, { type: "open", pipes: map });
+        expect(opened.pipes).toHaveLength(map.length);
+        expect(Object.keys(opened.pipes[0]).sort()).toEqual([
+            "gapHeight",
+            "gapY",
+            "time",
+        ]);
+        expect(course.pipes.map(p => p.time)).toEqual([1000, 3000]);
+        expect(loadMap(serialiseCsvMap(opened.pipes)).pipes).toEqual(map);
+    });
+
+    it("maps the timeline's x to times and back", () => {
+        const scrolled = edit(course, { type: "scroll", ms: 2500 });
+        expect(timeAt(scrolled, 50)).toBe(2500 + 50 * MS_PER_PX);
+        expect(timelineX(scrolled, timeAt(scrolled, 123))).toBe(123);
+        expect(edit(course, { type: "scroll", ms: -10 }).scroll).toBe(0);
+    });
+
+    it("takes hold of a pipe, or the edge of its gap", () => {
+        expect(grabAt(course, firstX, 50)).toMatchObject({
+            kind: "move",
+            index: 0,
+        });
+        expect(grabAt(course, firstX, 142)?.kind).toBe("top");
+        expect(grabAt(course, firstX, 257)?.kind).toBe("bottom");
+        expect(grabAt(course, firstX - PIPE_SPAN_PX, 50)).toBeUndefined();
+
+        const pressed = edit(course, { type: "press", x: firstX, y: 50 });
+        expect(pressed.selected).toBe(0);
+        expect(
+            edit(pressed, { type: "press", x: 200, y: 50 }).selected,
+        ).toBeUndefined();
+    });
+
+    it("moves a pipe in time and height, snapped and kept on the canvas", () => {
+        const moved = apply([
+            { type: "press", x: firstX, y: 50 },
+            { type: "drag", x: firstX + 10.3, y: 62 },
+            { type: "release" },
+        ]);
+        expect(moved.pipes[0]).toEqual({
+            gapY: 0.53,
+            gapHeight: 0.3,
+            time: 1100,
+        });
+        expect(moved.grab).toBeUndefined();
+        expect(edit(moved, { type: "drag", x: 0, y: 0 })).toBe(moved); // let go
+
+        const high = apply([
+            { type: "press", x: firstX, y: 200 },
+            { type: "drag", x: -500, y: -300 },
+        ]);
+        expect(high.pipes[0]).toEqual({ gapY: 0.15, gapHeight: 0.3, time: 0 });
+        expect(gapEdges(high.pipes[0]).gapTop).toBe(0);
+        expect(editorProblems(high.pipes).filter(q => q.blocking)).toEqual([]);
+    });
+
+    it("keeps the course in time order as a pipe is dragged past another", () => {
+        const passed = apply([
+            { type: "press", x: firstX, y: 200 },
+            { type: "drag", x: firstX + 300, y: 200 },
+        ]);
+        expect(passed.pipes.map(p => p.time)).toEqual([3000, 4000]);
+        expect(passed.selected).toBe(1);
+        expect(passed.grab?.index).toBe(1);
+    });
+
+    it("resizes a gap from either edge, leaving the other where it is", () => {
+        const taller = apply([
+            { type: "press", x: firstX, y: 141 },
+            { type: "drag", x: firstX, y: 100 },
+        ]);
+        expect(gapEdges(taller.pipes[0])).toEqual({
+            gapTop: 100,
+            gapBottom: 260,
+        });
+
+        const squashed = apply([
+            { type: "press", x: firstX, y: 259 },
+            { type: "drag", x: firstX, y: 0 },
+        ]);
+        expect(squashed.pipes[0].gapHeight).toBe(MIN_GAP_HEIGHT);
+        expect(gapEdges(squashed.pipes[0]).gapTop).toBeCloseTo(140);
+        expect(MIN_GAP_HEIGHT * Viewport.CANVAS_HEIGHT).toBeGreaterThan(30); // the birb still fits
+    });
+
+    it("adds pipes where there are none, and deletes the one selected", () => {
+        const added = edit(course, { type: "add", x: 200, y: 100 });
+        expect(added.pipes[1]).toEqual({
+            gapY: 0.25,
+            gapHeight: NEW_GAP_HEIGHT,
+            time: 2000,
+        });
+        expect(added.selected).toBe(1);
+        expect(edit(course, { type: "add", x: firstX, y: 100 })).toBe(course);
+
+        const deleted = edit(added, { type: "delete" });
+        expect(deleted.pipes).toEqual(course.pipes);
+        expect(deleted.selected).toBeUndefined();
+        expect(edit(deleted, { type: "delete" })).toBe(deleted);
+    });
+
+    it("playtests from the pipe selected, or else from the left edge", () => {
+        expect(playtestFrom(edit(course, { type: "scroll", ms: 700 }))).toBe(
+            700,
+        );
+        expect(
+            playtestFrom(edit(course, { type: "press", x: firstX, y: 50 })),
+        ).toBe(1000);
+    });
+});
+
+describe("editorProblems", () => {
+    it("finds what stops the course from being played or passed", () => {
+        expect(editorProblems(course.pipes)).toEqual([]);
+        expect(editorProblems([])).toEqual([
+            { index: undefined, message: "map has no pipes", blocking: true },
+        ]);
+
+        const sameTime = editorProblems([
+            course.pipes[0],
+            { ...course.pipes[1], time: 1000 },
+        ]);
+        expect(sameTime).toEqual([
+            {
+                index: 1,
+                message: "time 1 is not after the previous pipe's",
+                blocking: true,
+            },
+        ]);
+
+        const outOfReach = editorProblems([
+            { gapY: 0.9, gapHeight: 0.2, time: 1000 },
+            { gapY: 0.1, gapHeight: 0.2, time: 1100 },
+        ]);
+        expect(outOfReach).toHaveLength(1);
+        expect(outOfReach[0]).toMatchObject({ index: 1, blocking: false });
+        expect(outOfReach[0].message).toMatch(/too high to reach/);
+    });
+});
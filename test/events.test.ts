@@ -0,0 +1,126 @@
+import { readFileSync } from "node:fs";
+import { Subject, firstValueFrom, from, reduce } from "rxjs";
+import { describe, expect, it } from "vitest";
+import { autopilot, observe } from "../src/bot";
+import { state$ } from "../src/main";
+import { loadMap } from "../src/map";
+import { gameEvent$ } from "../src/observable";
+import { NoInput, createPipe, step } from "../src/state";
+import type { Action, FrameSteps, GameEvent, State } from "../src/types";
+import { hover, play, runOn } from "./helpers";
+
+const csv = readFileSync(new URL("../assets/map.csv", import.meta.url), "utf8");
+const course = loadMap(csv).pipes;
+
+/**
+ * Collects the events of some states through `gameEvent$`.
+ *
+ * @param states states of a run
+ * @returns every event, in order
+ */
+const eventsOf = (states: readonly State[]): Promise<GameEvent[]> =>
+    firstValueFrom(
+        gameEvent$(from(states)).pipe(
+            reduce((acc, e) => [...acc, e], [] as GameEvent[]),
+        ),
+    );
+
+describe("game events", () => {
+    it("pass every pipe in turn and win a clean run", async () => {
+        const events = await eventsOf(
+            play(runOn(course), s => autopilot(observe(s))),
+        );
+        const passed = events.filter(e => e.type === "pipePassed");
+        expect(passed.map(e => e.pipe)).toEqual(course.map(p => p.time));
+        expect(passed.map(e => e.score)).toEqual(course.map((_, i) => i + 1));
+        expect(events.some(e => e.type === "flap")).toBe(true);
+        expect(events.at(-1)).toEqual({
+            type: "won",
+            t: passed[19].t,
+            score: 20,
+        });
+        expect(
+            events.filter(e => !["flap", "pipePassed", "won"].includes(e.type)),
+        ).toEqual([]);
+    });
+
+    it("bounce off the floor until every life is lost", async () => {
+        // every bounce comes back down a little under 500ms later
+        const states = play(runOn([], { invincibilityMs: 500 }), () => false);
+        const events = await eventsOf(states);
+        const [first] = events;
+        expect(events.map(e => e.type)).toEqual([
+            "bounced",
+            "lifeLost",
+            "invincible",
+            "bounced", // still invincible
+            "bounced",
+            "lifeLost",
+            "invincible",
+            "bounced",
+            "bounced",
+            "lifeLost",
+            "gameOver",
+        ]);
+        expect(first).toEqual({
+            type: "bounced",
+            t: first.t,
+            edge: "floor",
+        });
+        expect(events[2]).toEqual({
+            type: "invincible",
+            t: first.t,
+            until: first.t + 500,
+        });
+        expect(events.at(-1)?.t).toBe(states.at(-1)?.elapsedTime);
+    });
+
+    it("name the pipe run into and the half of it", async () => {
+        const pipe = createPipe(0.85, 0.2, 0); // gap from 300 to 380
+        const states = play(
+            runOn([pipe], { lives: 9, canvasHitsCostLife: false }),
+            hover(100),
+        ).slice(0, 200);
+        const events = await eventsOf(states);
+        const hit = events.find(e => e.type === "pipeHit");
+        expect(hit).toEqual({
+            type: "pipeHit",
+            t: hit?.t,
+            pipe: 0,
+            half: "top",
+        });
+        expect(events).toContainEqual({
+            type: "lifeLost",
+            t: hit?.t,
+            lives: 8,
+        });
+    });
+
+    it("are only those of the latest step", () => {
+        const flapped = step(runOn(course), { ...NoInput, flap: true }, 0);
+        expect(flapped.events).toEqual([{ type: "flap", t: 0 }]);
+        const paused = step(flapped, { ...NoInput, pause: true }, 0);
+        expect(paused.events).toEqual([]);
+    });
+
+    it("are not heard again when a run is rewound", () => {
+        const clock$ = new Subject<FrameSteps>();
+        const action$ = new Subject<Action>();
+        const held: { value: boolean } = { value: false };
+        const events: GameEvent[] = [];
+        const sub = gameEvent$(
+            state$(csv, { action$, clock$, rewinding: () => held.value }),
+        ).subscribe(e => events.push(e));
+        const frames = (n: number): void =>
+            Array.from({ length: n }).forEach(() =>
+                clock$.next({ steps: 1, alpha: 0 }),
+            );
+        frames(10);
+        action$.next("flap");
+        frames(10);
+        held.value = true;
+        frames(8);
+        sub.unsubscribe();
+        expect(events).toEqual([{ type: "flap", t: 10 * 16 }]);
+    });
+});
@@ -0,0 +1,111 @@
+import { describe, expect, it } from "vitest";
+import {
+    GeneratorDefaults,
+    Presets,
+    Ramp,
+    generateCourse,
+    difficultyAt,
+    pipesUntil,
+    startCourse,
+} from "../src/generate";
+import { courseProblems } from "../src/solvable";
+import { createPipe } from "../src/state";
+import { Constants } from "../src/types";
+
+const HOUR = 3600000;
+
+describe("pipesUntil", () => {
+    it("always generates the same course from a seed", () => {
+        expect(pipesUntil(startCourse(7), 60000)).toEqual(
+            pipesUntil(startCourse(7), 60000),
+        );
+        expect(pipesUntil(startCourse(7), 60000).pipes).not.toEqual(
+            pipesUntil(startCourse(8), 60000).pipes,
+        );
+    });
+
+    it("continues a course the same way however it is split", () => {
+        const first = pipesUntil(startCourse(3), 20000);
+        const rest = pipesUntil(first.course, 60000);
+        expect([...first.pipes, ...rest.pipes]).toEqual(
+            pipesUntil(startCourse(3), 60000).pipes,
+        );
+    });
+
+    it("keeps gaps on the canvas and reachable from the previous one", () => {
+        const { pipes } = pipesUntil(startCourse(11), 300000);
+        pipes.forEach((p, i) => {
+            expect(p.gapY).toBeGreaterThanOrEqual(GeneratorDefaults.MIN_GAP_Y);
+            expect(p.gapY).toBeLessThanOrEqual(GeneratorDefaults.MAX_GAP_Y);
+            expect(p.gapHeight).toBeGreaterThanOrEqual(Ramp.MIN_GAP_HEIGHT);
+            expect(p.gapHeight).toBeLessThanOrEqual(
+                GeneratorDefaults.MAX_GAP_HEIGHT,
+            );
+            if (i > 0)
+                expect(
+                    Math.abs(p.gapY - pipes[i - 1].gapY),
+                ).toBeLessThanOrEqual(Ramp.MAX_SHIFT);
+        });
+    });
+
+    it("ramps up to narrower, closer and faster pipes", () => {
+        const { pipes } = pipesUntil(startCourse(5), 300000);
+        const [first, second] = pipes;
+        const [beforeLast, last] = pipes.slice(-2);
+        expect(first.time).toBe(GeneratorDefaults.START_POS * 1000);
+        expect(first.travelMs).toBeCloseTo(Constants.PIPE_TRAVEL_MS, -2);
+        expect(second.time - first.time).toBeCloseTo(
+            GeneratorDefaults.POS_INTERVAL * 1000,
+            -2,
+        );
+        expect(last.time - beforeLast.time).toBe(Ramp.POS_INTERVAL * 1000);
+        expect(last.travelMs).toBe(Ramp.TRAVEL_MS);
+        expect(last.gapHeight).toBeLessThanOrEqual(Ramp.MAX_GAP_HEIGHT);
+    });
+});
+
+describe("difficultyAt", () => {
+    it("goes from 0 to 1 over the ramp and stays there", () => {
+        expect(difficultyAt(0)).toBe(0);
+        expect(difficultyAt(Ramp.DURATION_MS / 2)).toBe(0.5);
+        expect(difficultyAt(HOUR)).toBe(1);
+    });
+});
+
+describe("generateCourse", () => {
+    it("generates the same map for a seed, within the preset's limits", () => {
+        const options = Presets.hard;
+        const pipes = generateCourse(1, options);
+        expect(pipes).toEqual(generateCourse(1, options));
+        expect(pipes).toHaveLength(options.count);
+        pipes.forEach((p, i) => {
+            expect(p.time).toBe(
+                (options.startPos + i * options.posInterval) * 1000,
+            );
+            expect(p.gapY).toBeGreaterThanOrEqual(options.minGapY);
+            expect(p.gapY).toBeLessThanOrEqual(options.maxGapY);
+            expect(p.gapHeight).toBeGreaterThanOrEqual(options.minGapHeight);
+            expect(p.gapHeight).toBeLessThanOrEqual(options.maxGapHeight);
+        });
+    });
+
+    it("keeps a negative seed's map inside the ranges, passable as it is", () => {
+        const options = Presets.normal;
+        const pipes = generateCourse(-5, options);
+        pipes.forEach(p => {
+            expect(p.gapY).toBeGreaterThanOrEqual(options.minGapY);
+            expect(p.gapY).toBeLessThanOrEqual(options.maxGapY);
+            expect(p.gapHeight).toBeGreaterThanOrEqual(options.minGapHeight);
+            expect(p.gapHeight).toBeLessThanOrEqual(options.maxGapHeight);
+        });
+        expect(
+            courseProblems(
+                pipes.map(p =>
+                    createPipe(p.gapY, p.gapHeight, p.time, {
+                        travelMs: p.travelMs,
+                    }),
+                ),
+            ),
+        ).toEqual([]);
+    });
+});
@@ -0,0 +1,238 @@
+import { readFileSync } from "node:fs";
+import { describe, expect, it } from "vitest";
+import {
+    GhostIds,
+    compareToGhost,
+    generatedFor,
+    ghostsForMap,
+    importGhosts,
+    loadGhosts,
+    loadSelection,
+    parseGhosts,
+    recordRun,
+    saveGhosts,
+    serialiseGhosts,
+    type GeneratedCourse,
+    type GhostStorage,
+} from "../src/ghosts";
+import { loadMap } from "../src/map";
+import { startCourse } from "../src/generate";
+import {
+    BIRB_X,
+    createInitialState,
+    endlessPipesUntil,
+    ghostPositionAt,
+    pipeXposAtAge,
+} from "../src/state";
+import type { Ghost, PathPoint, State } from "../src/types";
+
+const csv = readFileSync(new URL("../assets/map.csv", import.meta.url), "utf8");
+
+/**
+ * A ghost flying level at y = 100 until the given time.
+ *
+ * @param score pipes passed
+ * @param until time of the last sample
+ * @param mapHash map the run was on
+ * @returns ghost of the run
+ */
+const run = (score: number, until: number, mapHash = "map"): Ghost => ({
+    id: "run",
+    label: "Run",
+    mapHash,
+    score,
+    path: Array.from({ length: until / 16 + 1 }, (_, i) => ({
+        t: i * 16,
+        y: 100,
+    })),
+});
+
+/**
+ * In-memory stand-in for localStorage.
+ *
+ * @returns empty storage
+ */
+const memoryStorage = (): GhostStorage & { items: Map<string, string> } => {
+    const items = new Map<string, string>();
+    return {
+        items,
+        getItem: key => items.get(key) ?? null,
+        setItem: (key, value) => void items.set(key, value),
+    };
+};
+
+describe("ghostPositionAt", () => {
+    const path: PathPoint[] = [
+        { t: 0, y: 10 },
+        { t: 16, y: 20 },
+        { t: 16, y: 25 },
+        { t: 32, y: 30 },
+        { t: 48, y: 40 },
+    ];
+
+    it("picks the latest sample not after the time", () => {
+        expect(ghostPositionAt(path, 0)).toBe(10);
+        expect(ghostPositionAt(path, 20)).toBe(25);
+        expect(ghostPositionAt(path, 32)).toBe(30);
+        expect(ghostPositionAt(path, 48)).toBe(40);
+    });
+
+    it("hides the ghost once its run has ended", () => {
+        expect(ghostPositionAt(path, 49)).toBeUndefined();
+        expect(ghostPositionAt([], 0)).toBeUndefined();
+    });
+});
+
+describe("recordRun", () => {
+    it("keeps the first run as both last run and personal best", () => {
+        const saved = recordRun([], run(3, 800));
+        expect(saved.map(g => g.id).sort()).toEqual([
+            GhostIds.BEST,
+            GhostIds.LAST,
+        ]);
+    });
+
+    it("only replaces the personal best with a run that got further", () => {
+        const saved = recordRun(recordRun([], run(3, 800)), run(2, 1600));
+        const best = saved.find(g => g.id === GhostIds.BEST);
+        const last = saved.find(g => g.id === GhostIds.LAST);
+        expect(best?.score).toBe(3);
+        expect(last?.score).toBe(2);
+
+        const longer = recordRun(saved, run(3, 960));
+        expect(longer.find(g => g.id === GhostIds.BEST)?.path).toHaveLength(61);
+    });
+
+    it("keeps a run that may not be the best as the last run only", () => {
+        const saved = recordRun(recordRun([], run(1, 800)), run(3, 800), false);
+        expect(saved.find(g => g.id === GhostIds.BEST)?.score).toBe(1);
+        expect(saved.find(g => g.id === GhostIds.LAST)?.score).toBe(3);
+        expect(recordRun([], run(3, 800), false).map(g => g.id)).toEqual([
+            GhostIds.LAST,
+        ]);
+    });
+
+    it("keeps separate ghosts for each map", () => {
+        const saved = recordRun(
+            recordRun([], run(3, 800, "a")),
+            run(1, 800, "b"),
+        );
+        expect(ghostsForMap(saved, "a").map(g => g.score)).toEqual([3, 3]);
+        expect(ghostsForMap(saved, "b").map(g => g.score)).toEqual([1, 1]);
+    });
+});
+
+describe("ghost files", () => {
+    it("survive a round trip through JSON", () => {
+        const saved = recordRun([], run(3, 800));
+        expect(parseGhosts(serialiseGhosts(saved))).toEqual(saved);
+    });
+
+    it("reject unsupported versions", () => {
+        expect(() =>
+            parseGhosts(JSON.stringify({ version: 0, ghosts: [] })),
+        ).toThrow(/version/);
+    });
+
+    it("import under fresh ids without replacing saved ghosts", () => {
+        const saved = recordRun([], run(3, 800));
+        const imported = importGhosts(saved, saved);
+        expect(imported).toHaveLength(4);
+        expect(new Set(imported.map(g => g.id)).size).toBe(4);
+        expect(imported.slice(0, 2)).toEqual(saved);
+    });
+
+    it("persist in storage, ignoring corrupt entries", () => {
+        const storage = memoryStorage();
+        const saved = recordRun([], run(3, 800));
+        saveGhosts(storage, saved);
+        expect(loadGhosts(storage)).toEqual(saved);
+
+        storage.items.forEach((_, key) => storage.setItem(key, "{"));
+        expect(loadGhosts(storage)).toEqual([]);
+        expect(loadSelection(storage)).toEqual([GhostIds.LAST]);
+    });
+});
+
+describe("compareToGhost", () => {
+    const course = loadMap(csv).pipes;
+    const ghost = run(2, 6000);
+
+    it("is level while both birbs fly", () => {
+        const s = { ...createInitialState(course, 1), elapsedTime: 3000 };
+        expect(compareToGhost(s, ghost)).toEqual({ px: 0, pipes: 0 });
+    });
+
+    it("is ahead once the ghost is out", () => {
+        const s = { ...createInitialState(course, 1), elapsedTime: 9000 };
+        const gap = compareToGhost(s, ghost);
+        expect(gap.px).toBe(650);
+        expect(gap.pipes).toBeGreaterThan(0);
+    });
+
+    it("is behind when the player is out first", () => {
+        const s = {
+            ...createInitialState(course, 1),
+            elapsedTime: 3000,
+            gameOver: true,
+        };
+        expect(compareToGhost(s, ghost).px).toBe(-650);
+    });
+
+    it("counts the pipes of an endless course, generated or carried on", () => {
+        /**
+         * A run on an endless course.
+         *
+         * @param seed seed of the course
+         * @param elapsedTime time of the run
+         * @returns the state
+         */
+        const endless = (seed: number, elapsedTime: number): State => ({
+            ...createInitialState([], 1, [], undefined, seed),
+            elapsedTime,
+        });
+        const passed = (seed: number, t: number): number =>
+            endlessPipesUntil(startCourse(seed), t).pipes.filter(
+                p => BIRB_X > pipeXposAtAge(p, t - p.time) + p.width,
+            ).length;
+        [
+            [42, 20000],
+            [42, 30000],
+            [7, 25000],
+            [42, 12000],
+        ].reduce<GeneratedCourse | undefined>((known, [seed, t]) => {
+            const s = endless(seed, t);
+            const generated = generatedFor(s, [ghost], known);
+            expect(compareToGhost(s, ghost).pipes).toBe(
+                passed(seed, t) - passed(seed, 6000),
+            );
+            expect(compareToGhost(s, ghost, generated)).toEqual(
+                compareToGhost(s, ghost),
+            );
+            return generated;
+        }, undefined);
+        expect(passed(42, 30000)).toBeGreaterThan(passed(42, 6000));
+    });
+
+    it("carries the endless course on instead of generating it again", () => {
+        const s = createInitialState([], 1, [], undefined, 42);
+        const early = generatedFor({ ...s, elapsedTime: 10000 }, [ghost]);
+        const later = generatedFor(
+            { ...s, elapsedTime: 20000 },
+            [ghost],
+            early,
+        );
+        expect(later?.pipes.slice(0, early?.pipes.length)).toEqual(
+            early?.pipes,
+        );
+        expect(later).toEqual(
+            generatedFor({ ...s, elapsedTime: 20000 }, [ghost]),
+        );
+        expect(generatedFor({ ...s, elapsedTime: 5000 }, [ghost], later)).toBe(
+            later,
+        );
+        expect(
+            generatedFor(createInitialState([], 1), [ghost]),
+        ).toBeUndefined();
+    });
+});
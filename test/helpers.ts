@@ -0,0 +1,114 @@
+/**
+ * Runs and players shared by the tests of the simulation.
+ */
+
+import {
+    DEFAULT_RULES,
+    NoInput,
+    createInitialState,
+    isGameEnd,
+    step,
+} from "../src/state";
+import {
+    Birb,
+    Constants,
+    type GameRules,
+    type Pipe,
+    type State,
+} from "../src/types";
+
+/** Lives to spare and a floor and ceiling that cost nothing, with no end */
+export const FREE_RULES: Partial<GameRules> = {
+    lives: 9,
+    canvasHitsCostLife: false,
+    win: { type: "none" },
+};
+
+/**
+ * A run on the given pipes.
+ *
+ * @param course pipes of the run
+ * @param rules rules to change
+ * @returns state at the start
+ */
+export const runOn = (
+    course: readonly Pipe[],
+    rules: Partial<GameRules> = {},
+): State => createInitialState(course, 1, [], { ...DEFAULT_RULES, ...rules });
+
+/**
+ * Plays a run for a number of ticks, or until it ends.
+ *
+ * @param s state to start from
+ * @param flapIf decides whether to flap before each tick
+ * @param ticks most ticks to play, a minute unless told otherwise
+ * @returns every state, the start first
+ */
+export const play = (
+    s: State,
+    flapIf: (s: State) => boolean,
+    ticks: number = 60000 / Constants.TICK_RATE_MS,
+): State[] =>
+    Array.from({ length: ticks }).reduce<State[]>(
+        states => {
+            const last = states[states.length - 1];
+            return isGameEnd(last)
+                ? states
+                : [
+                      ...states,
+                      step(
+                          last,
+                          { ...NoInput, flap: flapIf(last) },
+                          Constants.TICK_RATE_MS,
+                      ),
+                  ];
+        },
+        [s],
+    );
+
+/**
+ * Plays a whole run, up to a time limit in case it never ends.
+ *
+ * @param s state to start from
+ * @param flapIf decides whether to flap before each tick
+ * @param ticks most ticks to play, ten minutes unless told otherwise
+ * @returns the final state
+ */
+export const playToEnd = (
+    s: State,
+    flapIf: (s: State) => boolean,
+    ticks: number = 600000 / Constants.TICK_RATE_MS,
+): State =>
+    Array.from({ length: ticks }).reduce<State>(
+        last =>
+            isGameEnd(last)
+                ? last
+                : step(
+                      last,
+                      { ...NoInput, flap: flapIf(last) },
+                      Constants.TICK_RATE_MS,
+                  ),
+        s,
+    );
+
+/**
+ * Flaps to hover over a height.
+ *
+ * @param y height the birb sinks to before flapping
+ * @returns whether to flap in a state
+ */
+export const hover =
+    (y: number) =>
+    (s: State): boolean =>
+        s.birbPosition > y && s.birbVelocity > 0;
+
+/**
+ * Flaps whenever the birb sinks close to the bottom of the next pipe's gap.
+ *
+ * @param s Current state
+ * @returns true to flap
+ */
+export const followGap = (s: State): boolean => {
+    const next = (s.pipeRead ?? s.course).find(p => !p.passed);
+    return hover(next ? next.gapBottom - Birb.HEIGHT - 10 : 250)(s);
+};
@@ -0,0 +1,255 @@
+import { Subject, firstValueFrom, from, reduce } from "rxjs";
+import { describe, expect, it } from "vitest";
+import {
+    DEFAULT_BINDINGS,
+    gamepadAction$,
+    keyAction$,
+    keyHeld$,
+    keySeatAction$,
+    loadBindings,
+    pointerAction$,
+    rebind,
+    saveBindings,
+    type BindingStorage,
+    type PadState,
+} from "../src/input";
+import type { Action, KeyBindings, SeatAction } from "../src/types";
+
+/**
+ * A key press, remembering whether its default was prevented.
+ *
+ * @param code `KeyboardEvent.code` of the key
+ * @param repeat is the key held down?
+ * @returns stand-in for a keydown event
+ */
+const keydown = (
+    code: string,
+    repeat = false,
+): KeyboardEvent & { prevented: boolean } => {
+    const e = {
+        code,
+        repeat,
+        prevented: false,
+        preventDefault: () => void (e.prevented = true),
+    };
+    return e as unknown as KeyboardEvent & { prevented: boolean };
+};
+
+/**
+ * A gamepad with the given buttons held.
+ *
+ * @param held indices of held buttons
+ * @returns stand-in for a Gamepad
+ */
+const pad = (...held: number[]): PadState => ({
+    buttons: Array.from({ length: 17 }, (_, i) => ({
+        pressed: held.includes(i),
+    })),
+});
+
+/**
+ * Collects what a finite stream emits.
+ *
+ * @param action$ stream of actions
+ * @returns every action, in order
+ */
+const actionsOf = (action$: ReturnType<typeof keyAction$>): Promise<Action[]> =>
+    firstValueFrom(
+        action$.pipe(reduce((acc, a) => [...acc, a], [] as Action[])),
+    );
+
+/**
+ * In-memory stand-in for localStorage.
+ *
+ * @returns empty storage
+ */
+const memoryStorage = (): BindingStorage & { items: Map<string, string> } => {
+    const items = new Map<string, string>();
+    return {
+        items,
+        getItem: key => items.get(key) ?? null,
+        setItem: (key, value) => void items.set(key, value),
+    };
+};
+
+describe("keyAction$", () => {
+    it("turns bound keys into actions, once for a held key", async () => {
+        const keys = [
+            keydown("Space"),
+            keydown("Space", true),
+            keydown("KeyQ"),
+            keydown("KeyP"),
+            keydown("ArrowUp"),
+            keydown("KeyR"),
+        ];
+        expect(
+            await actionsOf(keyAction$(from(keys), () => DEFAULT_BINDINGS)),
+        ).toEqual(["flap", "pause", "flap", "restart"]);
+        // only the keys the game uses lose their default, e.g. scrolling
+        expect(keys.map(k => k.prevented)).toEqual([
+            true,
+            false,
+            false,
+            true,
+            true,
+            true,
+        ]);
+    });
+
+    it("follows the bindings as they change", () => {
+        const key$ = new Subject<KeyboardEvent>();
+        const bindings: { value: KeyBindings } = { value: DEFAULT_BINDINGS };
+        const actions: Action[] = [];
+        keyAction$(key$, () => bindings.value).subscribe(a => actions.push(a));
+        key$.next(keydown("KeyW"));
+        bindings.value = rebind(bindings.value, "flap", "KeyW");
+        key$.next(keydown("KeyW"));
+        key$.next(keydown("Space"));
+        expect(actions).toEqual(["flap"]);
+    });
+
+    it("tells player 2's flaps apart in a match", async () => {
+        const seated = await firstValueFrom(
+            keySeatAction$(
+                from([keydown("Space"), keydown("ArrowUp"), keydown("KeyP")]),
+                () => DEFAULT_BINDINGS,
+            ).pipe(reduce((acc, a) => [...acc, a], [] as SeatAction[])),
+        );
+        expect(seated).toEqual([
+            { seat: 0, action: "flap" },
+            { seat: 1, action: "flap" },
+            { seat: 0, action: "pause" },
+        ]);
+    });
+});
+
+describe("keyHeld$", () => {
+    it("follows whether a key of the control is down", async () => {
+        const events = [
+            ["keydown", "KeyB"],
+            ["keydown", "KeyB"], // repeat
+            ["keydown", "Space"],
+            ["keyup", "Space"],
+            ["keyup", "KeyB"],
+        ].map(([type, code]) => ({ ...keydown(code), type }) as KeyboardEvent);
+        const held = await firstValueFrom(
+            keyHeld$(from(events), () => DEFAULT_BINDINGS, "rewind").pipe(
+                reduce((acc, h) => [...acc, h], [] as boolean[]),
+            ),
+        );
+        expect(held).toEqual([true, false]);
+    });
+});
+
+describe("pointerAction$", () => {
+    it("flaps for the primary pointer only", async () => {
+        const presses = [true, false, true].map(
+            isPrimary =>
+                ({ isPrimary, preventDefault: () => {} }) as PointerEvent,
+        );
+        expect(await actionsOf(pointerAction$(from(presses)))).toEqual([
+            "flap",
+            "flap",
+        ]);
+    });
+});
+
+describe("gamepadAction$", () => {
+    it("fires when a button goes down, not while it is held", async () => {
+        const polls: readonly (readonly (PadState | null)[])[] = [
+            [null, pad()],
+            [null, pad(0)],
+            [null, pad(0)],
+            [pad(1), pad(0)], // another flap button, still held on a pad
+            [pad(9), pad()],
+            [pad(8, 9), pad(0)],
+        ];
+        const read = { poll: 0 };
+        const action$ = gamepadAction$(
+            from(polls.map((_, i) => i)),
+            () => polls[read.poll++],
+        );
+        expect(await actionsOf(action$)).toEqual([
+            "flap",
+            "pause",
+            "flap",
+            "restart",
+        ]);
+    });
+});
+
+describe("rebind", () => {
+    it("moves a key from the action it was bound to", () => {
+        const bindings = rebind(
+            { ...DEFAULT_BINDINGS, flap: ["Space", "KeyJ"] },
+            "pause",
+            "KeyJ",
+        );
+        expect(bindings).toEqual({
+            flap: ["Space"],
+            pause: ["KeyJ"],
+            restart: ["KeyR"],
+            step: ["KeyN"],
+            flap2: ["ArrowUp"],
+            rewind: ["KeyB"],
+        });
+    });
+
+    it("swaps keys rather than leave an action without one", () => {
+        expect(rebind(DEFAULT_BINDINGS, "pause", "KeyR")).toEqual({
+            flap: ["Space"],
+            pause: ["KeyR"],
+            restart: ["KeyP"],
+            step: ["KeyN"],
+            flap2: ["ArrowUp"],
+            rewind: ["KeyB"],
+        });
+    });
+});
+
+describe("key bindings in storage", () => {
+    it("default until saved, and again if corrupt", () => {
+        const storage = memoryStorage();
+        expect(loadBindings(storage)).toEqual(DEFAULT_BINDINGS);
+        const bindings = rebind(DEFAULT_BINDINGS, "flap", "KeyJ");
+        saveBindings(storage, bindings);
+        expect(loadBindings(storage)).toEqual(bindings);
+
+        storage.items.forEach((_, key) => storage.setItem(key, '{"flap":[]}'));
+        expect(loadBindings(storage)).toEqual(DEFAULT_BINDINGS);
+        storage.items.forEach((_, key) => storage.setItem(key, "{"));
+        expect(loadBindings(storage)).toEqual(DEFAULT_BINDINGS);
+    });
+
+    it("give actions added since they were saved their free default keys", () => {
+        const storage = memoryStorage();
+        const { step: _, ...older } = rebind(DEFAULT_BINDINGS, "flap", "KeyN");
+        storage.setItem("flappyBirb.keyBindings", JSON.stringify(older));
+        expect(loadBindings(storage)).toEqual(DEFAULT_BINDINGS); // KeyN is taken
+        storage.setItem(
+            "flappyBirb.keyBindings",
+            JSON.stringify({ ...older, flap: ["Space"] }),
+        );
+        expect(loadBindings(storage)).toEqual({
+            ...older,
+            flap: ["Space"],
+            step: ["KeyN"],
+            flap2: ["ArrowUp"],
+            rewind: ["KeyB"],
+        });
+    });
+
+    it("give player 2 the second flap key of bindings saved before", () => {
+        const storage = memoryStorage();
+        const { flap2: _, ...older } = {
+            ...DEFAULT_BINDINGS,
+            flap: ["Space", "ArrowUp"],
+            pause: ["KeyQ"],
+        };
+        storage.setItem("flappyBirb.keyBindings", JSON.stringify(older));
+        expect(loadBindings(storage)).toEqual({
+            ...DEFAULT_BINDINGS,
+            pause: ["KeyQ"],
+        });
+    });
+});
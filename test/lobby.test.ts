@@ -0,0 +1,196 @@
+import { describe, expect, it } from "vitest";
+import {
+    EMPTY_LOBBY,
+    leave,
+    receive,
+    type Lobby,
+    type LobbyUpdate,
+} from "../src/lobby";
+import type { ClientMessage } from "../src/race";
+import type { RunStats } from "../src/types";
+
+const stats = (score: number): RunStats => ({
+    score,
+    lives: 0,
+    time: 1000,
+    flaps: 3,
+    hits: 1,
+});
+
+/**
+ * Sends the server messages in turn.
+ *
+ * @param messages who sent what, in order
+ * @param lobby lobby to start from
+ * @returns the lobby after each message, and what it led to
+ */
+const receiveAll = (
+    messages: readonly (readonly [string, ClientMessage])[],
+    lobby: Lobby = EMPTY_LOBBY,
+): LobbyUpdate[] =>
+    messages.reduce<LobbyUpdate[]>(
+        (updates, [from, message]) => [
+            ...updates,
+            receive(updates.at(-1)?.lobby ?? lobby, from, message, 42),
+        ],
+        [],
+    );
+
+const joined = receiveAll([
+    ["a", { type: "join", name: "Ann", map: "a.csv" }],
+    ["b", { type: "join", name: "Bo", map: "b.csv" }],
+]).at(-1)!.lobby;
+
+const racing = receiveAll(
+    [
+        ["a", { type: "ready", ready: true }],
+        ["b", { type: "ready", ready: true }],
+    ],
+    joined,
+).at(-1)!.lobby;
+
+describe("the lobby", () => {
+    it("welcomes players and tells everyone who is in", () => {
+        const [first, second] = receiveAll([
+            ["a", { type: "join", name: "Ann", map: "a.csv" }],
+            ["b", { type: "join", name: "Bo", map: "b.csv" }],
+        ]);
+        expect(first.deliveries[0]).toEqual({
+            to: ["a"],
+            message: { type: "welcome", id: "a" },
+        });
+        expect(second.deliveries[1]).toEqual({
+            to: ["a", "b"],
+            message: {
+                type: "lobby",
+                players: [
+                    { id: "a", name: "Ann", ready: false },
+                    { id: "b", name: "Bo", ready: false },
+                ],
+                racing: false,
+            },
+        });
+        const renamed = receive(
+            joined,
+            "a",
+            { type: "join", name: "Annie", map: "a.csv" },
+            1,
+        );
+        expect(renamed.lobby.players.map(p => p.name)).toEqual(["Annie", "Bo"]);
+    });
+
+    it("turns away players who have not joined", () => {
+        const { lobby, deliveries } = receive(
+            joined,
+            "c",
+            { type: "ready", ready: true },
+            1,
+        );
+        expect(lobby).toBe(joined);
+        expect(deliveries).toEqual([
+            {
+                to: ["c"],
+                message: { type: "error", message: "Join the lobby first" },
+            },
+        ]);
+    });
+
+    it("starts a race on the first player's map once everyone is ready", () => {
+        const [oneReady, allReady] = receiveAll(
+            [
+                ["a", { type: "ready", ready: true }],
+                ["b", { type: "ready", ready: true }],
+            ],
+            joined,
+        );
+        expect(oneReady.lobby.race).toBeUndefined();
+        expect(allReady.deliveries[0]).toEqual({
+            to: ["a", "b"],
+            message: {
+                type: "start",
+                seed: 42,
+                map: "a.csv",
+                racers: [
+                    { id: "a", name: "Ann" },
+                    { id: "b", name: "Bo" },
+                ],
+            },
+        });
+        expect(allReady.lobby.players.every(p => !p.ready)).toBe(true);
+        const alone = receiveAll([
+            ["a", { type: "join", name: "Ann", map: "a.csv" }],
+            ["a", { type: "ready", ready: true }],
+        ]).at(-1)!;
+        expect(alone.lobby.race).toBeUndefined();
+    });
+});
+
+describe("a race", () => {
+    it("relays flaps and reports to the other racers only", () => {
+        const late = receive(
+            racing,
+            "c",
+            { type: "join", name: "Cy", map: "c.csv" },
+            1,
+        ).lobby;
+        expect(
+            receive(late, "a", { type: "input", t: 32, action: "flap" }, 1)
+                .deliveries,
+        ).toEqual([
+            {
+                to: ["b"],
+                message: { type: "input", t: 32, action: "flap", from: "a" },
+            },
+        ]);
+        expect(
+            receive(late, "c", { type: "input", t: 32, action: "flap" }, 1)
+                .deliveries,
+        ).toEqual([]);
+        expect(
+            receive(late, "c", { type: "ready", ready: true }, 1).deliveries[0]
+                .message,
+        ).toEqual({ type: "error", message: "Wait for the race to finish" });
+    });
+
+    it("sends the results once every racer has finished", () => {
+        const [first, second] = receiveAll(
+            [
+                ["b", { type: "finished", stats: stats(4) }],
+                ["a", { type: "finished", stats: stats(7) }],
+            ],
+            racing,
+        );
+        expect(first.lobby.race?.results).toEqual({ b: stats(4) });
+        expect(first.deliveries).toEqual([]);
+        expect(second.lobby.race).toBeUndefined();
+        expect(second.deliveries[0]).toEqual({
+            to: ["a", "b"],
+            message: {
+                type: "results",
+                results: [
+                    { id: "a", name: "Ann", stats: stats(7) },
+                    { id: "b", name: "Bo", stats: stats(4) },
+                ],
+            },
+        });
+    });
+
+    it("carries on without racers who leave", () => {
+        const finished = receive(
+            racing,
+            "a",
+            { type: "finished", stats: stats(7) },
+            1,
+        ).lobby;
+        const { lobby, deliveries } = leave(finished, "b");
+        expect(lobby).toEqual({
+            players: [{ id: "a", name: "Ann", map: "a.csv", ready: false }],
+        });
+        expect(deliveries[0].message).toEqual({
+            type: "results",
+            results: [{ id: "a", name: "Ann", stats: stats(7) }],
+        });
+        expect(leave(racing, "b").lobby.race?.racers).toEqual(["a"]);
+        expect(leave(racing, "zz").lobby).toBe(racing);
+    });
+});
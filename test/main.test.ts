@@ -1,5 +1,20 @@
+import { readFileSync } from "node:fs";
 import { assert, describe, expect, it } from "vitest";
+import {
+    DEFAULT_RULES,
+    NoInput,
+    createInitialState,
+    createPipe,
+    hasWon,
+    startAt,
+    step,
+} from "../src/state";
 import { state$ } from "../src/main";
+import { loadMap } from "../src/map";
+import { Birb, Constants, type State } from "../src/types";
+import { followGap, playToEnd } from "./helpers";
+
+const csv = readFileSync(new URL("../assets/map.csv", import.meta.url), "utf8");
 
 describe("state$", () => {
     it("is defined", () => {
@@ -9,3 +24,220 @@ describe("state$", () => {
         assert.isFunction(state$);
     });
 });
+
+describe("step", () => {
+    const course = loadMap(csv).pipes;
+    const start = createInitialState(course, 1234);
+
+    it("applies gravity each tick", () => {
+        const s = step(start, NoInput, Constants.TICK_RATE_MS);
+        expect(s.birbVelocity).toBeCloseTo(Birb.GRAVITY);
+        expect(s.birbPosition).toBeCloseTo(200 + Birb.GRAVITY);
+        expect(s.elapsedTime).toBe(Constants.TICK_RATE_MS);
+    });
+
+    it("flaps without advancing time when dt is 0", () => {
+        const s = step(start, { ...NoInput, flap: true }, 0);
+        expect(s.birbVelocity).toBe(Birb.FLAP_VELOCITY);
+        expect(s.elapsedTime).toBe(0);
+    });
+
+    it("ignores flaps and time while paused", () => {
+        const paused = step(start, { ...NoInput, pause: true }, 0);
+        const s = step(paused, { ...NoInput, flap: true }, 100);
+        expect(s).toEqual(paused);
+        expect(step(s, { ...NoInput, pause: true }, 0).paused).toBe(false);
+    });
+
+    it("takes a single tick for a step while paused", () => {
+        const paused = step(start, { ...NoInput, pause: true }, 0);
+        const stepped = step(paused, { ...NoInput, step: true }, 0);
+        expect(stepped).toEqual({
+            ...step(start, NoInput, Constants.TICK_RATE_MS),
+            paused: true,
+        });
+        // running, a step does nothing
+        expect(step(start, { ...NoInput, step: true }, 0)).toEqual(start);
+    });
+
+    it("restarts on the same course and seed", () => {
+        const s = step(start, { ...NoInput, flap: true }, 500);
+        expect(step(s, { ...NoInput, restart: true }, 0)).toEqual(start);
+    });
+
+    it("loses every life when the player never flaps", () => {
+        const end = playToEnd(start, () => false);
+        expect(end.gameOver).toBe(true);
+        expect(end.birbLives).toBe(0);
+    });
+
+    it("wins a full 20-pipe run without a DOM", () => {
+        const end = playToEnd(start, followGap);
+        expect(hasWon(end)).toBe(true);
+        expect(end.score).toBe(course.length);
+        expect(end.birbLives).toBeGreaterThan(0);
+    });
+
+    it("counts flaps and hits", () => {
+        const flapped = step(start, { ...NoInput, flap: true }, 0);
+        expect(flapped.flaps).toBe(1);
+        const paused = step(flapped, { ...NoInput, pause: true }, 0);
+        expect(step(paused, { ...NoInput, flap: true }, 0).flaps).toBe(1);
+        const end = playToEnd(start, () => false);
+        expect(end.flaps).toBe(0);
+        expect(end.hits).toBe(3); // one per life lost on the floor
+    });
+
+    it("is deterministic for a seed", () => {
+        expect(playToEnd(start, followGap)).toEqual(
+            playToEnd(start, followGap),
+        );
+    });
+});
+
+describe("level options", () => {
+    const tick = (s: State): State => step(s, NoInput, Constants.TICK_RATE_MS);
+
+    it("moves each pipe at its own speed", () => {
+        const course = [
+            createPipe(0.5, 0.3, 0),
+            createPipe(0.5, 0.3, 1, { travelMs: 1500, width: 100 }),
+        ];
+        const s = tick(createInitialState(course, 1));
+        const [slow, fast] = s.pipeRead!;
+        expect(slow.xpos).toBeCloseTo(600 - (650 * 16) / 3000);
+        expect(fast.xpos).toBeCloseTo(600 - (700 * 15) / 1500);
+    });
+
+    it("moves an oscillating gap with the pipe's age", () => {
+        const course = [
+            createPipe(0.5, 0.3, 0, {
+                oscillation: { amplitude: 0.1, periodMs: 256 },
+            }),
+        ];
+        const start = createInitialState(course, 1);
+        const quarter = [1, 2, 3, 4].reduce(s => tick(s), start);
+        // a quarter period in, the gap is amplitude * canvas height lower
+        expect(quarter.pipeRead![0].gapTop).toBeCloseTo(course[0].gapTop + 40);
+        expect(quarter.pipeRead![0].gapBottom).toBeCloseTo(
+            course[0].gapBottom + 40,
+        );
+    });
+
+    it("honours the level's win condition", () => {
+        const course = loadMap(csv).pipes.slice(0, 3);
+        const allPipes = createInitialState(course, 1, [], {
+            ...DEFAULT_RULES,
+            win: { type: "allPipes" },
+        });
+        expect(hasWon({ ...allPipes, score: 2 })).toBe(false);
+        expect(hasWon({ ...allPipes, score: 3 })).toBe(true);
+        const endless = createInitialState(course, 1, [], {
+            ...DEFAULT_RULES,
+            win: { type: "none" },
+        });
+        expect(hasWon({ ...endless, score: 100 })).toBe(false);
+    });
+});
+
+describe("endless mode", () => {
+    const start = createInitialState(
+        [],
+        1234,
+        [],
+        { ...DEFAULT_RULES, win: { type: "none" } },
+        42,
+    );
+
+    it("generates the course as it goes until the birb runs out of lives", () => {
+        const end = playToEnd(
+            start,
+            s => s.elapsedTime < 90000 && followGap(s),
+        );
+        expect(end.gameOver).toBe(true);
+        expect(end.score).toBeGreaterThan(20);
+    });
+
+    it("forgets pipes that have left the screen but keeps the score", () => {
+        const later = Array.from({ length: 2500 }).reduce<State>(
+            s =>
+                step(
+                    s,
+                    { ...NoInput, flap: followGap(s) },
+                    Constants.TICK_RATE_MS,
+                ),
+            start,
+        );
+        expect(later.score).toBeGreaterThan(10);
+        expect(later.pipeRead!.length).toBeLessThan(5);
+        expect(
+            later.pipeRead!.every(p => !p.passed || p.age <= p.travelMs),
+        ).toBe(true);
+    });
+
+    it("plays the same course for the same seed, also after a restart", () => {
+        const run = playToEnd(start, followGap);
+        const restarted = step(run, { ...NoInput, restart: true }, 0);
+        expect(restarted).toEqual(start);
+        expect(playToEnd(restarted, followGap)).toEqual(run);
+    });
+
+    it("cannot be won by passing every pipe", () => {
+        const allPipes = createInitialState(
+            [],
+            1,
+            [],
+            { ...DEFAULT_RULES, win: { type: "allPipes" } },
+            42,
+        );
+        expect(hasWon(allPipes)).toBe(false);
+    });
+});
+
+describe("startAt", () => {
+    const course = loadMap(csv).pipes;
+    const start = createInitialState(course, 1234, [], {
+        ...DEFAULT_RULES,
+        win: { type: "allPipes" },
+    });
+
+    it("puts the pipes where they are at that time, counting those passed", () => {
+        const flown = Array.from({ length: 625 }).reduce<State>(
+            s =>
+                step(
+                    s,
+                    { ...NoInput, flap: followGap(s) },
+                    Constants.TICK_RATE_MS,
+                ),
+            start,
+        ); // 10s
+        const later = startAt(start, 10007);
+        expect(later.elapsedTime).toBe(10000);
+        expect(later.score).toBe(flown.score);
+        expect(later.course).toBe(course);
+        expect(later.pipeRendering!.map(p => p.xpos)).toEqual(
+            flown.pipeRendering!.filter(p => !p.passed).map(p => p.xpos),
+        );
+
+        const next = playToEnd(later, followGap);
+        expect(next.score).toBe(course.length);
+        expect(hasWon(next)).toBe(true);
+    });
+
+    it("carries on an endless course from that time", () => {
+        const endless = createInitialState(
+            [],
+            1234,
+            [],
+            { ...DEFAULT_RULES, win: { type: "none" } },
+            42,
+        );
+        const later = startAt(endless, 30000);
+        expect(later.pipeRead!.every(p => !p.passed)).toBe(true);
+        expect(later.pipeRead!.some(p => p.time <= 30000)).toBe(true);
+        expect(later.score).toBeGreaterThan(0);
+        const s = step(later, NoInput, Constants.TICK_RATE_MS);
+        expect(s.score).toBe(later.score);
+        expect(s.events.some(e => e.type === "pipePassed")).toBe(false);
+    });
+});
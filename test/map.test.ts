@@ -0,0 +1,228 @@
+import { readFileSync } from "node:fs";
+import { describe, expect, it } from "vitest";
+import {
+    loadMap,
+    serialiseCsvMap,
+    serialiseLevel,
+    splitCsvLine,
+} from "../src/map";
+
+const csv = readFileSync(new URL("../assets/map.csv", import.meta.url), "utf8");
+
+describe("splitCsvLine", () => {
+    it("splits and trims fields", () => {
+        expect(splitCsvLine(" 0.5, 0.25 ,2")).toEqual(["0.5", "0.25", "2"]);
+    });
+
+    it("keeps commas and escaped quotes inside quoted fields", () => {
+        expect(splitCsvLine('"a, b","say ""hi""",3')).toEqual([
+            "a, b",
+            'say "hi"',
+            "3",
+        ]);
+    });
+
+    it("rejects an unclosed quote", () => {
+        expect(splitCsvLine('"0.5,0.2,1')).toBeUndefined();
+    });
+});
+
+describe("loadMap", () => {
+    it("loads the shipped map without errors", () => {
+        const { pipes, errors } = loadMap(csv);
+        expect(errors).toEqual([]);
+        expect(pipes).toHaveLength(20);
+        expect(pipes[0].time).toBe(2000);
+    });
+
+    it("ignores a trailing newline, CRLF, blank lines and comments", () => {
+        const text =
+            "# practice map\r\ngap_y,gap_height,time\r\n\r\n0.5,0.3,1\r\n# the end\r\n0.4,0.3,2\r\n";
+        const { pipes, errors } = loadMap(text);
+        expect(errors).toEqual([]);
+        expect(pipes.map(p => p.time)).toEqual([1000, 2000]);
+    });
+
+    it("finds columns by name and accepts quoted numbers", () => {
+        const { pipes, errors } = loadMap(
+            'time,note,gap_height,gap_y\n1,"hi, there","0.3",0.5',
+        );
+        expect(errors).toEqual([]);
+        expect(pipes[0]).toMatchObject({
+            gapY: 0.5,
+            gapHeight: 0.3,
+            time: 1000,
+        });
+    });
+
+    it("reports a missing column", () => {
+        expect(loadMap("gap_y,time\n0.5,1").errors).toEqual([
+            { line: 1, message: "header is missing gap_height" },
+        ]);
+    });
+
+    it("reports bad rows with their line numbers and skips them", () => {
+        const text = [
+            "gap_y,gap_height,time",
+            "0.5,0.3,1",
+            "abc,0.3,2",
+            "0.5,0.05,3", // narrower than the birb
+            "0.95,0.3,4", // sticks out of the canvas
+            "0.5,0.3,4",
+            "0.5,0.3,3.5", // goes back in time
+            '"0.5,0.3,6',
+        ].join("\n");
+        const { pipes, errors } = loadMap(text);
+        expect(errors.map(e => e.line)).toEqual([3, 4, 5, 7, 8]);
+        expect(errors[0].message).toMatch(/gap_y is not a number/);
+        expect(errors[1].message).toMatch(/birb/);
+        expect(errors[2].message).toMatch(/canvas/);
+        expect(errors[3].message).toMatch(/previous pipe/);
+        expect(errors[4].message).toMatch(/quote/);
+        expect(pipes.map(p => p.time)).toEqual([1000, 4000, 3500]);
+    });
+
+    it("reports an empty map", () => {
+        expect(loadMap("").errors).toEqual([
+            { line: 1, message: "map is empty" },
+        ]);
+        expect(loadMap("gap_y,gap_height,time\n").errors).toEqual([
+            { line: 1, message: "map has no pipes" },
+        ]);
+    });
+
+    it("reads the pickup column, left empty for none", () => {
+        const text = [
+            "gap_y,gap_height,time,pickup",
+            "0.5,0.3,1,coin",
+            "0.5,0.3,2,",
+            "0.5,0.3,3,gem",
+            "0.5,0.3,4,slow",
+        ].join("\n");
+        const { pipes, errors } = loadMap(text);
+        expect(errors).toEqual([
+            {
+                line: 4,
+                message: "pickup gem is not one of coin, shield, life, slow",
+            },
+        ]);
+        expect(pipes.map(p => p.pickup)).toEqual(["coin", undefined, "slow"]);
+        expect(serialiseCsvMap(pipes).split("\n")[0]).toMatch(/,pickup$/);
+        expect(loadMap(serialiseCsvMap(pipes)).pipes).toEqual(pipes);
+    });
+});
+
+describe("loadMap with a JSON level", () => {
+    const level = readFileSync(
+        new URL("../assets/level.json", import.meta.url),
+        "utf8",
+    );
+
+    it("loads the shipped level with its description", () => {
+        const { pipes, info, errors } = loadMap(level);
+        expect(errors).toEqual([]);
+        expect(info).toEqual({
+            name: "Tidal",
+            author: "FIT2102",
+            win: { type: "allPipes" },
+        });
+        expect(pipes).toHaveLength(8);
+    });
+
+    it("reads per-pipe options, with defaults for the rest", () => {
+        const { pipes, errors } = loadMap(
+            JSON.stringify({
+                version: 1,
+                pipes: [
+                    { gapY: 0.5, gapHeight: 0.3, time: 1 },
+                    {
+                        gapY: 0.5,
+                        gapHeight: 0.3,
+                        time: 2,
+                        travelTime: 2.5,
+                        width: 80,
+                        color: "red",
+                        oscillation: { amplitude: 0.1, period: 2 },
+                    },
+                ],
+            }),
+        );
+        expect(errors).toEqual([]);
+        expect(pipes[0]).toMatchObject({
+            time: 1000,
+            travelMs: 3000,
+            width: 50,
+            color: "green",
+            oscillation: undefined,
+        });
+        expect(pipes[1]).toMatchObject({
+            time: 2000,
+            travelMs: 2500,
+            width: 80,
+            color: "red",
+            oscillation: { amplitude: 0.1, periodMs: 2000 },
+        });
+    });
+
+    it("reports bad pipes by their position and skips them", () => {
+        const { pipes, errors } = loadMap(
+            JSON.stringify({
+                version: 1,
+                pipes: [
+                    { gapY: 0.5, gapHeight: 0.3, time: 1 },
+                    { gapY: "0.5", gapHeight: 0.3, time: 2 },
+                    {
+                        gapY: 0.5,
+                        gapHeight: 0.3,
+                        time: 3,
+                        oscillation: { amplitude: 0.4, period: 1 },
+                    },
+                    { gapY: 0.5, gapHeight: 0.3, time: 4, width: 0 },
+                    { gapY: 0.5, gapHeight: 0.3, time: 0.5 },
+                ],
+            }),
+        );
+        expect(errors.map(e => e.message)).toEqual([
+            "pipe 2: gapY is not a number",
+            "pipe 3: moving gap leaves the canvas",
+            "pipe 4: width must be a positive number",
+            "pipe 5: time 0.5 is not after the previous pipe's",
+        ]);
+        expect(errors.every(e => e.line === 0)).toBe(true);
+        expect(pipes.map(p => p.time)).toEqual([1000, 500]);
+    });
+
+    it("rejects broken files, unknown versions and bad win conditions", () => {
+        expect(loadMap("{ nope").errors[0].message).toMatch(/JSON/);
+        expect(
+            loadMap(JSON.stringify({ version: 9, pipes: [] })).errors[0]
+                .message,
+        ).toMatch(/version 9/);
+        const { info, errors } = loadMap(
+            JSON.stringify({
+                version: 1,
+                win: { type: "score", score: -1 },
+                pipes: [{ gapY: 0.5, gapHeight: 0.3, time: 1 }],
+            }),
+        );
+        expect(info.win).toBeUndefined();
+        expect(errors[0].message).toMatch(/win score/);
+    });
+});
+
+describe("writing maps", () => {
+    const level = readFileSync(
+        new URL("../assets/level.json", import.meta.url),
+        "utf8",
+    );
+
+    it("writes CSV maps that load back the same", () => {
+        const { pipes } = loadMap(csv);
+        expect(loadMap(serialiseCsvMap(pipes))).toEqual(loadMap(csv));
+    });
+
+    it("writes JSON levels that load back the same", () => {
+        const { pipes, info } = loadMap(level);
+        expect(loadMap(serialiseLevel(pipes, info))).toEqual(loadMap(level));
+    });
+});
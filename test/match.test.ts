@@ -0,0 +1,172 @@
+import { readFileSync } from "node:fs";
+import { Subject } from "rxjs";
+import { describe, expect, it } from "vitest";
+import { autopilot, observe } from "../src/bot";
+import { loadMap } from "../src/map";
+import {
+    applyMatchSignal,
+    isMatchOver,
+    match$,
+    matchResult,
+    matchWinner,
+    sceneOf,
+    startHotSeat,
+    startMatch,
+    takeTurn,
+    type Match,
+    type MatchSignal,
+} from "../src/match";
+import { createInitialState, isGameEnd } from "../src/state";
+import type { FrameSteps, RunStats, SeatAction } from "../src/types";
+
+const csv = readFileSync(new URL("../assets/map.csv", import.meta.url), "utf8");
+const start = createInitialState(loadMap(csv).pipes, 1234);
+
+/**
+ * A run's result.
+ *
+ * @param score pipes passed
+ * @param lives lives left
+ * @param time ms survived
+ * @returns the stats
+ */
+const stats = (score: number, lives = 0, time = 1000): RunStats => ({
+    score,
+    lives,
+    time,
+    flaps: 0,
+    hits: 0,
+});
+
+/**
+ * Plays a match where only player 1 flaps, as the autopilot would.
+ *
+ * @param ticks ticks to play at most
+ * @returns the match after every signal
+ */
+const playSolo = (ticks: number): Match[] =>
+    Array.from({ length: ticks }).reduce<Match[]>(
+        matches => {
+            const m = matches[matches.length - 1];
+            if (isMatchOver(m)) return matches;
+            const signals: MatchSignal[] = autopilot(observe(m[0]))
+                ? [{ seat: 0, action: "flap" }, "Tick"]
+                : ["Tick"];
+            return [
+                ...matches,
+                ...signals.reduce<Match[]>(
+                    (acc, signal) => [
+                        ...acc,
+                        applyMatchSignal(acc.at(-1) ?? m, signal),
+                    ],
+                    [],
+                ),
+            ];
+        },
+        [startMatch(start)],
+    );
+
+describe("a local match", () => {
+    it("flies every birb through the same pipes, each on its own", () => {
+        const matches = playSolo(400);
+        const last = matches[matches.length - 1];
+        // player 2 never flaps, so bounces until out
+        expect(isGameEnd(last[1])).toBe(true);
+        expect(isGameEnd(last[0])).toBe(false);
+        expect(last[0].flaps).toBeGreaterThan(0);
+        expect(last[1].flaps).toBe(0);
+        expect(last[0].score).toBeGreaterThan(last[1].score);
+        // while both fly, the course is the same
+        const both = matches.filter(m => !m.some(isGameEnd));
+        expect(both.length).toBeGreaterThan(50);
+        both.forEach(([p1, p2]) => {
+            expect(p2.elapsedTime).toBe(p1.elapsedTime);
+            expect(p2.pipeRendering).toEqual(p1.pipeRendering);
+        });
+    });
+
+    it("pauses everyone, but flaps only the player who pressed", () => {
+        const flapped = applyMatchSignal(startMatch(start), {
+            seat: 1,
+            action: "flap",
+        });
+        expect(flapped.map(s => s.flaps)).toEqual([0, 1]);
+        expect(flapped[0].events).toEqual([]);
+        const paused = applyMatchSignal(flapped, { seat: 0, action: "pause" });
+        expect(paused.map(s => s.paused)).toEqual([true, true]);
+        expect(paused[1].events).toEqual([]); // the flap was the step before
+    });
+
+    it("is shown from the first player still flying, with everyone's events", () => {
+        const out = { ...start, gameOver: true, score: 3 };
+        const flying = {
+            ...start,
+            score: 1,
+            events: [{ type: "flap", t: 0 }] as const,
+        };
+        const scene = sceneOf([
+            { ...out, events: [{ type: "gameOver", t: 0 }] },
+            flying,
+        ]);
+        expect(scene.score).toBe(1);
+        expect(scene.events.map(e => e.type)).toEqual(["gameOver", "flap"]);
+        expect(sceneOf([out, { ...out, score: 5 }]).score).toBe(3);
+    });
+
+    it("runs with the clock until everyone is out, and restarts", () => {
+        const clock$ = new Subject<FrameSteps>();
+        const action$ = new Subject<SeatAction>();
+        const matches: Match[] = [];
+        const done = { value: false };
+        match$(csv, { action$, clock$, seed: 1234 }).subscribe({
+            next: m => matches.push(m),
+            complete: () => (done.value = true),
+        });
+        action$.next({ seat: 1, action: "flap" });
+        Array.from({ length: 2000 }).forEach(() =>
+            clock$.next({ steps: 1, alpha: 0 }),
+        );
+        const over = matches[matches.length - 1];
+        expect(isMatchOver(over)).toBe(true);
+        expect(over.map(s => s.flaps)).toEqual([0, 1]);
+        const count = matches.length;
+        clock$.next({ steps: 1, alpha: 0 });
+        expect(matches).toHaveLength(count); // waits for a restart
+
+        action$.next({ seat: 0, action: "restart" });
+        clock$.next({ steps: 1, alpha: 0 });
+        expect(matches[matches.length - 1].map(s => s.elapsedTime)).toEqual([
+            16, 16,
+        ]);
+        expect(done.value).toBe(false);
+    });
+});
+
+describe("matchWinner", () => {
+    it("goes by score, then lives, then time", () => {
+        expect(matchWinner([stats(3), stats(5)])).toBe(1);
+        expect(matchWinner([stats(5, 2), stats(5, 1)])).toBe(0);
+        expect(matchWinner([stats(5, 0, 900), stats(5, 0, 1200)])).toBe(1);
+        expect(matchWinner([stats(5), stats(5)])).toBeUndefined();
+    });
+
+    it("is only told once everyone has played", () => {
+        expect(matchResult([stats(3), undefined])).toBe("");
+        expect(matchResult([stats(3), stats(4)])).toBe("P2 wins!");
+        expect(matchResult([stats(4), stats(4)])).toBe("Draw!");
+    });
+});
+
+describe("hot-seat", () => {
+    it("takes turns, starting a new round once everyone has played", () => {
+        const first = takeTurn(startHotSeat(), stats(3));
+        expect(first).toEqual({ turn: 1, results: [stats(3), undefined] });
+        const round = takeTurn(first, stats(7));
+        expect(round).toEqual({ turn: 0, results: [stats(3), stats(7)] });
+        expect(matchResult(round.results)).toBe("P2 wins!");
+        expect(takeTurn(round, stats(1))).toEqual({
+            turn: 1,
+            results: [stats(1), undefined],
+        });
+    });
+});
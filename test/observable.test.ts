@@ -0,0 +1,87 @@
+import { firstValueFrom, from, reduce } from "rxjs";
+import { describe, expect, it } from "vitest";
+import { fixedSteps, scaleTime } from "../src/observable";
+import { NoInput, createInitialState, step } from "../src/state";
+import { Constants, type FrameSteps } from "../src/types";
+
+/**
+ * Timestamps of a display refreshing at the given rate.
+ *
+ * @param hz refresh rate
+ * @param seconds how long to run for
+ * @returns frame timestamps in ms
+ */
+const display = (hz: number, seconds: number): number[] =>
+    Array.from({ length: hz * seconds + 1 }, (_, i) => (i * 1000) / hz);
+
+/**
+ * Runs the clock over the given frame timestamps.
+ *
+ * @param times frame timestamps in ms
+ * @returns steps and alpha of every frame
+ */
+const framesOf = (times: readonly number[]): Promise<FrameSteps[]> =>
+    firstValueFrom(
+        fixedSteps(from(times)).pipe(
+            reduce((acc, f) => [...acc, f], [] as FrameSteps[]),
+        ),
+    );
+
+/**
+ * Total steps taken over a run.
+ *
+ * @param frames frames of the clock
+ * @returns sum of their steps
+ */
+const totalSteps = (frames: readonly FrameSteps[]): number =>
+    frames.reduce((n, f) => n + f.steps, 0);
+
+describe("fixedSteps", () => {
+    it("takes the same steps on 60 Hz and 144 Hz displays", async () => {
+        const at60 = await framesOf(display(60, 10));
+        const at144 = await framesOf(display(144, 10));
+        expect(totalSteps(at60)).toBe(10_000 / Constants.TICK_RATE_MS);
+        expect(totalSteps(at144)).toBe(totalSteps(at60));
+
+        // so the simulation ends up in the same place
+        const run = (frames: readonly FrameSteps[]) =>
+            frames.reduce(
+                (s, f) =>
+                    Array.from({ length: f.steps }).reduce(
+                        (acc: typeof s) =>
+                            step(acc, NoInput, Constants.TICK_RATE_MS),
+                        s,
+                    ),
+                createInitialState([], 1),
+            );
+        expect(run(at144)).toEqual(run(at60));
+    });
+
+    it("reports the time left over as a fraction of a step", async () => {
+        const frames = await framesOf([0, 20, 30]);
+        expect(frames.map(f => f.steps)).toEqual([0, 1, 0]);
+        expect(frames[1].alpha).toBeCloseTo(4 / 16);
+        expect(frames[2].alpha).toBeCloseTo(14 / 16);
+    });
+
+    it("does not catch up on time spent in a background tab", async () => {
+        const frames = await framesOf([0, 16, 60_016, 60_032]);
+        expect(totalSteps(frames)).toBe(
+            2 + Math.floor(Constants.MAX_FRAME_MS / Constants.TICK_RATE_MS),
+        );
+    });
+});
+
+describe("scaleTime", () => {
+    it("slows the clock down from the frame the rate changes", async () => {
+        const rates = [1, 0.25, 0.25, 1]; // read from the second frame on
+        const frame = { i: 0 };
+        const times = await firstValueFrom(
+            scaleTime(
+                from([100, 116, 132, 196, 212]),
+                () => rates[frame.i++],
+            ).pipe(reduce((acc, t) => [...acc, t], [] as number[])),
+        );
+        expect(times).toEqual([100, 116, 120, 136, 152]);
+    });
+});
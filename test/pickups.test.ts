@@ -0,0 +1,209 @@
+import { Subject } from "rxjs";
+import { describe, expect, it } from "vitest";
+import { state$ } from "../src/main";
+import {
+    PICKUP_KINDS,
+    Pickups,
+    activeEffects,
+    collect,
+    isPickupKind,
+    randomPickup,
+    type PickupEffects,
+} from "../src/pickups";
+import { statsOf } from "../src/screens";
+import {
+    courseTime,
+    createInitialState,
+    createPipe,
+    ghostPositionAt,
+} from "../src/state";
+import { RNG } from "../src/util";
+import type {
+    Action,
+    FrameSteps,
+    PickupKind,
+    Pipe,
+    Recording,
+    State,
+} from "../src/types";
+import { FREE_RULES, hover, play, runOn } from "./helpers";
+
+/** Rules of the runs here, with a free floor and ceiling */
+const rules = { ...FREE_RULES, lives: 3 };
+
+/**
+ * A wide gap from 120 to 280px, its pickup right where the birb hovers.
+ *
+ * @param pickup kind of pickup in the gap
+ * @returns the pipe
+ */
+const gapWith = (pickup?: PickupKind): Pipe =>
+    createPipe(0.5, 0.4, 0, { pickup });
+
+describe("randomPickup", () => {
+    it("leaves most generated pipes without a pickup, coins the most common", () => {
+        const hashes = Array.from({ length: 2000 }).reduce<number[]>(
+            hs => [...hs, RNG.hash(hs[hs.length - 1] ?? 1)],
+            [],
+        );
+        const rolled = hashes.map(randomPickup);
+        const count = (kind?: PickupKind): number =>
+            rolled.filter(k => k === kind).length;
+        expect(count(undefined)).toBeGreaterThan(1300);
+        PICKUP_KINDS.forEach(kind => {
+            expect(count(kind)).toBeGreaterThan(0);
+            expect(count(kind)).toBeLessThanOrEqual(count("coin"));
+        });
+        expect(rolled.every(k => k === undefined || isPickupKind(k))).toBe(
+            true,
+        );
+    });
+});
+
+describe("collect", () => {
+    const none: PickupEffects = {
+        bonus: 0,
+        birbLives: 2,
+        shield: false,
+        slowUntil: 0,
+    };
+
+    it("gives each kind of pickup its effect", () => {
+        expect(collect(none, "coin", 500)).toEqual({
+            ...none,
+            bonus: Pickups.COIN_BONUS,
+        });
+        expect(collect(none, "shield", 500)).toEqual({ ...none, shield: true });
+        expect(collect(none, "life", 500)).toEqual({ ...none, birbLives: 3 });
+        expect(collect(none, "slow", 500)).toEqual({
+            ...none,
+            slowUntil: 500 + Pickups.SLOW_MS,
+        });
+    });
+});
+
+describe("activeEffects", () => {
+    it("lists the effects still on, with the slow time left", () => {
+        const start = createInitialState([], 1);
+        expect(activeEffects(start)).toEqual([]);
+        expect(
+            activeEffects({
+                ...start,
+                shield: true,
+                slowUntil: 3000,
+                elapsedTime: 600,
+            }),
+        ).toEqual(["shield", "slow 2.4s"]);
+        expect(
+            activeEffects({ ...start, slowUntil: 3000, elapsedTime: 3000 }),
+        ).toEqual([]);
+    });
+});
+
+describe("pickups in the simulation", () => {
+    it("takes a coin flown through, once, for a bonus point", () => {
+        const states = play(runOn([gapWith("coin")], rules), hover(200), 150);
+        const taken = states.filter(s =>
+            s.events.some(e => e.type === "collected"),
+        );
+        expect(taken).toHaveLength(1);
+        expect(taken[0].events.find(e => e.type === "collected")).toEqual({
+            type: "collected",
+            t: taken[0].elapsedTime,
+            pipe: 0,
+            pickup: "coin",
+        });
+        const last = states[states.length - 1];
+        expect(last.bonus).toBe(1);
+        expect(last.hits).toBe(0);
+        expect(last.pipeRead?.[0].pickup).toBeUndefined();
+        expect(statsOf(last).score).toBe(last.score + 1);
+    });
+
+    it("gives an extra life", () => {
+        const states = play(runOn([gapWith("life")], rules), hover(200), 150);
+        expect(states[states.length - 1].birbLives).toBe(4);
+    });
+
+    it("lets a shield take a hit instead of a life", () => {
+        const low = createPipe(0.85, 0.2, 0); // gap from 300 to 380
+        const states = play(
+            { ...runOn([low], rules), shield: true },
+            hover(100),
+            160,
+        );
+        const lost = states.findIndex(s =>
+            s.events.some(e => e.type === "shieldLost"),
+        );
+        expect(lost).toBeGreaterThan(0);
+        expect(states[lost].shield).toBe(false);
+        expect(states[lost].phasingPipes).toEqual([0]); // gone through
+        expect(states.every(s => s.birbLives === 3 && s.hits === 0)).toBe(true);
+    });
+
+    it("keeps a shield through hits that cost nothing after losing a life", () => {
+        const low = createPipe(0.85, 0.2, 0); // gap from 300 to 380
+        const start = {
+            ...runOn([low], rules),
+            shield: true,
+            invincibleUntil: 10000,
+        };
+        const states = play(start, hover(100), 160);
+        const hit = states.find(s => s.hits > 0);
+        expect(hit?.birbLives).toBe(3);
+        expect(states.every(s => s.shield)).toBe(true);
+        expect(
+            states.some(s => s.events.some(e => e.type === "shieldLost")),
+        ).toBe(false);
+    });
+
+    it("slows the course, not the birb, for a while", () => {
+        const plain = play(runOn([gapWith()], rules), hover(200), 180);
+        const slowed = play(runOn([gapWith("slow")], rules), hover(200), 180);
+        const at = slowed.findIndex(s =>
+            s.events.some(e => e.type === "collected"),
+        );
+        expect(at).toBeGreaterThan(0);
+        const later = slowed[at + 10];
+        expect(later.slowUntil).toBe(slowed[at].elapsedTime + Pickups.SLOW_MS);
+        expect(later.courseLag).toBeGreaterThan(0);
+        expect(later.pipeRead![0].xpos).toBeGreaterThan(
+            plain[at + 10].pipeRead![0].xpos,
+        );
+        expect(later.birbPosition).toBe(plain[at + 10].birbPosition);
+    });
+});
+
+describe("a run with slowed time", () => {
+    it("records a ghost that stays with the course", () => {
+        const action$ = new Subject<Action>();
+        const clock$ = new Subject<FrameSteps>();
+        const states: State[] = [];
+        const recordings: Recording[] = [];
+        const sub = state$("gap_y,gap_height,time,pickup\n0.5,0.4,0.5,slow", {
+            action$,
+            clock$,
+            seed: 1,
+            onRecorded: r => recordings.push(r),
+        }).subscribe(s => states.push(s));
+        Array.from({ length: 250 }).forEach(() => {
+            const last = states.at(-1);
+            if (last && hover(200)(last)) action$.next("flap");
+            clock$.next({ steps: 1, alpha: 0 });
+        });
+        action$.next("restart");
+        sub.unsubscribe();
+
+        const last = states[states.length - 1];
+        expect(last.courseLag).toBeGreaterThan(0);
+        const [{ ghost }] = recordings;
+        expect(ghost.path.map(p => p.t)).toEqual(
+            states.map(s => courseTime(s, s.elapsedTime)),
+        );
+        expect(
+            states.map(s =>
+                ghostPositionAt(ghost.path, courseTime(s, s.elapsedTime)),
+            ),
+        ).toEqual(states.map(s => s.birbPosition));
+    });
+});
@@ -0,0 +1,238 @@
+import { readFileSync } from "node:fs";
+import { Subject } from "rxjs";
+import { describe, expect, it } from "vitest";
+import { state$ } from "../src/main";
+import { loadMap } from "../src/map";
+import {
+    isPractice,
+    practiceFromParams,
+    practiceRules,
+    practiceStart,
+    type Practice,
+} from "../src/practice";
+import { parseReplay, serialiseReplay } from "../src/replay";
+import { TITLE, nextScreen } from "../src/screens";
+import {
+    DEFAULT_RULES,
+    NoInput,
+    createInitialState,
+    isGameEnd,
+    startAt,
+    step,
+} from "../src/state";
+import {
+    Birb,
+    type Action,
+    type FrameSteps,
+    type GameRules,
+    type Recording,
+    type State,
+} from "../src/types";
+import { followGap, play } from "./helpers";
+
+const csv = readFileSync(new URL("../assets/map.csv", import.meta.url), "utf8");
+const course = loadMap(csv).pipes;
+
+/**
+ * Rules of a practice run.
+ *
+ * @param p how the run is practised
+ * @returns complete rules
+ */
+const practising = (p: Practice): GameRules => ({
+    ...DEFAULT_RULES,
+    ...practiceRules(p),
+});
+
+describe("practiceFromParams", () => {
+    it("reads the pipe to start at and a speed practised at", () => {
+        const read = (query: string): Practice | undefined =>
+            practiceFromParams(new URLSearchParams(query));
+        expect(read("practice=18&speed=0.5")).toEqual({
+            fromPipe: 17,
+            speed: 0.5,
+        });
+        expect(read("practice=1&speed=0.3")).toEqual({ fromPipe: 0, speed: 1 });
+        expect(read("practice=&speed=0.5")).toBeUndefined();
+        expect(read("practice=0")).toBeUndefined();
+        expect(read("mode=endless")).toBeUndefined();
+    });
+});
+
+describe("isPractice", () => {
+    it("tells practice runs from those that count", () => {
+        expect(isPractice(DEFAULT_RULES)).toBe(false);
+        expect(isPractice(DEFAULT_RULES, 0)).toBe(false);
+        expect(isPractice(DEFAULT_RULES, 5000)).toBe(true);
+        expect(isPractice(practising({ fromPipe: 0, speed: 1 }))).toBe(true);
+        expect(isPractice({ ...DEFAULT_RULES, speed: 0.75 })).toBe(true);
+    });
+});
+
+describe("practiceStart", () => {
+    const start = createInitialState(course, 1234);
+
+    it("starts a run with the pipe next, those before it passed", () => {
+        expect(practiceStart(start, 0)).toBe(0);
+        const later = startAt(start, practiceStart(start, 5));
+        expect(later.score).toBe(5);
+        expect(later.pipeRead![0].time).toBe(course[5].time);
+        const slowed = createInitialState(
+            course,
+            1234,
+            [],
+            practising({ fromPipe: 5, speed: 0.5 }),
+        );
+        expect(startAt(slowed, practiceStart(slowed, 5)).score).toBe(5);
+        expect(
+            startAt(start, practiceStart(start, course.length + 3)).score,
+        ).toBe(course.length - 1); // the last pipe is still to come
+    });
+
+    it("finds the pipe on an endless course", () => {
+        const endless = createInitialState(
+            [],
+            1234,
+            [],
+            { ...DEFAULT_RULES, win: { type: "none" } },
+            42,
+        );
+        const later = startAt(endless, practiceStart(endless, 12));
+        expect(later.score).toBe(12);
+        expect(later.pipeRead!.every(p => !p.passed)).toBe(true);
+    });
+});
+
+describe("a slowed down run", () => {
+    const full = createInitialState(course, 1234);
+    const half = createInitialState(
+        course,
+        1234,
+        [],
+        practising({ fromPipe: 0, speed: 0.5 }),
+    );
+
+    it("moves the pipes and the birb at the game's speed", () => {
+        const fullRun = play(startAt(full, 4992), () => false, 20);
+        const halfRun = play(startAt(half, 4992), () => false, 40);
+        expect(halfRun[0].elapsedTime).toBe(2 * fullRun[0].elapsedTime);
+        expect(halfRun[40].pipeRendering!.map(p => p.xpos)).toEqual(
+            fullRun[20].pipeRendering!.map(p => p.xpos),
+        );
+        expect(halfRun[40].birbPosition).toBeCloseTo(
+            fullRun[20].birbPosition,
+            -1,
+        ); // the same arc, sampled more often
+        const flapped = step(half, { ...NoInput, flap: true }, 0);
+        expect(flapped.birbVelocity).toBe(Birb.FLAP_VELOCITY / 2);
+    });
+});
+
+describe("checkpoints", () => {
+    const rules = { ...practising({ fromPipe: 0, speed: 1 }), lives: 1 };
+
+    it("take a run back to its start before any pipe is passed", () => {
+        const states = play(
+            createInitialState(course, 1234, [], rules),
+            () => false,
+            300,
+        );
+        const back = states.findIndex(s =>
+            s.events.some(e => e.type === "respawned"),
+        );
+        expect(back).toBeGreaterThan(0);
+        expect(states[back]).toMatchObject({
+            elapsedTime: 0,
+            birbPosition: 200,
+            birbLives: 1,
+            gameOver: false,
+            hits: 1,
+        });
+        expect(states.some(isGameEnd)).toBe(false);
+    });
+
+    it("are dropped at every pipe passed, and gone back to once out of lives", () => {
+        const flown = play(
+            createInitialState(course, 1234, [], rules),
+            followGap,
+            700,
+        ); // past a few pipes
+        const last = flown[flown.length - 1];
+        expect(last.score).toBeGreaterThan(0);
+        const passedAt = flown.findLast(s =>
+            s.events.some(e => e.type === "pipePassed"),
+        )!;
+        expect(last.checkpoint).toMatchObject({
+            elapsedTime: passedAt.elapsedTime,
+            score: passedAt.score,
+            birbPosition: passedAt.birbPosition,
+        });
+
+        const fell = play(last, () => false, 300);
+        const back = fell.find(s =>
+            s.events.some(e => e.type === "respawned"),
+        )!;
+        expect(back.elapsedTime).toBe(passedAt.elapsedTime);
+        expect(back.score).toBe(passedAt.score);
+        expect(back.events.some(e => e.type === "gameOver")).toBe(false);
+        expect(back.flaps).toBe(last.flaps);
+    });
+});
+
+describe("a practice game", () => {
+    it("is recorded as practice, and plays back from where it started", () => {
+        const action$ = new Subject<Action>();
+        const clock$ = new Subject<FrameSteps>();
+        const states: State[] = [];
+        const recordings: Recording[] = [];
+        const practice = { fromPipe: 3, speed: 0.75 };
+        const sub = state$(csv, {
+            action$,
+            clock$,
+            seed: 1234,
+            practice,
+            onRecorded: r => recordings.push(r),
+        }).subscribe(s => states.push(s));
+        expect(states).toHaveLength(0);
+        Array.from({ length: 300 }).forEach((_, i) => {
+            if (i % 20 === 0) action$.next("flap");
+            clock$.next({ steps: 1, alpha: 0 });
+        });
+        action$.next("restart");
+        sub.unsubscribe();
+
+        expect(states[0].score).toBe(3);
+        expect(states[0].rules.speed).toBe(0.75);
+        const [recording] = recordings;
+        expect(recording.practice).toBe(true);
+        const replay = parseReplay(serialiseReplay(recording.replay));
+        expect(replay.startAt).toBeGreaterThan(0);
+
+        const replayClock$ = new Subject<FrameSteps>();
+        const replayed: State[] = [];
+        state$(replay.map, {
+            action$: new Subject<Action>(),
+            clock$: replayClock$,
+            replay,
+        }).subscribe(s => replayed.push(s));
+        Array.from({ length: 300 }).forEach(() =>
+            replayClock$.next({ steps: 1, alpha: 0 }),
+        );
+        expect(replayed).toEqual(states);
+    });
+
+    it("shows its results as practice", () => {
+        const over = {
+            ...createInitialState(
+                course,
+                1,
+                [],
+                practising({ fromPipe: 0, speed: 0.5 }),
+            ),
+            gameOver: true,
+        };
+        expect(nextScreen(TITLE, { type: "state", state: over })).toMatchObject(
+            { kind: "results", practice: true },
+        );
+    });
+});
@@ -0,0 +1,260 @@
+import { readFileSync } from "node:fs";
+import { Subject, from, lastValueFrom, toArray } from "rxjs";
+import { describe, expect, it } from "vitest";
+import { autopilot, observe } from "../src/bot";
+import {
+    REPORT_MS,
+    advanceRival,
+    agrees,
+    guessRival,
+    hearRival,
+    isClientMessage,
+    isServerMessage,
+    lobbyStatus,
+    raceMessage$,
+    raceView$,
+    reconcile,
+    reportOf,
+    startOfRace,
+    startRival,
+    withRivals,
+    type ClientMessage,
+    type RaceStart,
+    type RaceView,
+    type Rival,
+    type ServerMessage,
+} from "../src/race";
+import { applySignal, isGameEnd } from "../src/state";
+import { Constants, type State } from "../src/types";
+
+const csv = readFileSync(new URL("../assets/map.csv", import.meta.url), "utf8");
+const start: RaceStart = {
+    type: "start",
+    seed: 1234,
+    map: csv,
+    racers: [
+        { id: "a", name: "Ann" },
+        { id: "b", name: "Bo" },
+    ],
+};
+const initial = startOfRace(start);
+
+/**
+ * Plays a run with the autopilot, as a racer would, until it gives up and
+ * the birb is out.
+ *
+ * @param flapUntil ms of the run after which the autopilot stops flapping
+ * @returns every state of the run
+ */
+const playRun = (flapUntil: number = 8000): State[] =>
+    Array.from({ length: 3000 }).reduce<State[]>(
+        (states, _) => {
+            const s = states[states.length - 1];
+            if (isGameEnd(s)) return states;
+            const flapped =
+                s.elapsedTime < flapUntil && autopilot(observe(s))
+                    ? [applySignal(s, "flap")]
+                    : [];
+            return [
+                ...states,
+                ...flapped,
+                applySignal(flapped[0] ?? s, "Tick"),
+            ];
+        },
+        [initial],
+    );
+
+/**
+ * The messages the run's racer sends, as the server relays them.
+ *
+ * @param states every state of the run
+ * @returns the relayed messages
+ */
+const relayed = async (states: readonly State[]): Promise<ServerMessage[]> =>
+    (await lastValueFrom(raceMessage$(from(states.slice(1))).pipe(toArray())))
+        .filter(m => m.type === "input" || m.type === "report")
+        .map(m => ({ ...m, from: "a" }) as ServerMessage);
+
+/**
+ * A rival who has heard the given messages and is simulated to the end.
+ *
+ * @param messages messages of the rival's racer
+ * @returns the rival
+ */
+const hearAll = (messages: readonly ServerMessage[]): Rival =>
+    messages.reduce(
+        (r, m) =>
+            m.type === "input" || m.type === "report"
+                ? advanceRival(hearRival(r, m), Infinity)
+                : r,
+        startRival(start.racers[0], initial),
+    );
+
+describe("a rival", () => {
+    it("is simulated again exactly from their flaps", async () => {
+        const states = playRun();
+        const last = states[states.length - 1];
+        expect(isGameEnd(last)).toBe(true);
+        const messages = await relayed(states);
+        const inputsOnly = messages.filter(m => m.type === "input");
+        expect(inputsOnly.length).toBe(last.flaps);
+        const r = advanceRival(
+            { ...hearAll(inputsOnly), known: last.elapsedTime }, // as far as the reports would go
+            Infinity,
+        );
+        expect(reportOf(r.state)).toEqual(reportOf(last));
+    });
+
+    it("is put back in line with their reports when a flap goes missing", async () => {
+        const states = playRun();
+        const last = states[states.length - 1];
+        const messages = await relayed(states);
+        const lost = messages.findIndex(m => m.type === "input");
+        const without = messages.filter((_, i) => i !== lost);
+        expect(agrees(hearAll(without).state, last)).toBe(true);
+    });
+
+    it("is only simulated as far as they have been heard from", () => {
+        const heard = hearRival(startRival(start.racers[0], initial), {
+            type: "input",
+            from: "a",
+            t: 160,
+            action: "flap",
+        });
+        expect(advanceRival(heard, 1000).state.elapsedTime).toBe(160);
+        expect(advanceRival(heard, 64).state.elapsedTime).toBe(64);
+        expect(advanceRival(heard, 160).state.flaps).toBe(1);
+        expect(advanceRival(heard, 64).inputs).toEqual([160]);
+    });
+
+    it("is guessed ahead as not flapping, and drawn as a ghost", () => {
+        const r = startRival(start.racers[1], initial);
+        const guess = guessRival(r, 10 * Constants.TICK_RATE_MS);
+        expect(guess.elapsedTime).toBe(10 * Constants.TICK_RATE_MS);
+        expect(guess.birbPosition).toBeGreaterThan(initial.birbPosition);
+        expect(guessRival(r, 1e6).elapsedTime).toBeLessThanOrEqual(1000);
+
+        const now = { ...initial, elapsedTime: 10 * Constants.TICK_RATE_MS };
+        const shown = withRivals(now, [
+            r,
+            { ...r, state: { ...initial, gameOver: true } },
+        ]);
+        expect(shown.ghosts.map(g => g.label)).toEqual(["Bo", "Bo"]);
+        expect(shown.ghostBirbPos).toEqual([guess.birbPosition, undefined]);
+    });
+});
+
+describe("reconcile", () => {
+    it("leaves an agreeing run alone and takes the report otherwise", () => {
+        const report = reportOf({ ...initial, birbPosition: 120, score: 2 });
+        expect(reconcile(initial, reportOf(initial))).toBe(initial);
+        const fixed = reconcile(initial, { ...report, extra: 1 } as never);
+        expect(reportOf(fixed)).toEqual(report);
+        expect(fixed.course).toBe(initial.course);
+        expect("extra" in fixed).toBe(false);
+    });
+});
+
+describe("raceMessage$", () => {
+    it("sends the flaps, a report every so often and how the run went", async () => {
+        const states = playRun();
+        const last = states[states.length - 1];
+        const messages: ClientMessage[] = await lastValueFrom(
+            raceMessage$(from(states.slice(1))).pipe(toArray()),
+        );
+        const flaps = states
+            .flatMap(s => s.events)
+            .filter(e => e.type === "flap")
+            .map(e => e.t);
+        expect(
+            messages.flatMap(m => (m.type === "input" ? [m.t] : [])),
+        ).toEqual(flaps);
+        const reports = messages.flatMap(m =>
+            m.type === "report" ? [m.report] : [],
+        );
+        expect(reports[0].elapsedTime).toBe(REPORT_MS);
+        expect(reports.at(-1)).toEqual(reportOf(last));
+        expect(messages.at(-1)).toEqual({
+            type: "finished",
+            stats: {
+                score: last.score,
+                lives: last.birbLives,
+                time: last.elapsedTime,
+                flaps: last.flaps,
+                hits: last.hits,
+            },
+        });
+    });
+});
+
+describe("raceView$", () => {
+    it("moves the rivals along with the player's run, once for every state", () => {
+        const run$ = new Subject<State>();
+        const heard$ = new Subject<ServerMessage>();
+        const views: RaceView[] = [];
+        raceView$(run$, heard$, start, "b").subscribe(v => views.push(v));
+        heard$.next({ type: "input", from: "a", t: 32, action: "flap" });
+        expect(views).toHaveLength(0);
+        const s = applySignal(applySignal(initial, "Tick"), "Tick");
+        run$.next(s);
+        expect(views).toHaveLength(1);
+        expect(views[0].rivals.map(r => r.racer.id)).toEqual(["a"]);
+        expect(views[0].rivals[0].state.elapsedTime).toBe(32);
+        expect(views[0].rivals[0].state.flaps).toBe(1);
+
+        heard$.next({ type: "lobby", players: [], racing: true });
+        run$.next(applySignal(s, "Tick"));
+        expect(views[1].rivals).toEqual([]); // they left
+    });
+});
+
+describe("messages", () => {
+    it("are checked before they are trusted", () => {
+        expect(isClientMessage({ type: "join", name: "Ann", map: csv })).toBe(
+            true,
+        );
+        expect(isClientMessage({ type: "input", t: 32, action: "flap" })).toBe(
+            true,
+        );
+        expect(isClientMessage({ type: "input", t: 30, action: "flap" })).toBe(
+            false,
+        );
+        expect(isClientMessage({ type: "input", t: 32, action: "pause" })).toBe(
+            false,
+        );
+        expect(
+            isClientMessage({ type: "report", report: reportOf(initial) }),
+        ).toBe(true);
+        expect(isClientMessage({ type: "report", report: {} })).toBe(false);
+        expect(isClientMessage({ type: "welcome", id: "a" })).toBe(false);
+        expect(isServerMessage(start)).toBe(true);
+        expect(isServerMessage({ ...start, seed: 0.5 })).toBe(false);
+        expect(
+            isServerMessage({
+                type: "lobby",
+                players: [{ id: "a", name: "Ann", ready: "yes" }],
+                racing: false,
+            }),
+        ).toBe(false);
+        expect(isServerMessage("start")).toBe(false);
+    });
+});
+
+describe("lobbyStatus", () => {
+    it("says what is being waited for", () => {
+        const ann = { id: "a", name: "Ann", ready: true };
+        const bo = { id: "b", name: "Bo", ready: false };
+        expect(lobbyStatus([ann], "a", false)).toBe(
+            "Waiting for someone to race",
+        );
+        expect(lobbyStatus([ann, bo], "a", false)).toBe(
+            "Waiting for everyone to be ready",
+        );
+        expect(lobbyStatus([ann, bo], "b", false)).toBe(
+            "Press Play when ready",
+        );
+        expect(lobbyStatus([ann, bo], "b", true)).toBe(
+            "A race is on, wait for it to finish",
+        );
+    });
+});
@@ -0,0 +1,196 @@
+import { readFileSync } from "node:fs";
+import { Subject, interval, map } from "rxjs";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { state$ } from "../src/main";
+import { REPLAY_VERSION, parseReplay, serialiseReplay } from "../src/replay";
+import { DEFAULT_RULES, isGameEnd } from "../src/state";
+import {
+    Birb,
+    Constants,
+    type GameRules,
+    type Action,
+    type Replay,
+    type State,
+} from "../src/types";
+
+const csv = readFileSync(new URL("../assets/map.csv", import.meta.url), "utf8");
+
+/** One step every TICK_RATE_MS, in place of animation frames */
+const clock$ = interval(Constants.TICK_RATE_MS).pipe(
+    map(_ => ({ steps: 1, alpha: 0 })),
+);
+
+/**
+ * Plays a live game through state$, taking actions chosen from the latest state.
+ *
+ * @param actionsFor actions to take before the next tick
+ * @param ticks maximum number of ticks to play
+ * @param rules rules to play by
+ * @returns every emitted state and the recordings of the runs, in order
+ */
+const playLive = (
+    actionsFor: (s: State | undefined, tick: number) => readonly Action[],
+    ticks: number,
+    rules?: Partial<GameRules>,
+): { states: State[]; replays: Replay[] } => {
+    const action$ = new Subject<Action>();
+    const states: State[] = [];
+    const replays: Replay[] = [];
+    const sub = state$(csv, {
+        action$,
+        clock$,
+        onRecorded: r => replays.push(r.replay),
+        rules,
+    }).subscribe(s => states.push(s));
+
+    Array.from({ length: ticks }).some((_, i) => {
+        const last = states[states.length - 1];
+        if (last && isGameEnd(last)) return true;
+        actionsFor(last, i).forEach(a => action$.next(a));
+        vi.advanceTimersByTime(Constants.TICK_RATE_MS);
+        return false;
+    });
+    sub.unsubscribe();
+    return { states, replays };
+};
+
+/**
+ * Plays a replay back through state$ until it ends.
+ *
+ * @param replay replay to play
+ * @returns every emitted state
+ */
+const playBack = (replay: Replay): State[] => {
+    const states: State[] = [];
+    const sub = state$(replay.map, {
+        action$: new Subject<Action>(),
+        clock$,
+        replay,
+    }).subscribe(s => states.push(s));
+    vi.advanceTimersByTime(120_000);
+    sub.unsubscribe();
+    return states;
+};
+
+/**
+ * Flaps near the bottom of the next gap, and pauses for a while at tick 100.
+ *
+ * @param s latest state
+ * @param tick number of ticks played
+ * @returns actions to take
+ */
+const pilot = (s: State | undefined, tick: number): readonly Action[] => {
+    const next = s && (s.pipeRead ?? s.course).find(p => !p.passed);
+    const lowest = next ? next.gapBottom - Birb.HEIGHT - 10 : 250;
+    const flap = !!s && s.birbPosition > lowest && s.birbVelocity > 0;
+    const pause: readonly Action[] =
+        tick === 100 || tick === 130 ? ["pause"] : [];
+    return flap ? [...pause, "flap"] : pause;
+};
+
+/**
+ * The input log of a replay as versions before 4 wrote it, with keys.
+ *
+ * @param r replay to convert
+ * @returns inputs logged as key presses
+ */
+const keyInputs = (r: Replay): readonly { t: number; key: string }[] => {
+    const Keys = { flap: "Space", pause: "KeyP", restart: "KeyR" } as const;
+    return r.inputs.map(({ t, action }) => ({
+        t,
+        key: Keys[action as keyof typeof Keys], // older versions had no steps
+    }));
+};
+
+describe("replay", () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+    });
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    // a whole run played twice, slow on a busy machine
+    it("reproduces every state of a finished run", { timeout: 30000 }, () => {
+        const live = playLive(pilot, 5000);
+        expect(live.replays).toHaveLength(1);
+        expect(isGameEnd(live.states[live.states.length - 1])).toBe(true);
+        expect(playBack(live.replays[0])).toEqual(live.states);
+    });
+
+    it("stops at the point where the run was restarted", () => {
+        const live = playLive(
+            (s, tick) => (tick === 300 ? ["restart"] : pilot(s, tick)),
+            301,
+        );
+        const inputs = live.replays[0].inputs;
+        expect(inputs[inputs.length - 1]).toEqual({
+            t: 300 * Constants.TICK_RATE_MS,
+            action: "restart",
+        });
+        // the last state already belongs to the restarted run
+        expect(playBack(live.replays[0])).toEqual(live.states.slice(0, -1));
+        // and races the first run as a ghost
+        expect(live.replays[1].ghosts[0].path).toHaveLength(
+            live.states.length - 1,
+        );
+    });
+
+    it("survives a round trip through JSON", () => {
+        const [replay] = playLive(pilot, 200).replays;
+        const loaded = parseReplay(serialiseReplay(replay));
+        expect(loaded).toEqual(replay);
+        expect(loaded.version).toBe(REPLAY_VERSION);
+    });
+
+    it("plays back by the rules it was recorded with", () => {
+        const live = playLive(() => [], 2000, {
+            lives: 2,
+            invincibilityMs: 400,
+        });
+        const [replay] = live.replays;
+        expect(replay.rules).toEqual({
+            ...DEFAULT_RULES,
+            lives: 2,
+            invincibilityMs: 400,
+        });
+        expect(playBack(parseReplay(serialiseReplay(replay)))).toEqual(
+            live.states,
+        );
+    });
+
+    it("reads version 2 replays, played by the map's rules", () => {
+        const [replay] = playLive(pilot, 200).replays;
+        const { rules: _, ...old } = {
+            ...replay,
+            version: 2,
+            inputs: keyInputs(replay),
+        };
+        const loaded = parseReplay(JSON.stringify(old));
+        expect(loaded.rules).toBeUndefined();
+        expect(playBack(loaded)).toEqual(playBack(replay));
+    });
+
+    it("reads version 3 replays, which logged keys", () => {
+        const [replay] = playLive(pilot, 200).replays;
+        const old = { ...replay, version: 3, inputs: keyInputs(replay) };
+        const loaded = parseReplay(JSON.stringify(old));
+        expect(loaded.inputs).toEqual(replay.inputs);
+        expect(playBack(loaded)).toEqual(playBack(replay));
+    });
+
+    it("rejects unsupported versions and broken input logs", () => {
+        const replay = { version: REPLAY_VERSION, seed: 1, map: csv };
+        expect(() =>
+            parseReplay(JSON.stringify({ ...replay, version: 99, inputs: [] })),
+        ).toThrow(/version/);
+        expect(() =>
+            parseReplay(
+                JSON.stringify({
+                    ...replay,
+                    inputs: [{ t: 0, action: "dance" }],
+                }),
+            ),
+        ).toThrow(/input log/);
+    });
+});
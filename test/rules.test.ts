@@ -0,0 +1,226 @@
+import { Subject } from "rxjs";
+import { describe, expect, it } from "vitest";
+import { TIGHT_HITBOX } from "../src/collision";
+import { state$ } from "../src/main";
+import {
+    hasDefaultRules,
+    isGameRules,
+    resolveRules,
+    rulesFromParams,
+} from "../src/rules";
+import {
+    DEFAULT_RULES,
+    NoInput,
+    createInitialState,
+    createPipe,
+    isGameEnd,
+    step,
+} from "../src/state";
+import {
+    Constants,
+    type Action,
+    type FrameSteps,
+    type GameRules,
+    type Recording,
+    type State,
+} from "../src/types";
+
+/**
+ * Runs a game without flapping until it ends.
+ *
+ * @param s state to start from
+ * @param limit most steps to take
+ * @returns every state of the run
+ */
+const fall = (s: State, limit: number = 2000): State[] =>
+    Array.from({ length: limit }).reduce<State[]>(
+        ss =>
+            isGameEnd(ss[ss.length - 1])
+                ? ss
+                : [
+                      ...ss,
+                      step(ss[ss.length - 1], NoInput, Constants.TICK_RATE_MS),
+                  ],
+        [s],
+    );
+
+/**
+ * Times at which a life was lost.
+ *
+ * @param states states of a run
+ * @returns elapsed time of each step that cost a life
+ */
+const lifeLosses = (states: readonly State[]): number[] =>
+    states
+        .filter((s, i) => i > 0 && s.birbLives < states[i - 1].birbLives)
+        .map(s => s.elapsedTime);
+
+const rules = (overrides: Partial<GameRules>): GameRules => ({
+    ...DEFAULT_RULES,
+    ...overrides,
+});
+
+describe("rules in the simulation", () => {
+    it("starts with the given number of lives", () => {
+        const states = fall(createInitialState([], 1, [], rules({ lives: 5 })));
+        expect(states[0].birbLives).toBe(5);
+        expect(lifeLosses(states)).toHaveLength(5);
+        expect(states[states.length - 1].gameOver).toBe(true);
+    });
+
+    it("lets the birb bounce off the floor for free", () => {
+        const states = fall(
+            createInitialState([], 1, [], rules({ canvasHitsCostLife: false })),
+            1000,
+        );
+        expect(states.some(s => s.birbVelocity < 0)).toBe(true); // bounced
+        expect(lifeLosses(states)).toEqual([]);
+    });
+
+    it("loses no lives while invincible after a hit", () => {
+        const normal = lifeLosses(fall(createInitialState([], 1)));
+        const shielded = lifeLosses(
+            fall(
+                createInitialState([], 1, [], rules({ invincibilityMs: 2000 })),
+            ),
+        );
+        expect(normal[1] - normal[0]).toBeLessThan(2000);
+        expect(shielded[1] - shielded[0]).toBeGreaterThanOrEqual(2000);
+        expect(shielded[2] - shielded[1]).toBeGreaterThanOrEqual(2000);
+    });
+
+    it("bounces at the given speed", () => {
+        const bounceOf = (r: GameRules): number =>
+            fall(createInitialState([], 1, [], r)).find(
+                s => s.birbVelocity < 0,
+            )!.birbVelocity;
+        expect(bounceOf(rules({ bounce: { mean: 3, spread: 0 } }))).toBeCloseTo(
+            -3,
+        );
+        expect(
+            bounceOf(rules({ bounce: { mean: 12, spread: 0 } })),
+        ).toBeCloseTo(-12);
+    });
+
+    it("keeps its rules on restart", () => {
+        const start = createInitialState(
+            [createPipe(0.5, 0.3, 1000)],
+            1,
+            [],
+            rules({ lives: 7, invincibilityMs: 500 }),
+        );
+        const later = fall(start, 300).pop()!;
+        expect(step(later, { ...NoInput, restart: true }, 0)).toEqual(start);
+    });
+});
+
+describe("resolveRules", () => {
+    it("uses the level's win condition unless the game overrides it", () => {
+        expect(resolveRules()).toEqual(DEFAULT_RULES);
+        expect(resolveRules({}, { type: "allPipes" }).win).toEqual({
+            type: "allPipes",
+        });
+        expect(
+            resolveRules(
+                { win: { type: "none" }, lives: 9 },
+                { type: "allPipes" },
+            ),
+        ).toEqual({ ...DEFAULT_RULES, win: { type: "none" }, lives: 9 });
+    });
+});
+
+describe("hasDefaultRules", () => {
+    it("tells the level's own rules from those the game changed", () => {
+        const allPipes = { type: "allPipes" } as const;
+        expect(hasDefaultRules(DEFAULT_RULES)).toBe(true);
+        expect(hasDefaultRules(resolveRules({}, allPipes), allPipes)).toBe(
+            true,
+        );
+        expect(hasDefaultRules(DEFAULT_RULES, allPipes)).toBe(false);
+        expect(hasDefaultRules(rules({ lives: 99 }))).toBe(false);
+        expect(hasDefaultRules(rules({ hitbox: TIGHT_HITBOX }))).toBe(false);
+        expect(hasDefaultRules(rules({ bounce: { mean: 6, spread: 2 } }))).toBe(
+            false,
+        );
+    });
+
+    it("marks the recording of a run by other rules", () => {
+        const recorded = (overrides?: Partial<GameRules>): Recording => {
+            const action$ = new Subject<Action>();
+            const clock$ = new Subject<FrameSteps>();
+            const recordings: Recording[] = [];
+            const sub = state$("gap_y,gap_height,time\n0.5,0.4,1", {
+                action$,
+                clock$,
+                seed: 1,
+                rules: overrides,
+                onRecorded: r => recordings.push(r),
+            }).subscribe();
+            clock$.next({ steps: 10, alpha: 0 });
+            action$.next("restart");
+            sub.unsubscribe();
+            return recordings[0];
+        };
+        expect(recorded().customRules).toBe(false);
+        expect(recorded({ lives: 99 }).customRules).toBe(true);
+        expect(recorded({ canvasHitsCostLife: false }).customRules).toBe(true);
+    });
+});
+
+describe("rulesFromParams", () => {
+    it("reads the rules given in the URL", () => {
+        expect(
+            rulesFromParams(
+                new URLSearchParams(
+                    "lives=5&win=all&canvasHits=free&invincible=1000&bounce=6,2&hitbox=tight",
+                ),
+            ),
+        ).toEqual({
+            lives: 5,
+            win: { type: "allPipes" },
+            canvasHitsCostLife: false,
+            invincibilityMs: 1000,
+            bounce: { mean: 6, spread: 2 },
+            hitbox: TIGHT_HITBOX,
+        });
+        expect(rulesFromParams(new URLSearchParams("win=15"))).toEqual({
+            win: { type: "score", score: 15 },
+        });
+    });
+
+    it("ignores what it does not understand", () => {
+        expect(
+            rulesFromParams(
+                new URLSearchParams(
+                    "lives=0&win=most&invincible=-1&bounce=x&hitbox=round",
+                ),
+            ),
+        ).toEqual({});
+    });
+});
+
+describe("isGameRules", () => {
+    it("accepts complete rules only", () => {
+        expect(isGameRules(DEFAULT_RULES)).toBe(true);
+        expect(isGameRules({ ...DEFAULT_RULES, lives: 0 })).toBe(false);
+        expect(isGameRules({ ...DEFAULT_RULES, bounce: undefined })).toBe(
+            false,
+        );
+        expect(isGameRules({ ...DEFAULT_RULES, hitbox: TIGHT_HITBOX })).toBe(
+            true,
+        );
+        expect(
+            isGameRules({
+                ...DEFAULT_RULES,
+                hitbox: { ...TIGHT_HITBOX, width: 0 },
+            }),
+        ).toBe(false);
+        expect(
+            isGameRules({ ...DEFAULT_RULES, speed: 0.5, checkpoints: true }),
+        ).toBe(true);
+        expect(isGameRules({ ...DEFAULT_RULES, speed: 0 })).toBe(false);
+        expect(isGameRules({ ...DEFAULT_RULES, checkpoints: "yes" })).toBe(
+            false,
+        );
+    });
+});
@@ -0,0 +1,154 @@
+import { describe, expect, it } from "vitest";
+import {
+    DEFAULT_NAME,
+    MAX_SCORES,
+    importScores,
+    loadName,
+    loadScores,
+    parseScores,
+    recordScore,
+    saveName,
+    saveScores,
+    scoresFor,
+    serialiseScores,
+    type ScoreStorage,
+} from "../src/scores";
+import type { ScoreEntry } from "../src/types";
+
+/**
+ * A finished run on map "m1" in the map mode.
+ *
+ * @param score pipes passed
+ * @param overrides other fields of the entry
+ * @returns the entry
+ */
+const entry = (
+    score: number,
+    overrides: Partial<ScoreEntry> = {},
+): ScoreEntry => ({
+    mapHash: "m1",
+    mode: "map",
+    name: "Ada",
+    date: 1,
+    score,
+    lives: 1,
+    time: 10000,
+    flaps: 30,
+    hits: 2,
+    ...overrides,
+});
+
+/**
+ * In-memory stand-in for localStorage.
+ *
+ * @returns empty storage
+ */
+const memoryStorage = (): ScoreStorage & { items: Map<string, string> } => {
+    const items = new Map<string, string>();
+    return {
+        items,
+        getItem: key => items.get(key) ?? null,
+        setItem: (key, value) => void items.set(key, value),
+    };
+};
+
+describe("recordScore", () => {
+    it("ranks runs by score, then lives left, then time", () => {
+        const entries = [
+            entry(5),
+            entry(5, { lives: 2 }),
+            entry(5, { lives: 2, time: 9000 }),
+            entry(7),
+        ];
+        const table = scoresFor(entries, "m1", "map");
+        expect(table).toEqual([entries[3], entries[2], entries[1], entries[0]]);
+    });
+
+    it("tells where a run came, and when it is a new best", () => {
+        const first = recordScore([], entry(5));
+        expect(first.rank).toBe(0);
+        const worse = recordScore(first.entries, entry(3));
+        expect(worse.rank).toBe(1);
+        const best = recordScore(worse.entries, entry(9));
+        expect(best.rank).toBe(0);
+        expect(scoresFor(best.entries, "m1", "map").map(e => e.score)).toEqual([
+            9, 5, 3,
+        ]);
+    });
+
+    it("keeps maps and modes apart", () => {
+        const { entries } = [
+            entry(5),
+            entry(8, { mapHash: "m2" }),
+            entry(9, { mode: "endless" }),
+        ].reduce(
+            (r, e) => recordScore(r.entries, e),
+            recordScore([], entry(1)),
+        );
+        expect(scoresFor(entries, "m1", "map").map(e => e.score)).toEqual([
+            5, 1,
+        ]);
+        expect(scoresFor(entries, "m2", "map").map(e => e.score)).toEqual([8]);
+        expect(scoresFor(entries, "m1", "endless").map(e => e.score)).toEqual([
+            9,
+        ]);
+    });
+
+    it("keeps only the best runs of a table", () => {
+        const full = Array.from({ length: MAX_SCORES }, (_, i) =>
+            entry(i + 10),
+        );
+        const missed = recordScore(full, entry(1));
+        expect(missed.rank).toBeUndefined();
+        expect(missed.entries).toEqual(full);
+        const made = recordScore(full, entry(15, { lives: 3 }));
+        expect(made.rank).toBe(MAX_SCORES - 6);
+        expect(scoresFor(made.entries, "m1", "map")).toHaveLength(MAX_SCORES);
+        expect(made.entries).not.toContain(full[0]);
+    });
+});
+
+describe("score files", () => {
+    it("survive a round trip through JSON", () => {
+        const entries = [entry(3), entry(4, { mode: "endless" })];
+        expect(parseScores(serialiseScores(entries))).toEqual(entries);
+    });
+
+    it("reject other versions and invalid scores", () => {
+        expect(() =>
+            parseScores(JSON.stringify({ version: 9, scores: [] })),
+        ).toThrow(/version/);
+        expect(() =>
+            parseScores(
+                JSON.stringify({
+                    version: 1,
+                    scores: [{ ...entry(1), mode: "turbo" }],
+                }),
+            ),
+        ).toThrow(/invalid score/);
+    });
+
+    it("merge on import without duplicating runs", () => {
+        const saved = [entry(3), entry(4)];
+        const merged = importScores(saved, [
+            entry(4),
+            entry(6, { name: "Grace" }),
+        ]);
+        expect(scoresFor(merged, "m1", "map").map(e => e.score)).toEqual([
+            6, 4, 3,
+        ]);
+    });
+
+    it("persist in storage with the player's name", () => {
+        const storage = memoryStorage();
+        expect(loadScores(storage)).toEqual([]);
+        expect(loadName(storage)).toBe(DEFAULT_NAME);
+        saveScores(storage, [entry(3)]);
+        saveName(storage, "  Ada ");
+        expect(loadScores(storage)).toEqual([entry(3)]);
+        expect(loadName(storage)).toBe("Ada");
+
+        storage.items.forEach((_, key) => storage.setItem(key, "{"));
+        expect(loadScores(storage)).toEqual([]);
+    });
+});
@@ -0,0 +1,139 @@
+import { Subject } from "rxjs";
+import { describe, expect, it } from "vitest";
+import {
+    COUNTDOWN_MS,
+    TITLE,
+    countdown$,
+    countdownText,
+    nextScreen,
+    statsOf,
+    type Screen,
+    type ScreenEvent,
+} from "../src/screens";
+import { createInitialState, createPipe } from "../src/state";
+import type { FrameSteps } from "../src/types";
+
+const start = createInitialState([createPipe(0.5, 0.3, 0)], 1);
+
+/**
+ * Goes through the screens events lead to.
+ *
+ * @param events what happens, in order
+ * @returns kind of every screen after the title
+ */
+const flow = (events: readonly ScreenEvent[]): Screen["kind"][] =>
+    events
+        .reduce<Screen[]>(
+            (screens, e) => [...screens, nextScreen(screens.at(-1)!, e)],
+            [TITLE],
+        )
+        .slice(1)
+        .map(screen => screen.kind);
+
+describe("nextScreen", () => {
+    it("counts down from the title, plays, pauses and shows the results", () => {
+        const over = { ...start, gameOver: true, score: 4, elapsedTime: 9000 };
+        expect(
+            flow([
+                { type: "countdown", ms: 3000 },
+                { type: "countdown", ms: 16 },
+                { type: "countdown", ms: 0 },
+                { type: "state", state: start },
+                { type: "state", state: { ...start, paused: true } },
+                { type: "state", state: start },
+                { type: "state", state: over },
+                { type: "state", state: start }, // restarted
+                { type: "quit" },
+            ]),
+        ).toEqual([
+            "countdown",
+            "countdown",
+            "playing",
+            "playing",
+            "paused",
+            "playing",
+            "results",
+            "playing",
+            "title",
+        ]);
+        expect(nextScreen(TITLE, { type: "state", state: over })).toEqual({
+            kind: "results",
+            won: false,
+            stats: { score: 4, lives: 3, time: 9000, flaps: 0, hits: 0 },
+            practice: false,
+        });
+    });
+
+    it("opens the editor, and goes back to it from a playtest", () => {
+        expect(
+            flow([
+                { type: "edit" },
+                { type: "edit" },
+                { type: "countdown", ms: 3000 },
+                { type: "countdown", ms: 0 },
+                { type: "edit" }, // quit the playtest
+                { type: "quit" }, // closed the editor
+            ]),
+        ).toEqual([
+            "editing",
+            "editing",
+            "countdown",
+            "playing",
+            "editing",
+            "title",
+        ]);
+        const editing = nextScreen(TITLE, { type: "edit" });
+        expect(nextScreen(editing, { type: "edit" })).toBe(editing);
+    });
+
+    it("goes straight to playing for a replay loaded on the title", () => {
+        expect(flow([{ type: "state", state: start }])).toEqual(["playing"]);
+    });
+
+    it("keeps the same screen while nothing changes", () => {
+        const playing = nextScreen(TITLE, { type: "countdown", ms: 0 });
+        expect(nextScreen(playing, { type: "state", state: start })).toBe(
+            playing,
+        );
+        expect(nextScreen(TITLE, { type: "quit" })).toBe(TITLE);
+        const counting = nextScreen(TITLE, { type: "countdown", ms: 2000 });
+        expect(nextScreen(counting, { type: "countdown", ms: 1000 })).not.toBe(
+            counting,
+        );
+    });
+});
+
+describe("countdown$", () => {
+    it("counts down with the game clock and ends on 0", () => {
+        const clock$ = new Subject<FrameSteps>();
+        const left: number[] = [];
+        const done = { value: false };
+        countdown$(clock$, 40).subscribe({
+            next: ms => left.push(ms),
+            complete: () => (done.value = true),
+        });
+        clock$.next({ steps: 1, alpha: 0 });
+        clock$.next({ steps: 0, alpha: 0.5 });
+        clock$.next({ steps: 2, alpha: 0 });
+        expect(left).toEqual([40, 24, 24, 0]);
+        expect(done.value).toBe(true);
+    });
+
+    it("shows the seconds left", () => {
+        expect([COUNTDOWN_MS, 2001, 2000, 1, 0.5].map(countdownText)).toEqual([
+            "3",
+            "3",
+            "2",
+            "1",
+            "1",
+        ]);
+    });
+});
+
+describe("statsOf", () => {
+    it("sums up a run", () => {
+        expect(
+            statsOf({ ...start, score: 7, flaps: 12, hits: 2, birbLives: 1 }),
+        ).toEqual({ score: 7, lives: 1, time: 0, flaps: 12, hits: 2 });
+    });
+});
@@ -0,0 +1,130 @@
+import { readFileSync } from "node:fs";
+import { describe, expect, it } from "vitest";
+import { Presets, generateCourse } from "../src/generate";
+import { loadMap } from "../src/map";
+import {
+    courseProblems,
+    maxClimb,
+    passWindow,
+    repairCourse,
+    roomToPass,
+} from "../src/solvable";
+import { NoInput, createInitialState, createPipe, step } from "../src/state";
+import { Birb, Constants, type State } from "../src/types";
+
+const csv = readFileSync(new URL("../assets/map.csv", import.meta.url), "utf8");
+
+describe("passWindow", () => {
+    it("matches when the simulation has the birb level with the pipe", () => {
+        const pipe = createPipe(0.5, 0.9, 0);
+        const { enter, leave } = passWindow(pipe);
+        const states = Array.from({ length: 200 }).reduce<State[]>(
+            ss => [
+                ...ss,
+                step(
+                    ss[ss.length - 1],
+                    { ...NoInput, flap: ss[ss.length - 1].birbPosition > 200 }, // hover
+                    Constants.TICK_RATE_MS,
+                ),
+            ],
+            [createInitialState([pipe], 1)],
+        );
+        const passing = states.filter(s => s.pipeRead?.[0].birdPassing);
+        expect(passing[0].elapsedTime).toBeGreaterThanOrEqual(enter);
+        expect(passing[0].elapsedTime - Constants.TICK_RATE_MS).toBeLessThan(
+            enter,
+        );
+        expect(passing[passing.length - 1].elapsedTime).toBeLessThanOrEqual(
+            leave,
+        );
+    });
+});
+
+describe("courseProblems", () => {
+    it("passes the shipped map and the generator presets", () => {
+        expect(courseProblems(loadMap(csv).pipes)).toEqual([]);
+        Object.values(Presets).forEach(options =>
+            expect(
+                courseProblems(
+                    generateCourse(7, options).map(p =>
+                        createPipe(p.gapY, p.gapHeight, p.time),
+                    ),
+                ),
+            ).toEqual([]),
+        );
+    });
+
+    it("finds a gap too narrow to stay in", () => {
+        const room = roomToPass(400);
+        const gap = (Birb.HEIGHT + room - 2) / 400;
+        expect(courseProblems([createPipe(0.5, gap, 1000)])).toEqual([
+            { index: 0, message: expect.stringMatching(/needs more than/) },
+        ]);
+    });
+
+    it("finds a gap out of reach of the one before", () => {
+        const problems = courseProblems([
+            createPipe(0.85, 0.25, 1000),
+            createPipe(0.15, 0.25, 1500), // a climb of 160px in 328ms
+        ]);
+        expect(problems).toEqual([
+            { index: 1, message: expect.stringMatching(/too high to reach/) },
+        ]);
+        expect(maxClimb(328)).toBeLessThan(160);
+    });
+
+    it("finds pipes too close together to be in both their gaps at once", () => {
+        const first = createPipe(0.3, 0.3, 1000); // gap from 60 to 180
+        const close = createPipe(0.515, 0.3, 1400); // gap from 146 to 266
+        expect(passWindow(first).leave).toBeGreaterThan(
+            passWindow(close).enter,
+        );
+        expect(courseProblems([first, close])).toEqual([
+            {
+                index: 1,
+                message: expect.stringMatching(/shares 4px with the previous/),
+            },
+        ]);
+        expect(courseProblems([first, { ...close, time: 2000 }])).toEqual([]);
+    });
+});
+
+describe("repairCourse", () => {
+    it("moves and widens only the pipes that need it, keeping their pickups", () => {
+        const course = [
+            createPipe(0.5, 0.25, 1000),
+            createPipe(0.85, 0.25, 2000),
+            createPipe(0.15, 0.1, 2500, { pickup: "shield" }),
+            createPipe(0.5, 0.25, 5000),
+        ];
+        const repaired = repairCourse(course);
+        expect(new Set(courseProblems(course).map(p => p.index))).toEqual(
+            new Set([2]),
+        );
+        expect(courseProblems(repaired)).toEqual([]);
+        expect(repaired[0]).toBe(course[0]);
+        expect(repaired[1]).toBe(course[1]);
+        expect(repaired[2].gapY).toBeGreaterThan(0.15);
+        expect(repaired[2].gapHeight).toBeGreaterThan(0.1);
+        expect(repaired[2].time).toBe(2500);
+        expect(repaired[2].pickup).toBe("shield");
+    });
+
+    it("leaves room in both gaps of pipes close together", () => {
+        const course = [
+            createPipe(0.3, 0.3, 1000),
+            createPipe(0.515, 0.3, 1400),
+            createPipe(0.3, 0.3, 1800),
+        ];
+        const repaired = repairCourse(course);
+        expect(courseProblems(repaired)).toEqual([]);
+        expect(repaired[1].gapTop).toBeLessThan(course[1].gapTop);
+        const [a, b] = repaired;
+        const shared =
+            Math.min(a.gapBottom, b.gapBottom) -
+            Birb.HEIGHT -
+            Math.max(a.gapTop, b.gapTop);
+        const { enter, leave } = passWindow(a);
+        expect(shared).toBeGreaterThan(roomToPass(leave - enter));
+    });
+});
@@ -0,0 +1,174 @@
+import { readFileSync } from "node:fs";
+import { Subject, from } from "rxjs";
+import { describe, expect, it } from "vitest";
+import { autopilot } from "../src/bot";
+import { state$ } from "../src/main";
+import { loadMap } from "../src/map";
+import {
+    DEFAULT_SOUND,
+    applySettings,
+    loadSoundSettings,
+    playSounds,
+    saveSoundSettings,
+    soundEvent$,
+    soundOf,
+    type AudioBackend,
+    type SoundEvent,
+    type SoundStorage,
+} from "../src/sound";
+import { NoInput, applySignal, createInitialState, step } from "../src/state";
+import type { Action, FrameSteps, GameOptions, Recording } from "../src/types";
+
+const csv = readFileSync(new URL("../assets/map.csv", import.meta.url), "utf8");
+const start = createInitialState(loadMap(csv).pipes, 1234);
+
+/**
+ * An audio backend that only remembers what it was asked to do.
+ *
+ * @returns the stub, with the calls made to it
+ */
+const stubBackend = (): AudioBackend & {
+    played: SoundEvent[];
+    calls: string[];
+} => {
+    const played: SoundEvent[] = [];
+    const calls: string[] = [];
+    return {
+        played,
+        calls,
+        play: e => void played.push(e),
+        music: on => void calls.push(`music ${on}`),
+        volume: v => void calls.push(`volume ${v}`),
+    };
+};
+
+/**
+ * Plays a whole run through state$ and hears it.
+ *
+ * @param options what drives the run besides the clock
+ * @returns the sounds played, and the recording of the run
+ */
+const hear = (
+    options: GameOptions,
+): { played: SoundEvent[]; recording: Recording | undefined } => {
+    const clock$ = new Subject<FrameSteps>();
+    const backend = stubBackend();
+    const result: { recording: Recording | undefined } = {
+        recording: undefined,
+    };
+    const sub = playSounds(
+        soundEvent$(
+            state$(options.replay?.map ?? csv, {
+                action$: new Subject<Action>(),
+                ...options,
+                clock$,
+                onRecorded: r => (result.recording = r),
+            }),
+        ),
+        backend,
+        () => DEFAULT_SOUND,
+    );
+    Array.from({ length: 5000 }).forEach(() =>
+        clock$.next({ steps: 1, alpha: 0 }),
+    );
+    sub.unsubscribe();
+    return { played: backend.played, recording: result.recording };
+};
+
+/**
+ * In-memory stand-in for localStorage.
+ *
+ * @returns empty storage
+ */
+const memoryStorage = (): SoundStorage & { items: Map<string, string> } => {
+    const items = new Map<string, string>();
+    return {
+        items,
+        getItem: key => items.get(key) ?? null,
+        setItem: (key, value) => void items.set(key, value),
+    };
+};
+
+describe("soundOf", () => {
+    it("plays the events the player should hear", () => {
+        const flapped = applySignal(start, "flap");
+        expect(flapped.events.map(soundOf)).toEqual(["flap"]);
+        expect(applySignal(flapped, "Tick").events).toEqual([]);
+        expect(soundOf({ type: "pipePassed", t: 5, pipe: 0, score: 1 })).toBe(
+            "score",
+        );
+        expect(soundOf({ type: "bounced", t: 5, edge: "floor" })).toBe("hit");
+        expect(soundOf({ type: "lifeLost", t: 5, lives: 2 })).toBeUndefined();
+    });
+
+    it("is silent on a restart", () => {
+        const later = { ...start, flaps: 5, score: 3, hits: 2, gameOver: true };
+        expect(step(later, { ...NoInput, restart: true }, 0).events).toEqual(
+            [],
+        );
+    });
+});
+
+describe("sounds of a run", () => {
+    it("are the same when the run is replayed", () => {
+        const live = hear({ bot: () => autopilot });
+        expect(live.played.filter(e => e === "score")).toHaveLength(20);
+        expect(live.played.filter(e => e === "flap").length).toBeGreaterThan(
+            20,
+        );
+        expect(live.played.at(-1)).toBe("win");
+        expect(live.played).not.toContain("gameOver");
+
+        const replayed = hear({ replay: live.recording!.replay });
+        expect(replayed.played).toEqual(live.played);
+    });
+
+    it("are not played while muted", () => {
+        const backend = stubBackend();
+        const muted = { value: false };
+        const event$ = new Subject<SoundEvent>();
+        playSounds(event$, backend, () => ({
+            ...DEFAULT_SOUND,
+            muted: muted.value,
+        }));
+        event$.next("flap");
+        muted.value = true;
+        event$.next("hit");
+        expect(backend.played).toEqual(["flap"]);
+    });
+
+    it("fire nothing for a single state", () => {
+        const backend = stubBackend();
+        playSounds(soundEvent$(from([start])), backend, () => DEFAULT_SOUND);
+        expect(backend.played).toEqual([]);
+    });
+});
+
+describe("sound settings", () => {
+    it("set the volume and music, both off while muted", () => {
+        const backend = stubBackend();
+        applySettings(backend, { volume: 0.8, muted: false, music: true });
+        applySettings(backend, { volume: 0.8, muted: true, music: true });
+        expect(backend.calls).toEqual([
+            "volume 0.8",
+            "music true",
+            "volume 0",
+            "music false",
+        ]);
+    });
+
+    it("default until saved, and again if corrupt", () => {
+        const storage = memoryStorage();
+        expect(loadSoundSettings(storage)).toEqual(DEFAULT_SOUND);
+        const settings = { volume: 0.2, muted: true, music: true };
+        saveSoundSettings(storage, settings);
+        expect(loadSoundSettings(storage)).toEqual(settings);
+
+        storage.items.forEach((_, key) =>
+            storage.setItem(key, '{"volume":2,"muted":false,"music":false}'),
+        );
+        expect(loadSoundSettings(storage)).toEqual(DEFAULT_SOUND);
+        storage.items.forEach((_, key) => storage.setItem(key, "{"));
+        expect(loadSoundSettings(storage)).toEqual(DEFAULT_SOUND);
+    });
+});
@@ -0,0 +1,160 @@
+import { NEVER, firstValueFrom, of, throwError } from "rxjs";
+import { describe, expect, it } from "vitest";
+import {
+    GROUND,
+    STILL,
+    Shake,
+    Tilt,
+    WINGS,
+    animate,
+    frameTime,
+    isBlinkedOut,
+    layerOffset,
+    preload$,
+    shakeOffset,
+    sheetFrame,
+    tilt,
+} from "../src/sprites";
+import {
+    DEFAULT_RULES,
+    NoInput,
+    applySignal,
+    createInitialState,
+    createPipe,
+    step,
+} from "../src/state";
+import { Birb, Constants, type State } from "../src/types";
+
+const start = createInitialState([createPipe(0.5, 0.3, 0)], 1);
+
+describe("animate", () => {
+    it("keeps the time of the latest flap and bounce", () => {
+        const flapped = applySignal(
+            { ...start, elapsedTime: 320 },
+            "flap",
+        ).events.reduce(animate, STILL);
+        expect(flapped).toEqual({ flapAt: 320, bounceAt: -Infinity });
+        const bounced = [
+            { type: "bounced", t: 400, edge: "floor" },
+            { type: "lifeLost", t: 400, lives: 2 },
+        ] as const;
+        expect(bounced.reduce(animate, flapped)).toEqual({
+            flapAt: 320,
+            bounceAt: 400,
+        });
+    });
+});
+
+describe("sheetFrame", () => {
+    it("plays the flap once through, then rests", () => {
+        const frames = [-10, 0, 59, 60, 120, 179, 180, 1000].map(t =>
+            sheetFrame(WINGS, t),
+        );
+        expect(frames).toEqual([0, 1, 1, 2, 3, 3, 0, 0]);
+        expect(sheetFrame(WINGS, -Infinity)).toBe(0);
+    });
+});
+
+describe("tilt", () => {
+    it("follows the birb's velocity within limits", () => {
+        expect(tilt(0)).toBe(0);
+        expect(tilt(Birb.FLAP_VELOCITY)).toBe(Tilt.MIN);
+        expect(tilt(5)).toBe(5 * Tilt.PER_VELOCITY);
+        expect(tilt(100)).toBe(Tilt.MAX);
+    });
+});
+
+describe("layerOffset", () => {
+    it("moves the ground along with the pipes, wrapping around", () => {
+        const pipe = createPipe(0.5, 0.3, 0);
+        const s = [1, 2].reduce(
+            (acc: State) => step(acc, NoInput, Constants.TICK_RATE_MS),
+            createInitialState([pipe], 1),
+        );
+        const [p] = s.pipeRendering ?? [];
+        expect(
+            layerOffset(GROUND, s.elapsedTime) -
+                layerOffset(GROUND, s.elapsedTime - Constants.TICK_RATE_MS),
+        ).toBeCloseTo(p.xpos - p.prevXpos);
+
+        const lap = Constants.PIPE_TRAVEL_MS * (600 / 650); // a tile's width
+        expect(layerOffset(GROUND, 0)).toBe(0);
+        expect(layerOffset(GROUND, lap / 2)).toBeCloseTo(-300);
+        expect(layerOffset(GROUND, lap * 1.5)).toBeCloseTo(-300);
+        expect(layerOffset({ ...GROUND, speed: 0.5 }, lap / 2)).toBeCloseTo(
+            -150,
+        );
+    });
+});
+
+describe("frameTime", () => {
+    it("is between the last two steps", () => {
+        const s = { ...start, elapsedTime: 160 };
+        expect(frameTime(s, 1)).toBe(160);
+        expect(frameTime(s, 0.5)).toBe(152);
+        expect(frameTime(start, 0)).toBe(0);
+    });
+});
+
+describe("isBlinkedOut", () => {
+    it("blinks only while the birb can fly through pipes", () => {
+        const blinks = (s: State): boolean[] =>
+            [0, 50, 100, 150, 200].map(t => isBlinkedOut(s, t));
+        expect(blinks(start)).toEqual([false, false, false, false, false]);
+        expect(blinks({ ...start, phasingPipes: [0] })).toEqual([
+            false,
+            false,
+            true,
+            true,
+            false,
+        ]);
+        const invincible = {
+            ...start,
+            rules: { ...DEFAULT_RULES, invincibilityMs: 500 },
+            invincibleUntil: 500,
+        };
+        expect(blinks(invincible)).toContain(true);
+    });
+});
+
+describe("shakeOffset", () => {
+    it("dies away after a bounce", () => {
+        expect(shakeOffset(-5)).toEqual({ x: 0, y: 0 });
+        expect(shakeOffset(0)).toEqual({ x: 0, y: Shake.PX });
+        expect(Math.hypot(shakeOffset(100).x, shakeOffset(100).y)).toBeLessThan(
+            Shake.PX,
+        );
+        expect(shakeOffset(Shake.MS)).toEqual({ x: 0, y: 0 });
+    });
+});
+
+describe("preload$", () => {
+    it("settles with the assets that loaded, whatever the others did", async () => {
+        const loaded = await firstValueFrom(
+            preload$(
+                [
+                    "ok.png",
+                    "missing.png",
+                    "broken.png",
+                    "slow.png",
+                    "empty.png",
+                ],
+                url =>
+                    url === "ok.png"
+                        ? of(true)
+                        : url === "missing.png"
+                          ? of(false)
+                          : url === "broken.png"
+                            ? throwError(() => new Error("404"))
+                            : url === "slow.png"
+                              ? NEVER
+                              : [],
+                10,
+            ),
+        );
+        expect([...loaded]).toEqual(["ok.png"]);
+        expect([...(await firstValueFrom(preload$([], () => NEVER)))]).toEqual(
+            [],
+        );
+    });
+});
@@ -0,0 +1,163 @@
+import { readFileSync } from "node:fs";
+import { Subject } from "rxjs";
+import { describe, expect, it } from "vitest";
+import { state$ } from "../src/main";
+import { loadMap } from "../src/map";
+import { parseReplay, replaySignal$, serialiseReplay } from "../src/replay";
+import { applySignal, createInitialState } from "../src/state";
+import {
+    MAX_SNAPSHOTS,
+    SNAPSHOT_FRAMES,
+    advance,
+    firstFrame,
+    rewindTo,
+    startTimeline,
+    stateAt,
+} from "../src/timeline";
+import type {
+    Action,
+    FrameSteps,
+    Recording,
+    Signal,
+    State,
+    Timeline,
+} from "../src/types";
+
+const csv = readFileSync(new URL("../assets/map.csv", import.meta.url), "utf8");
+const start = createInitialState(loadMap(csv).pipes, 1234);
+
+/**
+ * Signals of a run that flaps every 25 ticks and pauses for a while.
+ *
+ * @param ticks number of ticks
+ * @returns the signals, in order
+ */
+const signalsOf = (ticks: number): Signal[] =>
+    Array.from({ length: ticks }, (_, i): Signal[] =>
+        i % 25 === 0
+            ? ["flap", "Tick"]
+            : i === 105 || i === 110
+              ? ["pause", "Tick"]
+              : ["Tick"],
+    ).flat();
+
+/**
+ * Plays signals into a timeline, keeping every state after a tick.
+ *
+ * @param signals signals to play
+ * @param maxSnapshots most snapshots to keep
+ * @returns the timeline and the state of every frame, from frame 0
+ */
+const record = (
+    signals: readonly Signal[],
+    maxSnapshots = MAX_SNAPSHOTS,
+): { timeline: Timeline; frames: State[] } =>
+    signals.reduce(
+        ({ timeline, frames }, signal) => {
+            const next = advance(timeline, signal, maxSnapshots);
+            return {
+                timeline: next,
+                frames: signal === "Tick" ? [...frames, next.state] : frames,
+            };
+        },
+        { timeline: startTimeline(start), frames: [start] },
+    );
+
+describe("timeline", () => {
+    it("simulates every frame again from its snapshots", () => {
+        const { timeline, frames } = record(signalsOf(300));
+        expect(timeline.frame).toBe(300);
+        expect(timeline.snapshots).toHaveLength(300 / SNAPSHOT_FRAMES + 1);
+        [0, 1, 59, 60, 61, 105, 250, 300].forEach(frame =>
+            expect(stateAt(timeline, frame)).toEqual(frames[frame]),
+        );
+    });
+
+    it("copies its snapshots only when one is taken", () => {
+        const { timeline } = record(signalsOf(100));
+        const next = advance(timeline, "Tick");
+        expect(next.snapshots).toBe(timeline.snapshots);
+        expect(next.signals).toHaveLength(timeline.signals.length + 1);
+        const { timeline: before } = record(signalsOf(119));
+        expect(advance(before, "Tick").snapshots).toHaveLength(3);
+    });
+
+    it("keeps only the most recent snapshots", () => {
+        const { timeline, frames } = record(signalsOf(300), 3);
+        expect(timeline.snapshots).toHaveLength(3);
+        expect(firstFrame(timeline)).toBe(180);
+        expect(stateAt(timeline, 200)).toEqual(frames[200]);
+        expect(stateAt(timeline, 0)).toEqual(frames[180]); // as far back as it goes
+    });
+
+    it("carries on from a rewound frame as if it had been reached again", () => {
+        const signals = signalsOf(300);
+        const { timeline } = record(signals);
+        const back = rewindTo(timeline, 130);
+        expect(back.frame).toBe(130);
+        // 130 ticks and the 6 flaps and 2 pauses before them, not the flap after
+        expect(back).toEqual(record(signals.slice(0, 138)).timeline);
+        const replayed = signals
+            .slice(138)
+            .reduce((t, signal) => advance(t, signal), back);
+        expect(replayed).toEqual(timeline);
+    });
+});
+
+describe("rewinding a live run", () => {
+    it("goes back while held and records the run as it carried on", () => {
+        const clock$ = new Subject<FrameSteps>();
+        const action$ = new Subject<Action>();
+        const held: { value: boolean } = { value: false };
+        const recordings: Recording[] = [];
+        const states: State[] = [];
+        const sub = state$(csv, {
+            action$,
+            clock$,
+            rewinding: () => held.value,
+            onRecorded: r => recordings.push(r),
+        }).subscribe(s => states.push(s));
+        const frames = (n: number): void =>
+            Array.from({ length: n }).forEach(() =>
+                clock$.next({ steps: 1, alpha: 0 }),
+            );
+
+        frames(20);
+        action$.next("flap");
+        frames(20);
+        held.value = true;
+        frames(15); // back 30 frames, before the flap
+        held.value = false;
+        expect(states[states.length - 1].elapsedTime).toBe(10 * 16);
+        frames(30);
+        action$.next("restart");
+        sub.unsubscribe();
+
+        const [r] = recordings;
+        expect(r.rewound).toBe(true);
+        expect(r.replay.inputs).toEqual([{ t: 40 * 16, action: "restart" }]);
+        expect(r.ghost.path.map(p => p.t)).toEqual(
+            Array.from({ length: 40 }, (_, i) => (i + 1) * 16),
+        );
+
+        // the replay is the run as it carried on
+        const replayStates: State[] = [];
+        const replayClock$ = new Subject<FrameSteps>();
+        const replay = parseReplay(serialiseReplay(r.replay));
+        const replayStart = createInitialState(
+            loadMap(replay.map).pipes,
+            replay.seed,
+            replay.ghosts,
+            replay.rules,
+        );
+        replaySignal$(replay, replayClock$).subscribe(signal =>
+            replayStates.push(
+                applySignal(replayStates.at(-1) ?? replayStart, signal),
+            ),
+        );
+        Array.from({ length: 40 }).forEach(() =>
+            replayClock$.next({ steps: 1, alpha: 0 }),
+        );
+        expect(replayStates.at(-1)).toEqual(states.at(-1));
+    });
+});
@@ -0,0 +1,96 @@
+import { Buffer } from "node:buffer";
+import { describe, expect, it } from "vitest";
+import {
+    CloseCode,
+    Opcode,
+    closeFrame,
+    decodeFrame,
+    encodeFrame,
+} from "../scripts/websocket";
+
+/**
+ * Encodes a frame as a client does, masked.
+ *
+ * @param opcode kind of frame
+ * @param payload its contents
+ * @param fin false for a frame with more of its message to come
+ * @returns the bytes sent
+ */
+const clientFrame = (opcode: number, payload: Buffer, fin = true): Buffer => {
+    const mask = Buffer.from([0x12, 0x34, 0x56, 0x78]);
+    const unmasked = encodeFrame(opcode, payload);
+    const headerLength = unmasked.length - payload.length;
+    const header = Buffer.from(unmasked.subarray(0, headerLength));
+    header[0] = fin ? header[0] : header[0] & 0x7f;
+    header[1] |= 0x80;
+    return Buffer.concat([
+        header,
+        mask,
+        Buffer.from(payload.map((b, i) => b ^ mask[i % 4])),
+    ]);
+};
+
+describe("encodeFrame", () => {
+    it("writes the length in as few bytes as it fits", () => {
+        expect([...encodeFrame(Opcode.TEXT, Buffer.from("hi"))]).toEqual([
+            0x81, 2, 0x68, 0x69,
+        ]);
+        const medium = encodeFrame(Opcode.TEXT, Buffer.alloc(200));
+        expect([...medium.subarray(0, 4)]).toEqual([0x81, 126, 0, 200]);
+        expect(medium).toHaveLength(4 + 200);
+        const large = encodeFrame(Opcode.TEXT, Buffer.alloc(70000));
+        expect(large.subarray(0, 2)).toEqual(Buffer.from([0x81, 127]));
+        expect(large.readBigUInt64BE(2)).toBe(70000n);
+        expect(large).toHaveLength(10 + 70000);
+    });
+
+    it("closes with a status code and a reason", () => {
+        const frame = closeFrame(CloseCode.PROTOCOL_ERROR, "bad");
+        expect(frame[0]).toBe(0x80 | Opcode.CLOSE);
+        expect(frame.readUInt16BE(2)).toBe(1002);
+        expect(frame.subarray(4).toString()).toBe("bad");
+    });
+});
+
+describe("decodeFrame", () => {
+    it("unmasks a client's frame of any length", () => {
+        [5, 200, 70000].forEach(length => {
+            const payload = Buffer.alloc(length, "ab");
+            expect(decodeFrame(clientFrame(Opcode.TEXT, payload))).toEqual({
+                frame: { opcode: Opcode.TEXT, fin: true, payload },
+                rest: Buffer.alloc(0),
+            });
+        });
+    });
+
+    it("waits for a frame split across chunks, and leaves the next one", () => {
+        const first = clientFrame(Opcode.TEXT, Buffer.from("hello"), false);
+        const second = clientFrame(Opcode.CONTINUATION, Buffer.alloc(300, "x"));
+        const bytes = Buffer.concat([first, second]);
+        [1, 2, 5, first.length - 1].forEach(n =>
+            expect(decodeFrame(bytes.subarray(0, n))).toBeUndefined(),
+        );
+        const decoded = decodeFrame(bytes);
+        expect(decoded).toEqual({
+            frame: {
+                opcode: Opcode.TEXT,
+                fin: false,
+                payload: Buffer.from("hello"),
+            },
+            rest: second,
+        });
+        expect(
+            decodeFrame(second.subarray(0, second.length - 1)),
+        ).toBeUndefined();
+        expect(decodeFrame(second)).toMatchObject({
+            frame: { opcode: Opcode.CONTINUATION, fin: true },
+        });
+    });
+
+    it("rejects a frame that is not masked", () => {
+        expect(
+            decodeFrame(encodeFrame(Opcode.TEXT, Buffer.from("hi"))),
+        ).toEqual({ error: "client frame is not masked" });
+        expect(decodeFrame(Buffer.from([0x81, 0x05]))).toHaveProperty("error"); // before the rest is in
+    });
+});